@@ -0,0 +1,257 @@
+/**
+ * End-to-end test of the after-merge integration check using the scripted
+ * agent backend
+ *
+ * task-1 passes its own review and is merged, but the after-merge command from
+ * ralphs.yaml fails on the base branch. With `onFailure: fix` an integration
+ * fix task is opened and built in a loop of its own (and another one if that
+ * fix still fails once merged); with `onFailure: revert` the merge is undone
+ * and the run fails. A merge the CONFLICT agent finishes is checked the same way.
+ */
+import assert from 'node:assert';
+import { execSync, spawnSync } from 'node:child_process';
+import { existsSync, readFileSync } from 'node:fs';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import Database from 'better-sqlite3';
+import { stringify } from 'yaml';
+import { DEFAULT_PRESETS } from '../../config/effort.js';
+
+const CLI_PATH = fileURLToPath(new URL('../../index.ts', import.meta.url));
+
+const SCRIPT = String.raw`
+agents:
+  - phase: analyze
+    steps:
+      - mcp:
+          tool: write_context
+          args:
+            type: codebase_analysis
+            content: '{"projectType":"empty","techStack":[],"directoryStructure":"","existingFeatures":[],"entryPoints":[],"patterns":[],"summary":"Empty"}'
+      - text: ANALYZE_COMPLETE
+  - phase: enumerate
+    steps:
+      - mcp: { tool: write_task, args: { id: task-1, title: Done, description: Write done.txt, estimatedIterations: 2 } }
+      - text: ENUMERATE_COMPLETE
+  - phase: plan
+    steps:
+      - mcp: { tool: add_plan_group, args: { groupIndex: 0, taskIds: [task-1] } }
+      - text: PLAN_COMPLETE
+  - phase: build
+    match: 'Fix integration failure after merging task-1'
+    steps:
+      - write: { path: fixed.txt, content: "fixed\n" }
+      - text: TASK_COMPLETE
+  - phase: build
+    steps:
+      - write: { path: done.txt, content: "done\n" }
+      - text: TASK_COMPLETE
+  - phase: review
+    match: 'loopId: "(?<loopId>[^"]+)",\s+taskId: "(?<taskId>[^"]+)"'
+    repeat: true
+    steps:
+      - mcp: { tool: set_loop_review_result, args: { loopId: "{{loopId}}", taskId: "{{taskId}}", passed: true } }
+  - phase: review
+    steps:
+      - mcp: { tool: set_review_result, args: { passed: true, intentSatisfied: true } }
+`;
+
+describe('After-merge integration check end-to-end', () => {
+  let tempDir: string;
+  let repoDir: string;
+
+  async function setUp(
+    onFailure: 'revert' | 'fix',
+    script = SCRIPT,
+    commands = ['test -f fixed.txt']
+  ): Promise<void> {
+    await writeFile(join(tempDir, 'script.yaml'), script);
+    await writeFile(
+      join(repoDir, 'ralphs.yaml'),
+      stringify({
+        presets: DEFAULT_PRESETS,
+        verify: { afterMerge: { commands, onFailure } },
+      })
+    );
+    execSync('git add -A && git commit -q -m setup', { cwd: repoDir });
+  }
+
+  function runCli(): number | null {
+    return spawnSync(
+      process.execPath,
+      [
+        '--import',
+        import.meta.resolve('tsx'),
+        CLI_PATH,
+        '--spec',
+        'spec.md',
+        '--no-tui',
+        '--effort',
+        'low',
+        '--agent-backend',
+        `scripted:${join(tempDir, 'script.yaml')}`,
+      ],
+      { cwd: repoDir, stdio: 'pipe', timeout: 120_000 }
+    ).status;
+  }
+
+  function readRun(): {
+    tasks: Array<{ id: string; status: string }>;
+    checks: Array<Record<string, unknown>>;
+  } {
+    const db = new Database(join(repoDir, '.ralphs', 'state.db'), { readonly: true });
+    try {
+      const tasks = db.prepare('SELECT id, status FROM tasks ORDER BY id').all() as Array<{
+        id: string;
+        status: string;
+      }>;
+      const checks = (
+        db
+          .prepare("SELECT content FROM context WHERE type = 'integration_check' ORDER BY id")
+          .all() as Array<{ content: string }>
+      ).map((row) => JSON.parse(row.content));
+      return { tasks, checks };
+    } finally {
+      db.close();
+    }
+  }
+
+  beforeEach(async () => {
+    tempDir = join(tmpdir(), `sq-integration-check-${Date.now()}`);
+    repoDir = join(tempDir, 'repo');
+    await mkdir(repoDir, { recursive: true });
+    execSync('git init -q -b main && git commit -q --allow-empty -m init', { cwd: repoDir });
+    await writeFile(join(repoDir, 'spec.md'), '# Done\n\nWrite done.txt.\n');
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('opens an integration fix task when the merged base branch fails', async () => {
+    await setUp('fix');
+
+    assert.strictEqual(runCli(), 0);
+
+    assert.ok(existsSync(join(repoDir, 'done.txt')));
+    assert.ok(existsSync(join(repoDir, 'fixed.txt')));
+    const { tasks, checks } = readRun();
+    assert.deepStrictEqual(tasks, [
+      { id: 'integration-fix-1', status: 'completed' },
+      { id: 'task-1', status: 'completed' },
+    ]);
+    assert.deepStrictEqual(
+      checks.map((c) => [c.passed, c.action, c.fixTaskId]),
+      [
+        [false, 'fix_task', 'integration-fix-1'],
+        [true, 'none', undefined],
+      ]
+    );
+  });
+
+  test('opens another fix task when a fix task fails once merged', async () => {
+    // The first fix does not make the after-merge command pass, the second one does
+    await setUp(
+      'fix',
+      SCRIPT.replace(
+        String.raw`      - write: { path: fixed.txt, content: "fixed\n" }`,
+        String.raw`      - write: { path: attempt.txt, content: "not yet\n" }
+      - text: TASK_COMPLETE
+  - phase: build
+    match: 'Fix integration failure after merging integration-fix-1'
+    steps:
+      - write: { path: fixed.txt, content: "fixed\n" }`
+      )
+    );
+
+    assert.strictEqual(runCli(), 0);
+
+    assert.ok(existsSync(join(repoDir, 'fixed.txt')));
+    const { tasks, checks } = readRun();
+    assert.deepStrictEqual(tasks, [
+      { id: 'integration-fix-1', status: 'completed' },
+      { id: 'integration-fix-2', status: 'completed' },
+      { id: 'task-1', status: 'completed' },
+    ]);
+    assert.deepStrictEqual(
+      checks.map((c) => [c.passed, c.action, c.fixTaskId]),
+      [
+        [false, 'fix_task', 'integration-fix-1'],
+        [false, 'fix_task', 'integration-fix-2'],
+        [true, 'none', undefined],
+      ]
+    );
+  });
+
+  test('reverts the merge and fails the task when set to revert', async () => {
+    await setUp('revert');
+
+    assert.strictEqual(runCli(), 1);
+
+    assert.ok(!existsSync(join(repoDir, 'done.txt')));
+    const subject = execSync('git log -1 --format=%s', { cwd: repoDir }).toString();
+    assert.ok(subject.startsWith('Revert "Merge'));
+    const { tasks, checks } = readRun();
+    assert.deepStrictEqual(tasks, [{ id: 'task-1', status: 'failed' }]);
+    assert.deepStrictEqual(
+      checks.map((c) => [c.passed, c.command, c.exitCode, c.action]),
+      [[false, 'test -f fixed.txt', 1, 'reverted']]
+    );
+  });
+
+  test('checks and reverts a merge the conflict agent resolved', async () => {
+    // Both tasks write greeting.txt in parallel, so the second merge conflicts
+    // and the resolution is what breaks the base branch
+    await setUp(
+      'revert',
+      SCRIPT.replace(
+        / {2}- phase: enumerate[\s\S]*(?= {2}- phase: review\n {4}match)/,
+        String.raw`  - phase: enumerate
+    steps:
+      - mcp: { tool: write_task, args: { id: task-1, title: Hello, description: Greet, estimatedIterations: 1 } }
+      - mcp: { tool: write_task, args: { id: task-2, title: Bye, description: Part, estimatedIterations: 1 } }
+      - text: ENUMERATE_COMPLETE
+  - phase: plan
+    steps:
+      - mcp: { tool: add_plan_group, args: { groupIndex: 0, taskIds: [task-1, task-2] } }
+      - text: PLAN_COMPLETE
+  - phase: build
+    match: '\*\*ID:\*\* task-1'
+    steps:
+      - write: { path: greeting.txt, content: "hello\n" }
+      - text: TASK_COMPLETE
+  - phase: build
+    match: '\*\*ID:\*\* task-2'
+    steps:
+      - write: { path: greeting.txt, content: "bye\n" }
+      - text: TASK_COMPLETE
+  - phase: conflict
+    steps:
+      - bash: printf 'broken\n' > greeting.txt && git add greeting.txt && git commit -qm 'Resolve greeting conflict'
+      - text: CONFLICT_RESOLVED
+`
+      ),
+      ['! grep -q broken greeting.txt']
+    );
+
+    assert.strictEqual(runCli(), 1);
+
+    // The resolution is undone, leaving the first merge's greeting in place
+    const greeting = readFileSync(join(repoDir, 'greeting.txt'), 'utf-8');
+    assert.ok(greeting === 'hello\n' || greeting === 'bye\n');
+    const subject = execSync('git log -1 --format=%s', { cwd: repoDir }).toString();
+    assert.strictEqual(subject, 'Revert "Resolve greeting conflict"\n');
+    const { tasks, checks } = readRun();
+    assert.deepStrictEqual(tasks.map((t) => t.status).sort(), ['completed', 'failed']);
+    assert.deepStrictEqual(
+      checks.map((c) => [c.passed, c.action]),
+      [
+        [true, 'none'],
+        [false, 'reverted'],
+      ]
+    );
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * End-to-end test of a full `ralphs --spec` run using the scripted agent backend
+ *
+ * The script answers every agent call offline: ANALYZE, ENUMERATE and PLAN
+ * write through the MCP tools, two parallel BUILD loops edit the same file in
+ * their worktrees, per-loop reviews pass, the second merge conflicts and the
+ * CONFLICT agent resolves it, and the final review passes. The same run
+ * recorded with --debug is then replayed from its trace.
+ */
+import assert from 'node:assert';
+import { execFileSync, execSync } from 'node:child_process';
+import { readFileSync, writeFileSync } from 'node:fs';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import Database from 'better-sqlite3';
+
+const CLI_PATH = fileURLToPath(new URL('../../index.ts', import.meta.url));
+
+const SCRIPT = String.raw`
+agents:
+  - phase: analyze
+    steps:
+      - mcp:
+          tool: write_context
+          args:
+            type: codebase_analysis
+            content: '{"projectType":"empty","techStack":[],"directoryStructure":"","existingFeatures":[],"entryPoints":[],"patterns":[],"summary":"Empty"}'
+      - text: ANALYZE_COMPLETE
+  - phase: enumerate
+    steps:
+      - mcp: { tool: write_task, args: { id: task-1, title: Hello, description: Greet, estimatedIterations: 1 } }
+      - mcp: { tool: write_task, args: { id: task-2, title: Bye, description: Part, estimatedIterations: 1 } }
+      - text: ENUMERATE_COMPLETE
+  - phase: plan
+    steps:
+      - mcp: { tool: add_plan_group, args: { groupIndex: 0, taskIds: [task-1, task-2] } }
+      - text: PLAN_COMPLETE
+  - phase: build
+    match: '\*\*ID:\*\* task-1'
+    steps:
+      - write: { path: greeting.txt, content: "hello\n" }
+      - text: TASK_COMPLETE
+  - phase: build
+    match: '\*\*ID:\*\* task-2'
+    steps:
+      - write: { path: greeting.txt, content: "bye\n" }
+      - text: TASK_COMPLETE
+  - phase: review
+    match: 'loopId: "(?<loopId>[^"]+)",\s+taskId: "(?<taskId>[^"]+)"'
+    repeat: true
+    steps:
+      - mcp: { tool: set_loop_review_result, args: { loopId: "{{loopId}}", taskId: "{{taskId}}", passed: true } }
+  - phase: conflict
+    steps:
+      - bash: printf 'hello\nbye\n' > greeting.txt && git add greeting.txt && git commit -qm 'Resolve greeting conflict'
+      - text: CONFLICT_RESOLVED
+  - phase: review
+    steps:
+      - mcp: { tool: set_review_result, args: { passed: true, intentSatisfied: true } }
+`;
+
+describe('Scripted end-to-end run', () => {
+  let tempDir: string;
+  let repoDir: string;
+
+  beforeEach(async () => {
+    tempDir = join(tmpdir(), `sq-integration-scripted-${Date.now()}`);
+    repoDir = join(tempDir, 'repo');
+    await mkdir(repoDir, { recursive: true });
+    execSync('git init -q -b main && git commit -q --allow-empty -m init', { cwd: repoDir });
+    await writeFile(join(repoDir, 'spec.md'), '# Greeting\n\nGreet, then say goodbye.\n');
+    execSync('git add spec.md && git commit -q -m spec', { cwd: repoDir });
+    await writeFile(join(tempDir, 'script.yaml'), SCRIPT);
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  function runCli(args: string[], cwd = repoDir): string {
+    return execFileSync(
+      process.execPath,
+      ['--import', import.meta.resolve('tsx'), CLI_PATH, ...args],
+      {
+        cwd,
+        encoding: 'utf-8',
+        stdio: 'pipe',
+        timeout: 120_000,
+      }
+    );
+  }
+
+  function runScripted(...extraArgs: string[]): void {
+    runCli([
+      '--spec',
+      'spec.md',
+      '--no-tui',
+      '--effort',
+      'low',
+      '--agent-backend',
+      `scripted:${join(tempDir, 'script.yaml')}`,
+      ...extraArgs,
+    ]);
+  }
+
+  function assertCompletedRun(dir: string): void {
+    assert.strictEqual(readFileSync(join(dir, 'greeting.txt'), 'utf-8'), 'hello\nbye\n');
+    assert.strictEqual(execSync('git status --porcelain', { cwd: dir }).toString(), '');
+
+    const db = new Database(join(dir, '.ralphs', 'state.db'), { readonly: true });
+    try {
+      const run = db.prepare('SELECT phase FROM runs').get() as { phase: string };
+      assert.strictEqual(run.phase, 'complete');
+      const tasks = db.prepare('SELECT id, status FROM tasks ORDER BY id').all();
+      assert.deepStrictEqual(tasks, [
+        { id: 'task-1', status: 'completed' },
+        { id: 'task-2', status: 'completed' },
+      ]);
+    } finally {
+      db.close();
+    }
+  }
+
+  test('runs every phase through worktrees, merges, reviews and a conflict', () => {
+    runScripted();
+    assertCompletedRun(repoDir);
+  });
+
+  test('replays a --debug run in a sandbox without the original agents', () => {
+    runScripted('--debug');
+    const db = new Database(join(repoDir, '.ralphs', 'state.db'), { readonly: true });
+    const { id: runId } = db.prepare('SELECT id FROM runs').get() as { id: string };
+    db.close();
+    // Later changes must not leak into the replay, which starts from the recorded commit
+    writeFileSync(join(repoDir, 'greeting.txt'), 'changed\n');
+    writeFileSync(join(repoDir, 'spec.md'), '# Greeting\n\nShout.\n');
+    execSync('git commit -qam change', { cwd: repoDir });
+
+    const sandbox = join(tempDir, 'sandbox');
+    const output = runCli(['replay', runId, '--sandbox', sandbox]);
+
+    assert.match(output, /Replaying \d+ agent calls/);
+    assert.match(output, /Replay exited with code 0/);
+    assertCompletedRun(sandbox);
+    assert.strictEqual(
+      readFileSync(join(sandbox, 'spec.md'), 'utf-8'),
+      '# Greeting\n\nGreet, then say goodbye.\n'
+    );
+  });
+
+  test('replays an untracked spec from the snapshot the run enumerated from', () => {
+    execSync('git rm -q --cached spec.md && git commit -qm untrack', { cwd: repoDir });
+    runScripted('--debug');
+    const db = new Database(join(repoDir, '.ralphs', 'state.db'), { readonly: true });
+    const { id: runId } = db.prepare('SELECT id FROM runs').get() as { id: string };
+    db.close();
+    writeFileSync(join(repoDir, 'spec.md'), '# Greeting\n\nShout.\n');
+
+    const sandbox = join(tempDir, 'sandbox');
+    const output = runCli(['replay', runId, '--sandbox', sandbox]);
+
+    assert.match(output, /Replay exited with code 0/);
+    assert.strictEqual(
+      readFileSync(join(sandbox, 'spec.md'), 'utf-8'),
+      '# Greeting\n\nGreet, then say goodbye.\n'
+    );
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * End-to-end test of the verify gate using the scripted agent backend
+ *
+ * The first BUILD call claims TASK_COMPLETE without doing the work. The verify
+ * command from ralphs.yaml fails, so the loop review is skipped and the next
+ * iteration's prompt carries the failure as review feedback. The second call
+ * does the work and the task completes.
+ */
+import assert from 'node:assert';
+import { execFileSync, execSync } from 'node:child_process';
+import { existsSync } from 'node:fs';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import Database from 'better-sqlite3';
+import { stringify } from 'yaml';
+import { DEFAULT_PRESETS } from '../../config/effort.js';
+
+const CLI_PATH = fileURLToPath(new URL('../../index.ts', import.meta.url));
+
+const SCRIPT = String.raw`
+agents:
+  - phase: analyze
+    steps:
+      - mcp:
+          tool: write_context
+          args:
+            type: codebase_analysis
+            content: '{"projectType":"empty","techStack":[],"directoryStructure":"","existingFeatures":[],"entryPoints":[],"patterns":[],"summary":"Empty"}'
+      - text: ANALYZE_COMPLETE
+  - phase: enumerate
+    steps:
+      - mcp: { tool: write_task, args: { id: task-1, title: Done, description: Write done.txt, estimatedIterations: 2 } }
+      - text: ENUMERATE_COMPLETE
+  - phase: plan
+    steps:
+      - mcp: { tool: add_plan_group, args: { groupIndex: 0, taskIds: [task-1] } }
+      - text: PLAN_COMPLETE
+  - phase: build
+    match: 'Verify command .test -f done.txt. exited with code 1'
+    steps:
+      - write: { path: done.txt, content: "done\n" }
+      - text: TASK_COMPLETE
+  - phase: build
+    steps:
+      - text: TASK_COMPLETE
+  - phase: review
+    match: 'loopId: "(?<loopId>[^"]+)",\s+taskId: "(?<taskId>[^"]+)"'
+    steps:
+      - mcp: { tool: set_loop_review_result, args: { loopId: "{{loopId}}", taskId: "{{taskId}}", passed: true } }
+  - phase: review
+    steps:
+      - mcp: { tool: set_review_result, args: { passed: true, intentSatisfied: true } }
+`;
+
+describe('Verify gate end-to-end', () => {
+  let tempDir: string;
+  let repoDir: string;
+
+  beforeEach(async () => {
+    tempDir = join(tmpdir(), `sq-integration-verify-${Date.now()}`);
+    repoDir = join(tempDir, 'repo');
+    await mkdir(repoDir, { recursive: true });
+    execSync('git init -q -b main && git commit -q --allow-empty -m init', { cwd: repoDir });
+    await writeFile(join(repoDir, 'spec.md'), '# Done\n\nWrite done.txt.\n');
+    await writeFile(
+      join(repoDir, 'ralphs.yaml'),
+      stringify({ presets: DEFAULT_PRESETS, verify: { commands: ['test -f done.txt'] } })
+    );
+    execSync('git add -A && git commit -q -m setup', { cwd: repoDir });
+    await writeFile(join(tempDir, 'script.yaml'), SCRIPT);
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('sends a TASK_COMPLETE whose verify command fails back to the build agent', () => {
+    execFileSync(
+      process.execPath,
+      [
+        '--import',
+        import.meta.resolve('tsx'),
+        CLI_PATH,
+        '--spec',
+        'spec.md',
+        '--no-tui',
+        '--effort',
+        'low',
+        '--agent-backend',
+        `scripted:${join(tempDir, 'script.yaml')}`,
+      ],
+      { cwd: repoDir, stdio: 'pipe', timeout: 120_000 }
+    );
+
+    assert.ok(existsSync(join(repoDir, 'done.txt')));
+    const db = new Database(join(repoDir, '.ralphs', 'state.db'), { readonly: true });
+    try {
+      const task = db.prepare('SELECT status FROM tasks').get() as { status: string };
+      assert.strictEqual(task.status, 'completed');
+      const loop = db.prepare('SELECT iteration FROM loops').get() as { iteration: number };
+      assert.strictEqual(loop.iteration, 2);
+    } finally {
+      db.close();
+    }
+  });
+});
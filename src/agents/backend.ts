@@ -0,0 +1,78 @@
+import type { TokenUsage } from '../types/index.js';
+import { createCliBackend } from './cli-backend.js';
+import { createReplayBackend, loadAgentRecording } from './replay-backend.js';
+import { createScriptedBackend, loadAgentScript } from './scripted-backend.js';
+import { sdkBackend } from './sdk-backend.js';
+import type { AgentConfig } from './spawn.js';
+
+/**
+ * Normalized events emitted by every agent backend. Phases consume these
+ * instead of backend-specific message formats.
+ *
+ * - text / thinking: incremental output, already deduplicated by the backend
+ * - tool_start: a tool call whose input is complete
+ * - tool_result: the result of a previously started tool call
+ * - cost: total cost of the agent call in USD, with its token usage when the
+ *   backend reports it (may be emitted more than once; last wins)
+ * - done: the agent finished; always the final event
+ */
+export type AgentEvent =
+  | { type: 'text'; text: string }
+  | { type: 'thinking'; text: string }
+  | { type: 'tool_start'; toolId: string; name: string; input: Record<string, unknown> }
+  | {
+      type: 'tool_result';
+      toolId: string;
+      name: string;
+      input: Record<string, unknown>;
+      result: unknown;
+    }
+  | { type: 'cost'; costUsd: number; usage?: TokenUsage }
+  | { type: 'done' };
+
+/**
+ * A runtime that executes an agent for a prompt and streams normalized events.
+ */
+export interface AgentBackend {
+  /** Short identifier shown in logs, e.g. 'sdk' or 'cli' */
+  readonly name: string;
+  run(prompt: string, config: AgentConfig): AsyncIterable<AgentEvent>;
+}
+
+let activeBackend: AgentBackend = sdkBackend;
+
+/**
+ * Get the backend phases should run agents with.
+ * Defaults to the Claude Agent SDK unless another backend was selected.
+ */
+export function getAgentBackend(): AgentBackend {
+  return activeBackend;
+}
+
+/**
+ * Select the backend for all subsequent agent calls in this process.
+ */
+export function setAgentBackend(backend: AgentBackend): void {
+  activeBackend = backend;
+}
+
+/**
+ * Create a backend from a `--agent-backend` value:
+ * - `sdk`: the Claude Agent SDK (default)
+ * - `cli:<command>`: a local CLI agent over stdin/stdout
+ * - `scripted:<path>`: replay a YAML or JSON agent script
+ * - `replay:<debugDir>`: replay the agent calls recorded in a run's debug trace
+ */
+export function createAgentBackend(spec: string): AgentBackend {
+  if (spec === 'sdk') return sdkBackend;
+  if (spec.startsWith('cli:')) return createCliBackend(spec.slice('cli:'.length));
+  if (spec.startsWith('scripted:')) {
+    return createScriptedBackend(loadAgentScript(spec.slice('scripted:'.length)));
+  }
+  if (spec.startsWith('replay:')) {
+    return createReplayBackend(loadAgentRecording(spec.slice('replay:'.length)));
+  }
+  throw new Error(
+    `Unknown agent backend: ${spec} (expected sdk, cli:<command>, scripted:<path> or replay:<debugDir>)`
+  );
+}
@@ -0,0 +1,75 @@
+import assert from 'node:assert';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import type { AgentEvent } from './backend.js';
+import { createCliBackend, parseCliAgentLine } from './cli-backend.js';
+import { createAgentConfig } from './spawn.js';
+
+describe('CLI agent backend', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'sq-cli-backend-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function runAgent(script: string, prompt: string): Promise<AgentEvent[]> {
+    const scriptPath = join(tempDir, 'agent.mjs');
+    writeFileSync(scriptPath, script);
+    const backend = createCliBackend(`node ${scriptPath}`);
+    const events: AgentEvent[] = [];
+    for await (const event of backend.run(prompt, createAgentConfig('build', tempDir))) {
+      events.push(event);
+    }
+    return events;
+  }
+
+  test('parseCliAgentLine passes through JSON events and wraps other lines as text', () => {
+    assert.deepStrictEqual(parseCliAgentLine('{"type":"cost","costUsd":0.5}'), {
+      type: 'cost',
+      costUsd: 0.5,
+    });
+    assert.deepStrictEqual(parseCliAgentLine('hello'), { type: 'text', text: 'hello\n' });
+    assert.deepStrictEqual(parseCliAgentLine('{"not":"an event"}'), {
+      type: 'text',
+      text: '{"not":"an event"}\n',
+    });
+    assert.strictEqual(parseCliAgentLine('{"type":"done"}'), null);
+  });
+
+  test('writes the prompt to stdin and streams stdout as events', async () => {
+    const events = await runAgent(
+      `
+      let prompt = '';
+      process.stdin.on('data', (d) => (prompt += d));
+      process.stdin.on('end', () => {
+        const config = JSON.parse(process.env.RALPHS_AGENT_CONFIG);
+        console.log('got: ' + prompt + ' in ' + (config.cwd === process.cwd()));
+        console.log(JSON.stringify({ type: 'tool_start', toolId: 't1', name: 'Bash', input: { command: 'ls' } }));
+        console.log(JSON.stringify({ type: 'cost', costUsd: 0.1 }));
+        console.log(JSON.stringify({ type: 'done' }));
+      });
+      `,
+      'do the thing'
+    );
+
+    assert.deepStrictEqual(events, [
+      { type: 'text', text: 'got: do the thing in true\n' },
+      { type: 'tool_start', toolId: 't1', name: 'Bash', input: { command: 'ls' } },
+      { type: 'cost', costUsd: 0.1 },
+      { type: 'done' },
+    ]);
+  });
+
+  test('fails the agent call when the command exits non-zero', async () => {
+    await assert.rejects(
+      runAgent("console.error('model unavailable'); process.exit(2);", 'prompt'),
+      /exited with code 2[\s\S]*model unavailable/
+    );
+  });
+});
@@ -0,0 +1,97 @@
+import { spawn } from 'node:child_process';
+import { createInterface } from 'node:readline';
+import type { AgentBackend, AgentEvent } from './backend.js';
+import type { AgentConfig } from './spawn.js';
+
+const EVENT_TYPES = new Set(['text', 'thinking', 'tool_start', 'tool_result', 'cost']);
+
+/** How much of the agent's stderr to include when it exits with an error */
+const STDERR_TAIL_CHARS = 2000;
+
+/**
+ * Parse one stdout line from a CLI agent. Lines that are JSON objects with a
+ * known event `type` are passed through as events; anything else is plain
+ * agent text. A `done` line is ignored because the backend emits its own once
+ * the process exits.
+ */
+export function parseCliAgentLine(line: string): AgentEvent | null {
+  if (line.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(line) as { type?: unknown };
+      if (parsed.type === 'done') return null;
+      if (typeof parsed.type === 'string' && EVENT_TYPES.has(parsed.type)) {
+        return parsed as AgentEvent;
+      }
+    } catch {
+      // Not JSON after all; fall through to plain text
+    }
+  }
+  return { type: 'text', text: `${line}\n` };
+}
+
+/**
+ * Backend that runs a local CLI agent as a shell command, once per agent call.
+ *
+ * Protocol:
+ * - The prompt is written to the command's stdin, which is then closed.
+ * - The agent config is passed as JSON in the RALPHS_AGENT_CONFIG environment
+ *   variable, and the command runs in the config's cwd.
+ * - Each stdout line is either a JSON agent event (see AgentEvent) or plain text.
+ * - A non-zero exit code fails the agent call with the tail of stderr.
+ */
+export function createCliBackend(command: string): AgentBackend {
+  return {
+    name: 'cli',
+    run: (prompt, config) => runCliAgent(command, prompt, config),
+  };
+}
+
+async function* runCliAgent(
+  command: string,
+  prompt: string,
+  config: AgentConfig
+): AsyncGenerator<AgentEvent> {
+  const child = spawn(command, {
+    cwd: config.cwd,
+    shell: true,
+    stdio: ['pipe', 'pipe', 'pipe'],
+    env: { ...process.env, RALPHS_AGENT_CONFIG: JSON.stringify(config) },
+  });
+
+  let stderr = '';
+  child.stderr.on('data', (chunk: Buffer) => {
+    stderr = (stderr + chunk.toString()).slice(-STDERR_TAIL_CHARS);
+  });
+
+  const exited = new Promise<number | null>((resolve, reject) => {
+    child.on('error', reject);
+    child.on('close', (code) => resolve(code));
+  });
+  // Surface spawn errors from `await exited` below instead of as unhandled rejections
+  exited.catch(() => {});
+
+  // The agent may exit without reading its input
+  child.stdin.on('error', () => {});
+  child.stdin.end(prompt);
+
+  try {
+    for await (const line of createInterface({ input: child.stdout })) {
+      const event = parseCliAgentLine(line);
+      if (event) yield event;
+    }
+
+    const code = await exited;
+    if (code !== 0) {
+      throw new Error(
+        `Agent command exited with code ${code}: ${command}${stderr ? `\n${stderr.trim()}` : ''}`
+      );
+    }
+  } finally {
+    // Stop the agent if the consumer abandoned the stream early
+    if (child.exitCode === null && child.signalCode === null) {
+      child.kill();
+    }
+  }
+
+  yield { type: 'done' };
+}
@@ -0,0 +1,55 @@
+import { exec } from 'node:child_process';
+import { promisify } from 'node:util';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createMCPServer } from '../mcp/server.js';
+import type { AgentConfig } from './spawn.js';
+
+// Tool implementations shared by the backends that act without a model
+// (scripted and replay)
+
+const execAsync = promisify(exec);
+
+/**
+ * Connect an in-process client to the ralphs MCP server configured for this
+ * agent call, so tool calls write to the same state database a real agent would.
+ */
+export async function connectMcpClient(config: AgentConfig, clientName: string): Promise<Client> {
+  const server = Object.values(config.mcpServers ?? {})[0];
+  if (!server) {
+    throw new Error(`The ${config.phase} phase has no MCP server`);
+  }
+  const [, runId, dbPath] = server.args;
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createMCPServer(runId, dbPath).connect(serverTransport);
+  const client = new Client({ name: clientName, version: '1.0.0' });
+  await client.connect(clientTransport);
+  return client;
+}
+
+/**
+ * Call an MCP tool and flatten its text content into a single result string.
+ */
+export async function callMcpTool(
+  client: Client,
+  tool: string,
+  args: Record<string, unknown>
+): Promise<string> {
+  const response = await client.callTool({ name: tool, arguments: args });
+  const content = response.content as Array<{ type: string; text?: string }>;
+  return content.map((c) => c.text ?? '').join('');
+}
+
+/**
+ * Run a shell command and return its combined output. Like a real agent, a
+ * failing command is reported in the result rather than thrown.
+ */
+export async function runShellCommand(command: string, cwd: string): Promise<string> {
+  try {
+    const { stdout, stderr } = await execAsync(command, { cwd });
+    return `${stdout}${stderr}`;
+  } catch (e) {
+    const error = e as { stdout?: string; stderr?: string; message: string };
+    return `${error.stdout ?? ''}${error.stderr ?? ''}` || error.message;
+  }
+}
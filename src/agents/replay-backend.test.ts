@@ -0,0 +1,271 @@
+import assert from 'node:assert';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { closeDatabase, createDatabase } from '../db/index.js';
+import { createFileTracer } from '../debug/index.js';
+import { runAgent } from '../orchestrator/phases/run-agent.js';
+import { type AgentBackend, type AgentEvent, getAgentBackend, setAgentBackend } from './backend.js';
+import {
+  type AgentRecording,
+  createReplayBackend,
+  loadAgentRecording,
+  parseRecordedResponse,
+} from './replay-backend.js';
+import { type AgentConfig, createAgentConfig } from './spawn.js';
+
+describe('Replay agent backend', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'sq-replay-backend-test-'));
+  });
+
+  afterEach(() => {
+    closeDatabase();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function run(recording: AgentRecording, configs: AgentConfig[]): Promise<AgentEvent[][]> {
+    const backend = createReplayBackend(recording);
+    const results: AgentEvent[][] = [];
+    for (const config of configs) {
+      const events: AgentEvent[] = [];
+      for await (const event of backend.run('prompt', config)) events.push(event);
+      results.push(events);
+    }
+    return results;
+  }
+
+  function loopConfig(loopId: string, taskIds: string[], cwd = tempDir): AgentConfig {
+    return { ...createAgentConfig('build', cwd), loopId, taskIds };
+  }
+
+  test('parseRecordedResponse splits text from tool calls and drops recorded results', () => {
+    const input = JSON.stringify({ file_path: '/w/a.txt', content: 'x' }, null, 2);
+    const response = `Working\n[tool] Write /w/a.txt\nInput: ${input}\nResult: "ok"\nTASK_COMPLETE\n\n[INTERRUPTED: Idle timeout]`;
+
+    assert.deepStrictEqual(parseRecordedResponse(response), {
+      steps: [
+        { text: 'Working' },
+        { tool: 'Write', input: { file_path: '/w/a.txt', content: 'x' } },
+        { text: 'TASK_COMPLETE' },
+      ],
+      interrupted: 'Idle timeout',
+    });
+  });
+
+  test('parseRecordedResponse keeps thinking apart and agent text that starts with Result:', () => {
+    const response =
+      '\n[thinking] "Once it passes, say \\"TASK_COMPLETE\\"\\n"\n' +
+      'Checking\n[tool] Read /w/a.txt\nInput: {}\nResult: "x"\nResult: all tests pass\n';
+
+    assert.deepStrictEqual(parseRecordedResponse(response).steps, [
+      { thinking: 'Once it passes, say "TASK_COMPLETE"\n' },
+      { text: 'Checking' },
+      { tool: 'Read', input: {} },
+      { text: 'Result: all tests pass\n' },
+    ]);
+  });
+
+  test('replays a recorded call without turning its thinking into output', async () => {
+    const previousBackend: AgentBackend = getAgentBackend();
+    const tracer = createFileTracer(tempDir);
+    await tracer.init('run-1', 'spec.md', 'low');
+    const config = createAgentConfig('build', tempDir);
+    try {
+      setAgentBackend({
+        name: 'fake',
+        async *run() {
+          yield { type: 'thinking', text: 'When the tests pass I will output TASK_COMPLETE\n' };
+          yield { type: 'text', text: 'Running the tests\n' };
+          yield { type: 'tool_start', toolId: 't1', name: 'Read', input: { file_path: 'a.txt' } };
+          yield {
+            type: 'tool_result',
+            toolId: 't1',
+            name: 'Read',
+            input: { file_path: 'a.txt' },
+            result: 'x',
+          };
+          yield { type: 'text', text: 'Result: one test still fails\n' };
+          yield { type: 'done' };
+        },
+      });
+      const recorded = await runAgent(
+        'prompt',
+        config,
+        tracer.startAgentCall({ phase: 'build', prompt: 'prompt' })
+      );
+      await tracer.finalize();
+
+      setAgentBackend(createReplayBackend(loadAgentRecording(join(tempDir, 'debug', 'run-1'))));
+      const replayed = await runAgent('prompt', config);
+
+      assert.strictEqual(replayed.output, recorded.output);
+      assert.strictEqual(replayed.output, 'Running the tests\nResult: one test still fails\n');
+    } finally {
+      setAgentBackend(previousBackend);
+    }
+  });
+
+  test('pairs loop calls by task and rewrites recorded paths and loop IDs', async () => {
+    const recording: AgentRecording = {
+      runId: 'run-1',
+      specPath: '/orig/spec.md',
+      effort: 'low',
+      cwd: '/orig',
+      calls: [
+        {
+          phase: 'build',
+          loopId: 'rec-a',
+          taskIds: ['task-1'],
+          cwd: '/orig/.ralphs/worktrees/rec-a',
+          steps: [{ text: 'A rec-a' }],
+          costUsd: 0.1,
+        },
+        {
+          phase: 'build',
+          loopId: 'rec-b',
+          taskIds: ['task-2'],
+          cwd: '/orig/.ralphs/worktrees/rec-b',
+          steps: [
+            {
+              tool: 'Write',
+              input: { file_path: '/orig/.ralphs/worktrees/rec-b/out.txt', content: 'B' },
+            },
+            { tool: 'Read', input: { file_path: '/etc/passwd' } },
+            { tool: 'Write', input: { file_path: '/elsewhere/out.txt', content: 'B' } },
+          ],
+          costUsd: 0.2,
+        },
+      ],
+    };
+
+    const [b, a] = await run(recording, [
+      loopConfig('live-b', ['task-2']),
+      loopConfig('live-a', ['task-1']),
+    ]);
+
+    assert.deepStrictEqual(a, [
+      { type: 'text', text: 'A live-a' },
+      { type: 'cost', costUsd: 0.1 },
+      { type: 'done' },
+    ]);
+    assert.strictEqual(readFileSync(join(tempDir, 'out.txt'), 'utf-8'), 'B');
+    assert.deepStrictEqual(
+      b.filter((e) => e.type === 'tool_result').map((e) => e.result),
+      ['File written', `Skipped in replay: /elsewhere/out.txt is outside ${tempDir}`]
+    );
+  });
+
+  test('re-applies MCP calls, replays interruptions and reports divergence', async () => {
+    const dbPath = join(tempDir, 'state.db');
+    const db = createDatabase(dbPath);
+    db.prepare(
+      "INSERT INTO runs (id, spec_path, effort) VALUES ('live-run', 'spec.md', 'low')"
+    ).run();
+    const recording: AgentRecording = {
+      runId: 'run-1',
+      specPath: '/orig/spec.md',
+      effort: 'low',
+      cwd: '/orig',
+      calls: [
+        {
+          phase: 'review',
+          loopId: 'rec-a',
+          taskIds: ['task-1'],
+          cwd: '/orig',
+          steps: [
+            {
+              tool: 'mcp__sq-db__write_context',
+              input: { type: 'discovery', content: 'seen', loop_id: 'rec-a' },
+            },
+          ],
+          costUsd: 0,
+        },
+        {
+          phase: 'review',
+          loopId: 'rec-a',
+          taskIds: ['task-1'],
+          cwd: '/orig',
+          steps: [{ text: 'partial' }],
+          costUsd: 0,
+          interrupted: 'Agent crashed',
+        },
+      ],
+    };
+    const config: AgentConfig = {
+      ...createAgentConfig('review', tempDir, 'live-run', dbPath),
+      loopId: 'live-a',
+      taskIds: ['task-1'],
+    };
+
+    const backend = createReplayBackend(recording);
+    const drain = async (c: AgentConfig) => {
+      for await (const _ of backend.run('prompt', c));
+    };
+
+    await drain(config);
+    const row = db.prepare('SELECT content, loop_id FROM context').get();
+    assert.deepStrictEqual(row, { content: 'seen', loop_id: 'live-a' });
+    await assert.rejects(drain(config), /Agent crashed/);
+    await assert.rejects(drain(config), /Replay diverged: the recording has no review call left/);
+  });
+
+  test('loadAgentRecording reads calls from a trace directory in start order', () => {
+    const debugDir = join(tempDir, 'debug', 'run-1');
+    mkdirSync(join(debugDir, 'outputs'), { recursive: true });
+    const outputs = {
+      'plan-2-response.txt': 'PLAN_COMPLETE',
+      'build-abcdef12-iter-1-3-response.txt': 'working\n\n[INTERRUPTED: Idle timeout]',
+      'build-abcdef12-iter-2-4-response.txt': 'still running',
+      'analyze-1-response.txt': 'ANALYZE_COMPLETE',
+    };
+    for (const [file, content] of Object.entries(outputs)) {
+      writeFileSync(join(debugDir, 'outputs', file), content);
+    }
+    const agentCall = (phase: string, n: number, costUsd: number) => ({
+      type: 'agent_call',
+      timestamp: '2026-01-01T00:00:00.000Z',
+      phase,
+      promptFile: `outputs/${phase}-${n}-prompt.txt`,
+      responseFile: `outputs/${phase}-${n}-response.txt`,
+      costUsd,
+      durationMs: 10,
+    });
+    writeFileSync(
+      join(debugDir, 'trace.json'),
+      JSON.stringify({
+        runId: 'run-1',
+        specPath: '/orig/spec.md',
+        effort: 'low',
+        cwd: '/orig',
+        startedAt: '2026-01-01T00:00:00.000Z',
+        completedAt: null,
+        events: [
+          agentCall('analyze', 1, 0.5),
+          {
+            type: 'loop_created',
+            timestamp: '2026-01-01T00:00:00.000Z',
+            loopId: 'abcdef12-3456',
+            taskIds: ['task-1'],
+            worktreePath: '/orig/.ralphs/worktrees/abcdef12-3456',
+          },
+          agentCall('plan', 2, 0.25),
+        ],
+      })
+    );
+
+    const recording = loadAgentRecording(debugDir);
+
+    assert.deepStrictEqual(
+      recording.calls.map((c) => [c.phase, c.loopId, c.cwd, c.costUsd, c.interrupted]),
+      [
+        ['analyze', undefined, '/orig', 0.5, undefined],
+        ['plan', undefined, '/orig', 0.25, undefined],
+        ['build', 'abcdef12-3456', '/orig/.ralphs/worktrees/abcdef12-3456', 0, 'Idle timeout'],
+      ]
+    );
+  });
+});
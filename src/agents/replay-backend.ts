@@ -0,0 +1,297 @@
+import { readFileSync, readdirSync } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join, relative, resolve } from 'node:path';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { AgentCallEvent, LoopEvent, TraceFile } from '../debug/types.js';
+import type { Phase } from '../types/index.js';
+import type { AgentBackend, AgentEvent } from './backend.js';
+import { callMcpTool, connectMcpClient, runShellCommand } from './offline-tools.js';
+import type { AgentConfig } from './spawn.js';
+
+export type RecordedStep =
+  | { text: string }
+  | { thinking: string }
+  | { tool: string; input: Record<string, unknown> };
+
+export interface RecordedAgentCall {
+  phase: Phase;
+  loopId?: string;
+  taskIds: string[];
+  /** Working directory of the recorded call (the loop's worktree, or the run's cwd) */
+  cwd: string;
+  steps: RecordedStep[];
+  costUsd: number;
+  /** Set when the recorded call failed before completing */
+  interrupted?: string;
+}
+
+export interface AgentRecording {
+  runId: string;
+  specPath: string;
+  effort: string;
+  /** Working directory of the recorded run */
+  cwd: string;
+  /** Git HEAD the recorded run started from, if the trace has it */
+  headCommit?: string;
+  /** Agent calls in the order they were started */
+  calls: RecordedAgentCall[];
+}
+
+// Response files are named <phase>[-<loopId prefix>-iter-<n>]-<counter>-response.txt
+const RESPONSE_FILE = /^([a-z]+)-(?:(.+)-iter-[^-]+-)?(\d+)-response\.txt$/;
+// What the phases write around the agent's text: tool calls as "[tool] <name> <summary>"
+// followed by pretty-printed input, their results as a "Result: <json>" line once the
+// tool returns, and thinking as a "[thinking] <json string>" line
+const RECORDED_EVENT =
+  /\n\[tool\] (\S+)[^\n]*\nInput: (\{\}|\{\n[\s\S]*?\n\})\n|^Result: [^\n]*\n|\n\[thinking\] ("(?:[^"\\\n]|\\.)*")\n/gm;
+const INTERRUPTED = /\n\n\[INTERRUPTED: ([\s\S]*)\]$/;
+
+/**
+ * Split a recorded response file back into the agent's text output, thinking
+ * and tool calls, in the order they happened. Recorded tool results are
+ * dropped; they are recomputed when the calls are replayed. Only a result line
+ * right after the tool calls still waiting for one counts as a result, so agent
+ * text that happens to start with "Result:" is kept.
+ */
+export function parseRecordedResponse(response: string): {
+  steps: RecordedStep[];
+  interrupted?: string;
+} {
+  const interrupted = INTERRUPTED.exec(response);
+  const body = interrupted ? response.slice(0, interrupted.index) : response;
+  const steps: RecordedStep[] = [];
+  const pushText = (text: string) => {
+    if (text) steps.push({ text });
+  };
+
+  let last = 0;
+  let awaitingResults = 0;
+  for (const match of body.matchAll(RECORDED_EVENT)) {
+    if (match[0].startsWith('Result: ')) {
+      if (awaitingResults === 0 || match.index !== last) continue;
+      awaitingResults--;
+    } else {
+      pushText(body.slice(last, match.index));
+      if (match[1]) {
+        steps.push({ tool: match[1], input: JSON.parse(match[2]) });
+        awaitingResults++;
+      } else {
+        steps.push({ thinking: JSON.parse(match[3]) });
+      }
+    }
+    last = match.index + match[0].length;
+  }
+  pushText(body.slice(last));
+
+  return { steps, interrupted: interrupted?.[1] };
+}
+
+/**
+ * Load the agent calls of a run from its debug trace directory
+ * (`.ralphs/debug/<runId>`, written with --debug).
+ */
+export function loadAgentRecording(debugDir: string): AgentRecording {
+  const trace = JSON.parse(readFileSync(join(debugDir, 'trace.json'), 'utf-8')) as TraceFile;
+  // Older traces don't record the cwd; runs normally keep .ralphs in the project root
+  const cwd = trace.cwd ?? resolve(debugDir, '..', '..', '..');
+
+  const loops = new Map<string, LoopEvent>();
+  const completed = new Map<string, AgentCallEvent>();
+  for (const event of trace.events) {
+    if (event.type === 'loop_created') loops.set(event.loopId, event);
+    if (event.type === 'agent_call') completed.set(event.responseFile, event);
+  }
+
+  const files = readdirSync(join(debugDir, 'outputs'))
+    .map((file) => ({ file, match: RESPONSE_FILE.exec(file) }))
+    .filter((f) => f.match !== null)
+    .sort((a, b) => Number(a.match?.[3]) - Number(b.match?.[3]));
+
+  const calls: RecordedAgentCall[] = [];
+  for (const { file, match } of files) {
+    const event = completed.get(`outputs/${file}`);
+    const { steps, interrupted } = parseRecordedResponse(
+      readFileSync(join(debugDir, 'outputs', file), 'utf-8')
+    );
+    // Neither completed nor interrupted: the process died mid-call, so the recording ends here
+    if (!event && interrupted === undefined) continue;
+
+    const loopPrefix = match?.[2];
+    const loopId =
+      event?.loopId ?? (loopPrefix && [...loops.keys()].find((id) => id.startsWith(loopPrefix)));
+    const loop = loopId ? loops.get(loopId) : undefined;
+    calls.push({
+      phase: event?.phase ?? (match?.[1] as Phase),
+      loopId: loopId || undefined,
+      taskIds: loop?.taskIds ?? [],
+      cwd: loop?.worktreePath ?? cwd,
+      steps,
+      costUsd: event?.costUsd ?? 0,
+      interrupted: event ? undefined : interrupted,
+    });
+  }
+
+  return {
+    runId: trace.runId,
+    specPath: trace.specPath,
+    effort: trace.effort,
+    cwd,
+    headCommit: trace.headCommit,
+    calls,
+  };
+}
+
+function sameTasks(a: string[], b: string[]): boolean {
+  return a.length === b.length && [...a].sort().join('\n') === [...b].sort().join('\n');
+}
+
+function remapDeep(value: unknown, remap: (text: string) => string): unknown {
+  if (typeof value === 'string') return remap(value);
+  if (Array.isArray(value)) return value.map((v) => remapDeep(v, remap));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, remapDeep(v, remap)]));
+  }
+  return value;
+}
+
+/**
+ * Backend that answers agent calls from a recorded run instead of a model.
+ * Each call gets the next unused recording of the same phase; build and
+ * per-loop review calls are paired with the recorded loop that worked on the
+ * same tasks. The recorded text is streamed back and the recorded side
+ * effects are re-applied in order: file writes and edits, shell commands and
+ * MCP tool calls. Paths and loop IDs from the recording are rewritten to the
+ * live ones. Throws when the orchestrator asks for a call the recording does
+ * not have, which means the replay diverged from the original run.
+ *
+ * Shell commands run for real, so replay in a scratch clone (`ralphs replay`
+ * does this).
+ */
+export function createReplayBackend(recording: AgentRecording): AgentBackend {
+  const used = new Set<RecordedAgentCall>();
+  // Recorded loop ID -> live loop ID
+  const loopIds = new Map<string, string>();
+
+  const matchesLoop = (call: RecordedAgentCall, config: AgentConfig): boolean => {
+    if (!call.loopId || !config.loopId) return !call.loopId && !config.loopId;
+    const mapped = loopIds.get(call.loopId);
+    if (mapped) return mapped === config.loopId;
+    return (
+      ![...loopIds.values()].includes(config.loopId) &&
+      sameTasks(call.taskIds, config.taskIds ?? [])
+    );
+  };
+
+  const takeCall = (config: AgentConfig): RecordedAgentCall => {
+    for (const call of recording.calls) {
+      if (used.has(call) || call.phase !== config.phase || !matchesLoop(call, config)) continue;
+      used.add(call);
+      if (call.loopId && config.loopId) loopIds.set(call.loopId, config.loopId);
+      return call;
+    }
+    const target = config.loopId ? ` for tasks ${config.taskIds?.join(', ')}` : '';
+    throw new Error(`Replay diverged: the recording has no ${config.phase} call left${target}`);
+  };
+
+  return {
+    name: 'replay',
+    run: (_prompt, config) => {
+      const call = takeCall(config);
+      const replacements: Array<[string, string]> = [
+        [call.cwd, config.cwd],
+        [recording.cwd, process.cwd()],
+        ...loopIds,
+      ];
+      const remap = (text: string) =>
+        replacements.reduce((t, [from, to]) => t.replaceAll(from, to), text);
+      return replayCall(call, remap, config);
+    },
+  };
+}
+
+async function* replayCall(
+  call: RecordedAgentCall,
+  remap: (text: string) => string,
+  config: AgentConfig
+): AsyncGenerator<AgentEvent> {
+  let mcpClient = null as Client | null;
+  try {
+    for (const [index, step] of call.steps.entries()) {
+      if ('text' in step) {
+        yield { type: 'text', text: remap(step.text) };
+        continue;
+      }
+      if ('thinking' in step) {
+        yield { type: 'thinking', text: remap(step.thinking) };
+        continue;
+      }
+      const input = remapDeep(step.input, remap) as Record<string, unknown>;
+      yield* replayTool(step.tool, input, `replay-${index}`, config, async () => {
+        mcpClient ??= await connectMcpClient(config, 'ralphs-replay-agent');
+        return mcpClient;
+      });
+    }
+  } finally {
+    await mcpClient?.close();
+  }
+
+  if (call.interrupted !== undefined) {
+    throw new Error(call.interrupted);
+  }
+  yield { type: 'cost', costUsd: call.costUsd };
+  yield { type: 'done' };
+}
+
+/**
+ * Re-apply one recorded tool call. Read-only tools (Read, Glob, Grep, ...)
+ * have no effect to reproduce and are skipped.
+ */
+async function* replayTool(
+  name: string,
+  input: Record<string, unknown>,
+  toolId: string,
+  config: AgentConfig,
+  getMcpClient: () => Promise<Client>
+): AsyncGenerator<AgentEvent> {
+  let apply: () => Promise<string>;
+  if (name === 'Write' || name === 'Edit') {
+    const path = resolve(config.cwd, String(input.file_path));
+    if (relative(config.cwd, path).startsWith('..')) {
+      // Never touch files outside the working directory the replay runs in
+      apply = async () => `Skipped in replay: ${path} is outside ${config.cwd}`;
+    } else if (name === 'Write') {
+      apply = async () => {
+        await mkdir(dirname(path), { recursive: true });
+        await writeFile(path, String(input.content));
+        return 'File written';
+      };
+    } else {
+      apply = async () => {
+        const content = await readFile(path, 'utf-8').catch(() => null);
+        const oldString = String(input.old_string);
+        if (content === null || !content.includes(oldString)) {
+          return `Error: old_string not found in ${path}`;
+        }
+        const newString = String(input.new_string);
+        await writeFile(
+          path,
+          input.replace_all
+            ? content.replaceAll(oldString, newString)
+            : content.replace(oldString, () => newString)
+        );
+        return 'File edited';
+      };
+    }
+  } else if (name === 'Bash') {
+    apply = () => runShellCommand(String(input.command), config.cwd);
+  } else if (name.startsWith('mcp__')) {
+    const tool = name.slice(name.lastIndexOf('__') + 2);
+    apply = async () => callMcpTool(await getMcpClient(), tool, input);
+  } else {
+    return;
+  }
+
+  yield { type: 'tool_start', toolId, name, input };
+  const result = await apply();
+  yield { type: 'tool_result', toolId, name, input, result };
+}
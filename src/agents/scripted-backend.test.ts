@@ -0,0 +1,117 @@
+import assert from 'node:assert';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { closeDatabase, createDatabase } from '../db/index.js';
+import type { AgentBackend, AgentEvent } from './backend.js';
+import { AgentScriptSchema, createScriptedBackend, loadAgentScript } from './scripted-backend.js';
+import { createAgentConfig } from './spawn.js';
+
+describe('Scripted agent backend', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'sq-scripted-backend-test-'));
+  });
+
+  afterEach(() => {
+    closeDatabase();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function run(
+    backend: AgentBackend,
+    prompt: string,
+    config = createAgentConfig('build', tempDir)
+  ): Promise<AgentEvent[]> {
+    const events: AgentEvent[] = [];
+    for await (const event of backend.run(prompt, config)) events.push(event);
+    return events;
+  }
+
+  test('answers calls with the first unused entry matching phase and prompt', async () => {
+    const backend = createScriptedBackend(
+      AgentScriptSchema.parse({
+        agents: [
+          { phase: 'review', steps: [{ text: 'review' }] },
+          { phase: 'build', match: 'task-(?<n>\\d+)', steps: [{ text: 'build {{n}}' }] },
+          { phase: 'build', repeat: true, cost: 0.5, steps: [{ text: 'fallback' }] },
+        ],
+      })
+    );
+
+    assert.deepStrictEqual(await run(backend, 'do task-7'), [
+      { type: 'text', text: 'build 7' },
+      { type: 'cost', costUsd: 0 },
+      { type: 'done' },
+    ]);
+    for (let i = 0; i < 2; i++) {
+      const events = await run(backend, 'do task-8');
+      assert.deepStrictEqual(events[0], { type: 'text', text: 'fallback' });
+      assert.deepStrictEqual(events[1], { type: 'cost', costUsd: 0.5 });
+    }
+    await assert.rejects(
+      run(backend, 'prompt', createAgentConfig('plan', tempDir)),
+      /no script entry matches this plan call/
+    );
+  });
+
+  test('writes files and runs shell commands in the agent cwd', async () => {
+    const backend = createScriptedBackend(
+      AgentScriptSchema.parse({
+        agents: [
+          {
+            steps: [
+              { write: { path: 'src/out.txt', content: 'hi from {{cwd}}' } },
+              { bash: 'cat src/out.txt && exit 3' },
+            ],
+          },
+        ],
+      })
+    );
+
+    const events = await run(backend, 'prompt');
+
+    assert.strictEqual(readFileSync(join(tempDir, 'src/out.txt'), 'utf-8'), `hi from ${tempDir}`);
+    assert.deepStrictEqual(
+      events.filter((e) => e.type === 'tool_result').map((e) => e.result),
+      ['File written', `hi from ${tempDir}`]
+    );
+  });
+
+  test('calls MCP tools against the run database and loads YAML scripts', async () => {
+    const dbPath = join(tempDir, 'state.db');
+    const db = createDatabase(dbPath);
+    db.prepare("INSERT INTO runs (id, spec_path, effort) VALUES ('run-1', 'spec.md', 'low')").run();
+    const scriptPath = join(tempDir, 'script.yaml');
+    writeFileSync(
+      scriptPath,
+      [
+        'agents:',
+        '  - phase: enumerate',
+        '    steps:',
+        '      - mcp: { tool: write_task, args: { id: task-1, title: One, description: First } }',
+        '      - text: ENUMERATE_COMPLETE',
+      ].join('\n')
+    );
+
+    const events = await run(
+      createScriptedBackend(loadAgentScript(scriptPath)),
+      'prompt',
+      createAgentConfig('enumerate', tempDir, 'run-1', dbPath)
+    );
+
+    assert.deepStrictEqual(events[1], {
+      type: 'tool_result',
+      toolId: 'scripted-0',
+      name: 'mcp__sq-db__write_task',
+      input: { id: 'task-1', title: 'One', description: 'First' },
+      result: 'Task task-1 created',
+    });
+    const row = db.prepare('SELECT title FROM tasks WHERE id = ?').get('task-1') as {
+      title: string;
+    };
+    assert.strictEqual(row.title, 'One');
+  });
+});
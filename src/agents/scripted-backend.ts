@@ -0,0 +1,156 @@
+import { readFileSync } from 'node:fs';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import type { AgentBackend, AgentEvent } from './backend.js';
+import { callMcpTool, connectMcpClient, runShellCommand } from './offline-tools.js';
+import type { AgentConfig } from './spawn.js';
+
+const ScriptStepSchema = z.union([
+  z.strictObject({ text: z.string() }),
+  z.strictObject({ thinking: z.string() }),
+  z.strictObject({ write: z.strictObject({ path: z.string(), content: z.string() }) }),
+  z.strictObject({ bash: z.string() }),
+  z.strictObject({
+    mcp: z.strictObject({
+      tool: z.string(),
+      args: z.record(z.string(), z.unknown()).default({}),
+    }),
+  }),
+]);
+
+const ScriptEntrySchema = z.object({
+  /** Only answer agent calls from this phase */
+  phase: z
+    .enum(['analyze', 'enumerate', 'plan', 'build', 'review', 'revise', 'conflict'])
+    .optional(),
+  /** Only answer agent calls whose prompt matches this regex; named groups become {{vars}} */
+  match: z.string().optional(),
+  /** Answer every matching call instead of only the first */
+  repeat: z.boolean().default(false),
+  cost: z.number().nonnegative().default(0),
+  steps: z.array(ScriptStepSchema),
+});
+
+export const AgentScriptSchema = z.object({
+  agents: z.array(ScriptEntrySchema),
+});
+
+export type AgentScript = z.infer<typeof AgentScriptSchema>;
+type ScriptEntry = z.infer<typeof ScriptEntrySchema>;
+type ScriptStep = z.infer<typeof ScriptStepSchema>;
+
+/**
+ * Load an agent script from a YAML or JSON file.
+ */
+export function loadAgentScript(path: string): AgentScript {
+  return AgentScriptSchema.parse(parseYaml(readFileSync(path, 'utf-8')));
+}
+
+/**
+ * Replace {{name}} placeholders with values from `vars`. Unknown names are left as-is.
+ */
+function substitute(text: string, vars: Record<string, string>): string {
+  return text.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) => vars[name] ?? placeholder);
+}
+
+function substituteDeep(value: unknown, vars: Record<string, string>): unknown {
+  if (typeof value === 'string') return substitute(value, vars);
+  if (Array.isArray(value)) return value.map((v) => substituteDeep(v, vars));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [key, substituteDeep(v, vars)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Backend that replays a script instead of running a model. Each agent call is
+ * answered by the first unused script entry whose phase and prompt match, and
+ * the entry's steps run in order: text, thinking, file writes, shell commands
+ * and MCP tool calls. Deterministic and offline, for end-to-end tests and for
+ * reproducing bug reports.
+ */
+export function createScriptedBackend(script: AgentScript): AgentBackend {
+  const used = new Set<ScriptEntry>();
+
+  const takeEntry = (prompt: string, config: AgentConfig) => {
+    for (const entry of script.agents) {
+      if (used.has(entry)) continue;
+      if (entry.phase && entry.phase !== config.phase) continue;
+      const match = entry.match ? new RegExp(entry.match).exec(prompt) : null;
+      if (entry.match && !match) continue;
+      if (!entry.repeat) used.add(entry);
+      return { entry, vars: { cwd: config.cwd, ...match?.groups } };
+    }
+    throw new Error(`Scripted agent: no script entry matches this ${config.phase} call`);
+  };
+
+  return {
+    name: 'scripted',
+    run: (prompt, config) => {
+      const { entry, vars } = takeEntry(prompt, config);
+      return replayEntry(entry, vars, config);
+    },
+  };
+}
+
+async function* replayEntry(
+  entry: ScriptEntry,
+  vars: Record<string, string>,
+  config: AgentConfig
+): AsyncGenerator<AgentEvent> {
+  let mcpClient = null as Client | null;
+  try {
+    for (const [index, step] of entry.steps.entries()) {
+      const toolId = `scripted-${index}`;
+      yield* runStep(step, toolId, vars, config, async () => {
+        mcpClient ??= await connectMcpClient(config, 'ralphs-scripted-agent');
+        return mcpClient;
+      });
+    }
+  } finally {
+    await mcpClient?.close();
+  }
+
+  yield { type: 'cost', costUsd: entry.cost };
+  yield { type: 'done' };
+}
+
+async function* runStep(
+  step: ScriptStep,
+  toolId: string,
+  vars: Record<string, string>,
+  config: AgentConfig,
+  getMcpClient: () => Promise<Client>
+): AsyncGenerator<AgentEvent> {
+  if ('text' in step) {
+    yield { type: 'text', text: substitute(step.text, vars) };
+  } else if ('thinking' in step) {
+    yield { type: 'thinking', text: substitute(step.thinking, vars) };
+  } else if ('write' in step) {
+    const input = {
+      file_path: resolve(config.cwd, substitute(step.write.path, vars)),
+      content: substitute(step.write.content, vars),
+    };
+    yield { type: 'tool_start', toolId, name: 'Write', input };
+    await mkdir(dirname(input.file_path), { recursive: true });
+    await writeFile(input.file_path, input.content);
+    yield { type: 'tool_result', toolId, name: 'Write', input, result: 'File written' };
+  } else if ('bash' in step) {
+    const input = { command: substitute(step.bash, vars) };
+    yield { type: 'tool_start', toolId, name: 'Bash', input };
+    const result = await runShellCommand(input.command, config.cwd);
+    yield { type: 'tool_result', toolId, name: 'Bash', input, result };
+  } else {
+    const name = `mcp__sq-db__${step.mcp.tool}`;
+    const input = substituteDeep(step.mcp.args, vars) as Record<string, unknown>;
+    yield { type: 'tool_start', toolId, name, input };
+    const client = await getMcpClient();
+    const result = await callMcpTool(client, step.mcp.tool, input);
+    yield { type: 'tool_result', toolId, name, input, result };
+  }
+}
@@ -0,0 +1,124 @@
+import assert from 'node:assert';
+import { describe, test } from 'node:test';
+import type { SDKMessage } from '../types/index.js';
+import type { AgentEvent } from './backend.js';
+import { normalizeSdkMessages } from './sdk-backend.js';
+
+async function collect(messages: object[]): Promise<AgentEvent[]> {
+  async function* source() {
+    for (const message of messages) yield message as SDKMessage;
+  }
+  const events: AgentEvent[] = [];
+  for await (const event of normalizeSdkMessages(source())) events.push(event);
+  return events;
+}
+
+function streamEvent(event: object): object {
+  return { type: 'stream_event', event };
+}
+
+describe('normalizeSdkMessages', () => {
+  test('emits tool_start with accumulated input and tool_result with extracted text', async () => {
+    const events = await collect([
+      streamEvent({
+        type: 'content_block_start',
+        index: 1,
+        content_block: { type: 'tool_use', name: 'Read', id: 'tool-1' },
+      }),
+      streamEvent({
+        type: 'content_block_delta',
+        index: 1,
+        delta: { type: 'input_json_delta', partial_json: '{"file_path":' },
+      }),
+      streamEvent({
+        type: 'content_block_delta',
+        index: 1,
+        delta: { type: 'input_json_delta', partial_json: '"src/a.ts"}' },
+      }),
+      streamEvent({ type: 'content_block_stop', index: 1 }),
+      {
+        type: 'user',
+        message: {
+          content: [
+            { type: 'tool_result', tool_use_id: 'tool-1', content: [{ type: 'text', text: 'ok' }] },
+            { type: 'tool_result', tool_use_id: 'unknown', content: 'ignored' },
+          ],
+        },
+      },
+      { type: 'result', total_cost_usd: 0.25 },
+    ]);
+
+    assert.deepStrictEqual(events, [
+      { type: 'tool_start', toolId: 'tool-1', name: 'Read', input: { file_path: 'src/a.ts' } },
+      {
+        type: 'tool_result',
+        toolId: 'tool-1',
+        name: 'Read',
+        input: { file_path: 'src/a.ts' },
+        result: 'ok',
+      },
+      { type: 'cost', costUsd: 0.25 },
+      { type: 'done' },
+    ]);
+  });
+
+  test('streams text and thinking deltas without repeating assistant text', async () => {
+    const events = await collect([
+      streamEvent({
+        type: 'content_block_delta',
+        index: 0,
+        delta: { type: 'thinking_delta', thinking: 'hmm' },
+      }),
+      streamEvent({
+        type: 'content_block_delta',
+        index: 1,
+        delta: { type: 'text_delta', text: 'TASK_COMPLETE' },
+      }),
+      {
+        type: 'assistant',
+        message: {
+          content: [
+            { type: 'text', text: 'TASK_COMPLETE' },
+            { type: 'text', text: 'extra' },
+          ],
+        },
+      },
+    ]);
+
+    assert.deepStrictEqual(events, [
+      { type: 'thinking', text: 'hmm' },
+      { type: 'text', text: 'TASK_COMPLETE' },
+      { type: 'text', text: 'extra' },
+      { type: 'done' },
+    ]);
+  });
+
+  test('reports the token usage of the result message with its cost', async () => {
+    const events = await collect([
+      {
+        type: 'result',
+        total_cost_usd: 0.4,
+        usage: {
+          input_tokens: 120,
+          output_tokens: 800,
+          cache_read_input_tokens: 9000,
+          cache_creation_input_tokens: 1500,
+        },
+      },
+    ]);
+
+    assert.deepStrictEqual(events, [
+      {
+        type: 'cost',
+        costUsd: 0.4,
+        usage: {
+          inputTokens: 120,
+          outputTokens: 800,
+          cacheReadTokens: 9000,
+          cacheWriteTokens: 1500,
+        },
+      },
+      { type: 'done' },
+    ]);
+  });
+});
@@ -0,0 +1,195 @@
+import { query } from '@anthropic-ai/claude-agent-sdk';
+import {
+  type SDKMessage,
+  type SDKResultMessage,
+  type StreamEvent,
+  type TokenUsage,
+  extractInputJsonDelta,
+  extractToolUseStart,
+  isContentBlockStop,
+  isInputJsonDelta,
+  isResultMessage,
+  isStreamEventMessage,
+  isToolUseStart,
+} from '../types/index.js';
+import type { AgentBackend, AgentEvent } from './backend.js';
+
+/**
+ * Extract the text of a tool_result block's content, which is either a string
+ * or an array of content blocks.
+ */
+function extractToolResultContent(block: object): unknown {
+  if (!('content' in block)) return null;
+  const blockContent = block.content;
+  if (typeof blockContent === 'string') {
+    return blockContent;
+  }
+  if (Array.isArray(blockContent)) {
+    return blockContent
+      .filter(
+        (c): c is { type: 'text'; text: string } =>
+          typeof c === 'object' && c !== null && 'type' in c && c.type === 'text' && 'text' in c
+      )
+      .map((c) => c.text)
+      .join('');
+  }
+  return null;
+}
+
+/**
+ * Convert the API usage of a result message, which covers every turn of the
+ * agent call, into token counts.
+ */
+function toTokenUsage(usage: SDKResultMessage['usage']): TokenUsage {
+  return {
+    inputTokens: usage.input_tokens || 0,
+    outputTokens: usage.output_tokens || 0,
+    cacheReadTokens: usage.cache_read_input_tokens || 0,
+    cacheWriteTokens: usage.cache_creation_input_tokens || 0,
+  };
+}
+
+/**
+ * Convert raw SDK messages (with partial messages enabled) into normalized
+ * agent events. Tool input JSON is accumulated from stream deltas and emitted
+ * once complete; assistant text that was already streamed is not repeated.
+ */
+export async function* normalizeSdkMessages(
+  messages: AsyncIterable<SDKMessage>
+): AsyncGenerator<AgentEvent> {
+  // Pending tool calls map: index -> tool info with accumulated input JSON
+  const pendingToolCalls = new Map<number, { name: string; toolId: string; inputJson: string }>();
+  // Completed tool calls map: toolId -> tool info with parsed input (for result events)
+  const completedToolCalls = new Map<string, { name: string; input: Record<string, unknown> }>();
+  let streamedText = '';
+
+  for await (const message of messages) {
+    if (isStreamEventMessage(message)) {
+      const event = message.event as StreamEvent;
+
+      if (isToolUseStart(event)) {
+        const toolInfo = extractToolUseStart(event);
+        if (toolInfo) {
+          pendingToolCalls.set(toolInfo.index, {
+            name: toolInfo.toolName,
+            toolId: toolInfo.toolId,
+            inputJson: '',
+          });
+        }
+      }
+
+      if (isInputJsonDelta(event)) {
+        const deltaInfo = extractInputJsonDelta(event);
+        const pending = deltaInfo && pendingToolCalls.get(deltaInfo.index);
+        if (deltaInfo && pending) {
+          pending.inputJson += deltaInfo.partialJson;
+        }
+      }
+
+      if (isContentBlockStop(event) && event.index !== undefined) {
+        const pending = pendingToolCalls.get(event.index);
+        if (pending) {
+          let input: Record<string, unknown> = {};
+          try {
+            if (pending.inputJson) {
+              input = JSON.parse(pending.inputJson);
+            }
+          } catch {
+            // Malformed tool input; report the call with empty input
+            input = {};
+          }
+          completedToolCalls.set(pending.toolId, { name: pending.name, input });
+          pendingToolCalls.delete(event.index);
+          yield { type: 'tool_start', toolId: pending.toolId, name: pending.name, input };
+        }
+      }
+
+      if (event.type === 'content_block_delta' && event.delta?.type === 'thinking_delta') {
+        const text = event.delta.thinking || '';
+        if (text) yield { type: 'thinking', text };
+      }
+      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+        const text = event.delta.text || '';
+        if (text) {
+          streamedText += text;
+          yield { type: 'text', text };
+        }
+      }
+    }
+
+    if (message.type === 'user' && Array.isArray(message.message?.content)) {
+      for (const block of message.message.content) {
+        if (
+          typeof block === 'object' &&
+          block !== null &&
+          'type' in block &&
+          block.type === 'tool_result' &&
+          'tool_use_id' in block
+        ) {
+          const toolId = block.tool_use_id as string;
+          const completedTool = completedToolCalls.get(toolId);
+          if (completedTool) {
+            completedToolCalls.delete(toolId);
+            yield {
+              type: 'tool_result',
+              toolId,
+              name: completedTool.name,
+              input: completedTool.input,
+              result: extractToolResultContent(block),
+            };
+          }
+        }
+      }
+    }
+
+    if (message.type === 'assistant' && message.message?.content) {
+      for (const block of message.message.content) {
+        // Only emit text blocks that weren't already streamed
+        if ('text' in block && !streamedText.includes(block.text)) {
+          streamedText += block.text;
+          yield { type: 'text', text: block.text };
+        }
+        if (
+          'type' in block &&
+          block.type === 'thinking' &&
+          'thinking' in block &&
+          typeof block.thinking === 'string'
+        ) {
+          yield { type: 'thinking', text: `${block.thinking}\n` };
+        }
+      }
+    }
+
+    if (isResultMessage(message)) {
+      const costUsd = message.total_cost_usd || 0;
+      yield message.usage
+        ? { type: 'cost', costUsd, usage: toTokenUsage(message.usage) }
+        : { type: 'cost', costUsd };
+    }
+  }
+
+  yield { type: 'done' };
+}
+
+/**
+ * Backend that runs agents in-process through the Claude Agent SDK.
+ */
+export const sdkBackend: AgentBackend = {
+  name: 'sdk',
+  run(prompt, config) {
+    return normalizeSdkMessages(
+      query({
+        prompt,
+        options: {
+          cwd: config.cwd,
+          allowedTools: config.allowedTools,
+          maxTurns: config.maxTurns,
+          model: config.model,
+          systemPrompt: config.systemPrompt,
+          mcpServers: config.mcpServers,
+          includePartialMessages: true,
+        },
+      })
+    );
+  },
+};
@@ -2,12 +2,13 @@ import { resolve } from 'node:path';
 import { MCP_SERVER_PATH } from '../paths.js';
 import type { Phase } from '../types/index.js';
 
-interface MCPServerConfig {
+export interface MCPServerConfig {
   command: string;
   args: string[];
 }
 
-interface AgentConfig {
+export interface AgentConfig {
+  phase: Phase;
   cwd: string;
   allowedTools: string[];
   permissionMode: 'bypassPermissions' | 'acceptEdits';
@@ -15,6 +16,13 @@ interface AgentConfig {
   systemPrompt?: string;
   mcpServers?: Record<string, MCPServerConfig>;
   model?: string;
+  /** Run the call belongs to; its token usage is recorded under this run */
+  runId?: string;
+  /** Build loop this call works for (build iterations and per-loop reviews) */
+  loopId?: string;
+  taskIds?: string[];
+  /** Loop iteration the call belongs to */
+  iteration?: number;
 }
 
 // MCP tools exposed by the ralphs-db server - pre-grant all permissions
@@ -22,7 +30,9 @@ const MCP_TOOLS = [
   'mcp__ralphs-db__write_task',
   'mcp__ralphs-db__complete_task',
   'mcp__ralphs-db__fail_task',
+  'mcp__ralphs-db__cancel_task',
   'mcp__ralphs-db__add_plan_group',
+  'mcp__ralphs-db__add_task_chain',
   'mcp__ralphs-db__update_loop_status',
   'mcp__ralphs-db__record_cost',
   'mcp__ralphs-db__add_context',
@@ -73,18 +83,20 @@ export function createAgentConfig(
   const usesMcp = runId && MCP_PHASES.includes(phase);
 
   const config: AgentConfig = {
+    phase,
     cwd,
     // Include MCP tools in allowedTools for phases that use MCP
     allowedTools: usesMcp ? [...PHASE_TOOLS[phase], ...MCP_TOOLS] : PHASE_TOOLS[phase],
     permissionMode: 'bypassPermissions',
     maxTurns: PHASE_MAX_TURNS[phase],
     model,
+    runId,
   };
 
   // Add MCP server for phases that write to the database
   if (usesMcp) {
     config.mcpServers = {
-      'ralphs-db': {
+      'sq-db': {
         command: 'node',
         args: [MCP_SERVER_PATH, runId, dbPath || resolve(cwd, '.ralphs/state.db')],
       },
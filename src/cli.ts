@@ -43,12 +43,134 @@ export function createCLI(): Command {
     .option('--max-loops <n>', 'Max concurrent parallel loops', '4')
     .option('--max-iterations <n>', 'Max iterations per loop', '50')
     .option('--state-dir <path>', 'State directory', '.ralphs')
-    .option('--resume', 'Resume existing run', false)
+    .option('--resume [runId]', 'Resume a run (default: most recently updated run)', false)
+    .option('--force', 'Resume even if --spec differs from the run spec', false)
     .option('--reset', 'Discard state and start fresh', false)
     .option('--dry-run', 'Show what would happen', false)
+    .option(
+      '--confirm-budget',
+      'Ask before BUILD starts when the cost forecast exceeds the per-run limit',
+      false
+    )
     .option('--no-tui', 'Disable TUI interface')
     .option('--no-worktrees', 'Disable git worktree isolation')
-    .option('--debug', 'Enable debug tracing to .ralphs/debug/<runId>/', false);
+    .option('--debug', 'Enable debug tracing to .ralphs/debug/<runId>/', false)
+    .option(
+      '--agent-backend <backend>',
+      'Agent runtime: sdk, cli:<command> (local agent over stdin/stdout), scripted:<path> or replay:<debugDir>',
+      'sdk'
+    );
+
+  return program;
+}
+
+export function createStatusCLI(): Command {
+  const program = new Command();
+
+  program
+    .name('ralphs status')
+    .description('Show the state of a run without executing anything')
+    .option('--run <id>', 'Run ID (default: most recently updated run)')
+    .option('--state-dir <path>', 'State directory', '.ralphs')
+    .option('--json', 'Output status as JSON', false);
+
+  return program;
+}
+
+export function createCostsCLI(): Command {
+  const program = new Command();
+
+  program
+    .name('ralphs costs')
+    .description('Break down the cost of a run by phase, task, model and iteration')
+    .option('--run <id>', 'Run ID (default: most recently updated run)')
+    .option('--compare <id>', 'Compare against another run side by side')
+    .option('--format <format>', 'Output format: table|json|csv', 'table')
+    .option('--json', 'Shorthand for --format json', false)
+    .option('--top <n>', 'Most expensive iterations to list', '10')
+    .option('--state-dir <path>', 'State directory', '.ralphs');
+
+  return program;
+}
+
+export function createTaskCLI(): Command {
+  const program = new Command();
+
+  program
+    .name('ralphs task')
+    .description('Retry, skip or edit a task of a stopped run')
+    .argument('<action>', 'retry | skip | edit')
+    .argument('<taskId>', 'Task ID')
+    .option('--run <id>', 'Run ID (default: most recently updated run)')
+    .option('--state-dir <path>', 'State directory', '.ralphs')
+    .option('--description <text>', 'New task description (edit only)');
+
+  return program;
+}
+
+export function createHintCLI(): Command {
+  const program = new Command();
+
+  program
+    .name('ralphs hint')
+    .description('Send guidance to a build loop; it is shown on the next iteration')
+    .argument('<target>', 'Loop ID (or unique prefix) or task ID')
+    .argument('<text>', 'Guidance for the agent')
+    .option('--run <id>', 'Run ID (default: most recently updated run)')
+    .option('--state-dir <path>', 'State directory', '.ralphs');
+
+  return program;
+}
+
+export function createLoopCLI(): Command {
+  const program = new Command();
+
+  program
+    .name('ralphs loop')
+    .description('Pause or resume a single build loop while the rest of the run continues')
+    .argument('<action>', 'pause | resume')
+    .argument('<loopId>', 'Loop ID (or unique prefix)')
+    .option('--run <id>', 'Run ID (default: most recently updated run)')
+    .option('--state-dir <path>', 'State directory', '.ralphs');
+
+  return program;
+}
+
+export function createDrainCLI(): Command {
+  const program = new Command();
+
+  program
+    .name('ralphs drain')
+    .description('Stop a run gracefully once its in-flight iterations finish')
+    .option('--run <id>', 'Run ID (default: most recently updated run)')
+    .option('--state-dir <path>', 'State directory', '.ralphs');
+
+  return program;
+}
+
+export function createRunsCLI(): Command {
+  const program = new Command();
+
+  program
+    .name('ralphs runs')
+    .description('List, inspect or delete runs recorded in the state directory')
+    .argument('<action>', 'list | show | delete')
+    .argument('[runId]', 'Run ID (required for show and delete)')
+    .option('--state-dir <path>', 'State directory', '.ralphs')
+    .option('--json', 'Output as JSON', false);
+
+  return program;
+}
+
+export function createReplayCLI(): Command {
+  const program = new Command();
+
+  program
+    .name('ralphs replay')
+    .description('Re-run a --debug run with its recorded agent responses instead of a model')
+    .argument('<runId>', 'Run ID of the recorded run')
+    .option('--state-dir <path>', 'State directory', '.ralphs')
+    .option('--sandbox <path>', 'Empty directory to clone the project into (default: a temp dir)');
 
   return program;
 }
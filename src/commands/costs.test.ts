@@ -0,0 +1,290 @@
+import assert from 'node:assert';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { getModelId } from '../config/effort.js';
+import { closeDatabase, createDatabase, getDatabase } from '../db/index.js';
+import { deleteRunFromDb } from '../db/runs.js';
+import { recordTokenUsageInDb } from '../db/usage.js';
+import { initializeState, saveRun } from '../state/index.js';
+import {
+  cacheHitRatio,
+  collectCostReport,
+  compareCostReports,
+  formatCostReport,
+  runCostsCommand,
+} from './costs.js';
+
+describe('ralphs costs', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'sq-costs-test-'));
+    createDatabase(join(tempDir, 'state.db'));
+  });
+
+  afterEach(() => {
+    closeDatabase();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function createRun() {
+    const state = initializeState({
+      specPath: '/path/to/spec.md',
+      effort: 'medium',
+      stateDir: tempDir,
+      maxLoops: 4,
+      maxIterations: 20,
+      useWorktrees: false,
+    });
+    saveRun(state);
+    return state;
+  }
+
+  function recordUsage(
+    runId: string,
+    phase: string,
+    cacheRead: number,
+    options: { loopId?: string; iteration?: number; costUsd?: number; model?: string } = {}
+  ) {
+    recordTokenUsageInDb(getDatabase(), {
+      runId,
+      phase,
+      loopId: options.loopId,
+      iteration: options.iteration,
+      model: options.model ?? getModelId('opus'),
+      usage: {
+        inputTokens: 100,
+        outputTokens: 50,
+        cacheReadTokens: cacheRead,
+        cacheWriteTokens: 100,
+      },
+      costUsd: options.costUsd ?? 0.5,
+    });
+  }
+
+  function insertTask(runId: string, id: string) {
+    getDatabase()
+      .prepare('INSERT INTO tasks (id, run_id, title, description, status) VALUES (?, ?, ?, ?, ?)')
+      .run(id, runId, `Task ${id}`, 'desc', 'completed');
+  }
+
+  function insertLoop(runId: string, id: string, taskIds: string[], costUsd: number) {
+    getDatabase()
+      .prepare(
+        `INSERT INTO loops (id, run_id, task_ids, iteration, max_iterations, review_interval, status, cost_usd)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(id, runId, JSON.stringify(taskIds), 3, 20, 5, 'completed', costUsd);
+  }
+
+  function captureOutput(run: () => number): { code: number; lines: string[] } {
+    const originalLog = console.log;
+    const lines: string[] = [];
+    console.log = (line: string) => lines.push(line);
+    try {
+      return { code: run(), lines };
+    } finally {
+      console.log = originalLog;
+    }
+  }
+
+  test('cacheHitRatio is the share of input tokens read from the cache', () => {
+    const usage = {
+      inputTokens: 100,
+      outputTokens: 999,
+      cacheReadTokens: 600,
+      cacheWriteTokens: 300,
+    };
+
+    assert.strictEqual(cacheHitRatio(usage), 0.6);
+    assert.strictEqual(
+      cacheHitRatio({ inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 }),
+      0
+    );
+  });
+
+  test('collectCostReport sums token usage per phase and overall', () => {
+    const state = createRun();
+    recordUsage(state.runId, 'plan', 0);
+    recordUsage(state.runId, 'build', 200, { loopId: 'loop-1', iteration: 1 });
+    recordUsage(state.runId, 'build', 800, { loopId: 'loop-1', iteration: 2 });
+
+    const report = collectCostReport(state.runId, 1.5);
+
+    assert.deepStrictEqual(
+      report.phases.map((p) => [p.phase, p.calls, p.cacheReadTokens, p.cacheHitRatio]),
+      [
+        ['plan', 1, 0, 0],
+        ['build', 2, 1000, 1000 / 1400],
+      ]
+    );
+    assert.strictEqual(report.total.calls, 3);
+    assert.strictEqual(report.total.inputTokens, 300);
+    assert.strictEqual(report.total.costUsd, 1.5);
+
+    const lines = formatCostReport(report);
+    assert.strictEqual(lines[3], 'By phase:');
+    assert.strictEqual(
+      lines[4].split(/\s{2,}/).join('|'),
+      'Phase|Calls|Input|Output|Cache read|Cache write|Hit|Cost'
+    );
+    assert.match(lines[6], /^build\s+2\s+200\s+100\s+1000\s+200\s+71\.4%\s+\$1\.00$/);
+    assert.match(lines[7], /^total\s+3\s+/);
+  });
+
+  test('collectCostReport splits loop costs over tasks with review and revision overhead', () => {
+    const state = createRun();
+    insertTask(state.runId, 'task-1');
+    insertTask(state.runId, 'task-2');
+    insertTask(state.runId, 'task-3');
+    insertLoop(state.runId, 'loop-chain', ['task-1', 'task-2'], 4);
+    insertLoop(state.runId, 'loop-solo', ['task-3'], 1);
+    recordUsage(state.runId, 'build', 0, { loopId: 'loop-chain', iteration: 1, costUsd: 2 });
+    recordUsage(state.runId, 'review', 0, { loopId: 'loop-chain', iteration: 1, costUsd: 1 });
+    recordUsage(state.runId, 'revise', 0, { loopId: 'loop-chain', iteration: 2, costUsd: 0.5 });
+    // The review call's cost is already in token usage and must not count twice
+    getDatabase()
+      .prepare(
+        'INSERT INTO loop_reviews (id, run_id, loop_id, task_id, passed, cost_usd) VALUES (?, ?, ?, ?, ?, ?)'
+      )
+      .run('review-1', state.runId, 'loop-chain', 'task-1', 1, 1);
+    recordUsage(state.runId, 'build', 0, {
+      loopId: 'loop-solo',
+      iteration: 1,
+      costUsd: 1,
+      model: getModelId('haiku'),
+    });
+
+    const report = collectCostReport(state.runId, 5, 2);
+
+    assert.deepStrictEqual(
+      report.tasks.map((t) => [
+        t.taskId,
+        t.buildCostUsd,
+        t.reviewCostUsd,
+        t.revisionCostUsd,
+        t.totalCostUsd,
+      ]),
+      [
+        ['task-1', 1.25, 0.5, 0.25, 2],
+        ['task-2', 1.25, 0.5, 0.25, 2],
+        ['task-3', 1, 0, 0, 1],
+      ]
+    );
+    assert.deepStrictEqual(
+      report.models.map((m) => [m.model, m.calls, m.costUsd]),
+      [
+        ['opus', 3, 3.5],
+        ['haiku', 1, 1],
+      ]
+    );
+    assert.deepStrictEqual(
+      report.iterations.map((i) => [i.loopId, i.iteration, i.calls, i.costUsd, i.taskIds]),
+      [
+        ['loop-chain', 1, 2, 3, ['task-1', 'task-2']],
+        ['loop-solo', 1, 1, 1, ['task-3']],
+      ]
+    );
+  });
+
+  test('compareCostReports lines up two runs by phase, task and model', () => {
+    const first = createRun();
+    const second = createRun();
+    recordUsage(first.runId, 'build', 0, { costUsd: 3 });
+    recordUsage(second.runId, 'build', 0, { costUsd: 2 });
+    recordUsage(second.runId, 'review', 0, { costUsd: 1, model: getModelId('sonnet') });
+
+    const comparison = compareCostReports(
+      collectCostReport(first.runId, 3),
+      collectCostReport(second.runId, 3.5)
+    );
+
+    assert.deepStrictEqual(comparison.total, { key: 'total', aUsd: 3, bUsd: 3.5, deltaUsd: 0.5 });
+    assert.deepStrictEqual(comparison.phases, [
+      { key: 'build', aUsd: 3, bUsd: 2, deltaUsd: -1 },
+      { key: 'review', aUsd: 0, bUsd: 1, deltaUsd: 1 },
+    ]);
+    assert.deepStrictEqual(comparison.models, [
+      { key: 'opus', aUsd: 3, bUsd: 2, deltaUsd: -1 },
+      { key: 'sonnet', aUsd: 0, bUsd: 1, deltaUsd: 1 },
+    ]);
+  });
+
+  test('token usage is deleted with its run', () => {
+    const state = createRun();
+    recordUsage(state.runId, 'build', 100, { loopId: 'loop-1', iteration: 1 });
+
+    deleteRunFromDb(getDatabase(), state.runId);
+
+    assert.deepStrictEqual(collectCostReport(state.runId, 0).phases, []);
+  });
+
+  test('runCostsCommand reports a run without costs', () => {
+    createRun();
+    closeDatabase();
+
+    const { code, lines } = captureOutput(() =>
+      runCostsCommand({ stateDir: tempDir, format: 'table' })
+    );
+
+    assert.strictEqual(code, 0);
+    assert.strictEqual(lines.at(-1), 'No costs recorded for this run');
+  });
+
+  test('runCostsCommand writes CSV blocks and compares runs', () => {
+    const first = createRun();
+    const second = createRun();
+    insertTask(first.runId, 'task-1');
+    insertLoop(first.runId, 'loop-1', ['task-1'], 0.5);
+    recordUsage(first.runId, 'build', 0, { loopId: 'loop-1', iteration: 1 });
+    recordUsage(second.runId, 'build', 0, { costUsd: 1.25 });
+    closeDatabase();
+
+    const csv = captureOutput(() =>
+      runCostsCommand({ stateDir: tempDir, run: first.runId, format: 'csv' })
+    );
+    assert.strictEqual(csv.code, 0);
+    assert.deepStrictEqual(csv.lines.slice(0, 3), [
+      'Phase,Calls,Input,Output,Cache read,Cache write,Hit,Cost',
+      'build,1,100,50,0,100,0,0.5',
+      'total,1,100,50,0,100,0,0.5',
+    ]);
+    assert.ok(csv.lines.includes('Task,Status,Reviews,Build,Review,Revision,Total'));
+
+    const json = captureOutput(() =>
+      runCostsCommand({
+        stateDir: tempDir,
+        run: first.runId,
+        compare: second.runId,
+        format: 'json',
+      })
+    );
+    const comparison = JSON.parse(json.lines.join('\n'));
+    assert.deepStrictEqual(comparison.runIds, [first.runId, second.runId]);
+    assert.deepStrictEqual(comparison.phases, [
+      { key: 'build', aUsd: 0.5, bUsd: 1.25, deltaUsd: 0.75 },
+    ]);
+  });
+
+  test('runCostsCommand returns 1 for an unknown run, format or top count', () => {
+    createRun();
+    closeDatabase();
+
+    const originalError = console.error;
+    console.error = () => {};
+    try {
+      assert.strictEqual(
+        runCostsCommand({ stateDir: tempDir, compare: 'missing', format: 'table' }),
+        1
+      );
+      assert.strictEqual(runCostsCommand({ stateDir: tempDir, format: 'xml' }), 1);
+      for (const top of [0, -3, 2.5, Number.NaN]) {
+        assert.strictEqual(runCostsCommand({ stateDir: tempDir, format: 'table', top }), 1);
+      }
+    } finally {
+      console.error = originalError;
+    }
+  });
+});
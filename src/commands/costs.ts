@@ -0,0 +1,497 @@
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { MODEL_TIER_ORDER, getModelId } from '../config/effort.js';
+import {
+  type IterationCostRow,
+  type LoopCostRow,
+  getLoopCostsFromDb,
+  getModelUsageFromDb,
+  getPhaseCostsFromDb,
+  getRunCostFromDb,
+  getTaskCostRowsFromDb,
+  getTopIterationsFromDb,
+} from '../db/costs.js';
+import { closeDatabase, createDatabase, getDatabase } from '../db/index.js';
+import { getPhaseTokenUsageFromDb } from '../db/usage.js';
+import type { TokenUsage } from '../types/index.js';
+
+/** Phases in pipeline order, for the phase breakdown */
+const PHASE_ORDER = [
+  'analyze',
+  'enumerate',
+  'plan',
+  'build',
+  'conflict',
+  'review',
+  'revise',
+  'complete',
+];
+
+export interface UsageCostReport extends TokenUsage {
+  calls: number;
+  costUsd: number;
+  cacheHitRatio: number;
+}
+
+export interface PhaseCostReport extends UsageCostReport {
+  phase: string;
+}
+
+export interface ModelCostReport extends UsageCostReport {
+  /** Model tier, or the model ID when it is not one of the tiers' models */
+  model: string;
+}
+
+export interface TaskCostReport {
+  taskId: string;
+  title: string;
+  status: string;
+  reviews: number;
+  buildCostUsd: number;
+  reviewCostUsd: number;
+  revisionCostUsd: number;
+  totalCostUsd: number;
+}
+
+export interface IterationCostReport extends IterationCostRow {
+  taskIds: string[];
+}
+
+export interface CostReport {
+  runId: string;
+  totalCostUsd: number;
+  phases: PhaseCostReport[];
+  /** Token usage and cost summed over all phases */
+  total: PhaseCostReport;
+  tasks: TaskCostReport[];
+  models: ModelCostReport[];
+  /** Most expensive iterations first */
+  iterations: IterationCostReport[];
+}
+
+/**
+ * Share of the input tokens that were read from the prompt cache
+ * (0 when no input was sent).
+ */
+export function cacheHitRatio(usage: TokenUsage): number {
+  const input = usage.inputTokens + usage.cacheReadTokens + usage.cacheWriteTokens;
+  return input > 0 ? usage.cacheReadTokens / input : 0;
+}
+
+function modelLabel(modelId: string | null): string {
+  if (!modelId) return 'unknown';
+  return MODEL_TIER_ORDER.find((tier) => getModelId(tier) === modelId) ?? modelId;
+}
+
+function emptyUsage(): Omit<UsageCostReport, 'cacheHitRatio'> {
+  return {
+    calls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    costUsd: 0,
+  };
+}
+
+/**
+ * Split each loop's cost over its tasks. A chain loop's cost is shared evenly
+ * by its tasks; the review and recovery calls made for the loop count as the
+ * tasks' review and revision overhead.
+ */
+function collectTaskCosts(runId: string, loops: LoopCostRow[]): TaskCostReport[] {
+  const tasks = new Map<string, TaskCostReport>(
+    getTaskCostRowsFromDb(getDatabase(), runId).map((row) => [
+      row.id,
+      {
+        taskId: row.id,
+        title: row.title,
+        status: row.status,
+        reviews: row.reviews,
+        buildCostUsd: 0,
+        reviewCostUsd: 0,
+        revisionCostUsd: 0,
+        totalCostUsd: 0,
+      },
+    ])
+  );
+
+  for (const loop of loops) {
+    const share = 1 / loop.taskIds.length;
+    const buildCostUsd = Math.max(0, loop.costUsd - loop.reviewCostUsd - loop.revisionCostUsd);
+    for (const taskId of loop.taskIds) {
+      const task = tasks.get(taskId);
+      if (!task) continue;
+      task.buildCostUsd += buildCostUsd * share;
+      task.reviewCostUsd += loop.reviewCostUsd * share;
+      task.revisionCostUsd += loop.revisionCostUsd * share;
+      task.totalCostUsd = task.buildCostUsd + task.reviewCostUsd + task.revisionCostUsd;
+    }
+  }
+
+  return [...tasks.values()].sort((a, b) => b.totalCostUsd - a.totalCostUsd);
+}
+
+/**
+ * Build a run's cost report from the phase, loop and review costs the
+ * orchestrator tracked and the token usage its agent calls recorded.
+ */
+export function collectCostReport(
+  runId: string,
+  totalCostUsd: number,
+  topIterations = 10
+): CostReport {
+  const db = getDatabase();
+  const phaseCosts = getPhaseCostsFromDb(db, runId);
+  const phaseUsage = new Map(getPhaseTokenUsageFromDb(db, runId).map((row) => [row.phase, row]));
+
+  const phases: PhaseCostReport[] = [];
+  const total = { phase: 'total', ...emptyUsage() };
+  for (const phase of PHASE_ORDER) {
+    const usage = phaseUsage.get(phase) ?? { phase, ...emptyUsage() };
+    // Phase costs cover agent calls whose backend reports no token usage
+    const costUsd = phaseCosts[phase] || usage.costUsd;
+    if (costUsd === 0 && usage.calls === 0) continue;
+
+    phases.push({ ...usage, costUsd, cacheHitRatio: cacheHitRatio(usage) });
+    total.calls += usage.calls;
+    total.inputTokens += usage.inputTokens;
+    total.outputTokens += usage.outputTokens;
+    total.cacheReadTokens += usage.cacheReadTokens;
+    total.cacheWriteTokens += usage.cacheWriteTokens;
+    total.costUsd += costUsd;
+  }
+
+  const loops = getLoopCostsFromDb(db, runId);
+  const loopTasks = new Map(loops.map((loop) => [loop.id, loop.taskIds]));
+
+  return {
+    runId,
+    totalCostUsd,
+    phases,
+    total: { ...total, cacheHitRatio: cacheHitRatio(total) },
+    tasks: collectTaskCosts(runId, loops),
+    models: getModelUsageFromDb(db, runId).map((row) => ({
+      ...row,
+      model: modelLabel(row.model),
+      cacheHitRatio: cacheHitRatio(row),
+    })),
+    iterations: getTopIterationsFromDb(db, runId, topIterations).map((row) => ({
+      ...row,
+      taskIds: loopTasks.get(row.loopId) ?? [],
+    })),
+  };
+}
+
+export interface CostComparisonRow {
+  key: string;
+  aUsd: number;
+  bUsd: number;
+  deltaUsd: number;
+}
+
+export interface CostComparison {
+  runIds: [string, string];
+  total: CostComparisonRow;
+  phases: CostComparisonRow[];
+  tasks: CostComparisonRow[];
+  models: CostComparisonRow[];
+}
+
+function compareRows(
+  a: Array<{ key: string; costUsd: number }>,
+  b: Array<{ key: string; costUsd: number }>
+): CostComparisonRow[] {
+  const rows = new Map<string, CostComparisonRow>();
+  for (const entry of a) {
+    rows.set(entry.key, { key: entry.key, aUsd: entry.costUsd, bUsd: 0, deltaUsd: 0 });
+  }
+  for (const entry of b) {
+    const row = rows.get(entry.key) ?? { key: entry.key, aUsd: 0, bUsd: 0, deltaUsd: 0 };
+    row.bUsd = entry.costUsd;
+    rows.set(entry.key, row);
+  }
+  return [...rows.values()].map((row) => ({ ...row, deltaUsd: row.bUsd - row.aUsd }));
+}
+
+/**
+ * Line up the costs of two runs by phase, task ID and model. Runs of the same
+ * spec usually share task IDs, so their tasks pair up.
+ */
+export function compareCostReports(a: CostReport, b: CostReport): CostComparison {
+  return {
+    runIds: [a.runId, b.runId],
+    total: {
+      key: 'total',
+      aUsd: a.totalCostUsd,
+      bUsd: b.totalCostUsd,
+      deltaUsd: b.totalCostUsd - a.totalCostUsd,
+    },
+    phases: compareRows(
+      a.phases.map((p) => ({ key: p.phase, costUsd: p.costUsd })),
+      b.phases.map((p) => ({ key: p.phase, costUsd: p.costUsd }))
+    ),
+    tasks: compareRows(
+      a.tasks.map((t) => ({ key: t.taskId, costUsd: t.totalCostUsd })),
+      b.tasks.map((t) => ({ key: t.taskId, costUsd: t.totalCostUsd }))
+    ),
+    models: compareRows(
+      a.models.map((m) => ({ key: m.model, costUsd: m.costUsd })),
+      b.models.map((m) => ({ key: m.model, costUsd: m.costUsd }))
+    ),
+  };
+}
+
+type ColumnKind = 'text' | 'count' | 'usd' | 'ratio';
+
+interface ReportTable {
+  title: string;
+  columns: Array<{ name: string; kind: ColumnKind }>;
+  rows: Array<Array<string | number>>;
+}
+
+const USAGE_COLUMNS: ReportTable['columns'] = [
+  { name: 'Calls', kind: 'count' },
+  { name: 'Input', kind: 'count' },
+  { name: 'Output', kind: 'count' },
+  { name: 'Cache read', kind: 'count' },
+  { name: 'Cache write', kind: 'count' },
+  { name: 'Hit', kind: 'ratio' },
+  { name: 'Cost', kind: 'usd' },
+];
+
+function usageCells(usage: UsageCostReport): Array<string | number> {
+  return [
+    usage.calls,
+    usage.inputTokens,
+    usage.outputTokens,
+    usage.cacheReadTokens,
+    usage.cacheWriteTokens,
+    usage.cacheHitRatio,
+    usage.costUsd,
+  ];
+}
+
+function costReportTables(report: CostReport): ReportTable[] {
+  return [
+    {
+      title: 'By phase',
+      columns: [{ name: 'Phase', kind: 'text' }, ...USAGE_COLUMNS],
+      rows: [...report.phases, report.total].map((p) => [p.phase, ...usageCells(p)]),
+    },
+    {
+      title: 'By task',
+      columns: [
+        { name: 'Task', kind: 'text' },
+        { name: 'Status', kind: 'text' },
+        { name: 'Reviews', kind: 'count' },
+        { name: 'Build', kind: 'usd' },
+        { name: 'Review', kind: 'usd' },
+        { name: 'Revision', kind: 'usd' },
+        { name: 'Total', kind: 'usd' },
+      ],
+      rows: report.tasks.map((t) => [
+        t.taskId,
+        t.status,
+        t.reviews,
+        t.buildCostUsd,
+        t.reviewCostUsd,
+        t.revisionCostUsd,
+        t.totalCostUsd,
+      ]),
+    },
+    {
+      title: 'By model',
+      columns: [{ name: 'Model', kind: 'text' }, ...USAGE_COLUMNS],
+      rows: report.models.map((m) => [m.model, ...usageCells(m)]),
+    },
+    {
+      title: 'Most expensive iterations',
+      columns: [
+        { name: 'Loop', kind: 'text' },
+        { name: 'Iteration', kind: 'count' },
+        { name: 'Tasks', kind: 'text' },
+        { name: 'Calls', kind: 'count' },
+        { name: 'Cost', kind: 'usd' },
+      ],
+      rows: report.iterations.map((i) => [
+        i.loopId,
+        i.iteration,
+        i.taskIds.join(' '),
+        i.calls,
+        i.costUsd,
+      ]),
+    },
+  ];
+}
+
+function comparisonTables(comparison: CostComparison): ReportTable[] {
+  const [a, b] = comparison.runIds;
+  const table = (title: string, key: string, rows: CostComparisonRow[]): ReportTable => ({
+    title,
+    columns: [
+      { name: key, kind: 'text' },
+      { name: a, kind: 'usd' },
+      { name: b, kind: 'usd' },
+      { name: 'Change', kind: 'usd' },
+    ],
+    rows: rows.map((row) => [row.key, row.aUsd, row.bUsd, row.deltaUsd]),
+  });
+  return [
+    table('By phase', 'Phase', [...comparison.phases, comparison.total]),
+    table('By task', 'Task', comparison.tasks),
+    table('By model', 'Model', comparison.models),
+  ];
+}
+
+function formatTableCell(value: string | number, kind: ColumnKind): string {
+  if (typeof value === 'string') return value;
+  if (kind === 'usd') return value < 0 ? `-$${(-value).toFixed(2)}` : `$${value.toFixed(2)}`;
+  if (kind === 'ratio') return `${(value * 100).toFixed(1)}%`;
+  return String(value);
+}
+
+function formatCsvCell(value: string | number, kind: ColumnKind): string {
+  if (typeof value === 'number') {
+    return kind === 'usd' || kind === 'ratio' ? String(Number(value.toFixed(4))) : String(value);
+  }
+  return /[",\n]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value;
+}
+
+/**
+ * Render tables as aligned text columns under their titles. Tables without
+ * rows are left out.
+ */
+function formatTables(tables: ReportTable[]): string[] {
+  const lines: string[] = [];
+  for (const table of tables) {
+    if (table.rows.length === 0) continue;
+    const cells = [
+      table.columns.map((c) => c.name),
+      ...table.rows.map((row) =>
+        row.map((value, i) => formatTableCell(value, table.columns[i].kind))
+      ),
+    ];
+    const widths = table.columns.map((_, i) => Math.max(...cells.map((row) => row[i].length)));
+    lines.push('', `${table.title}:`);
+    for (const row of cells) {
+      lines.push(
+        row
+          .map((cell, i) =>
+            table.columns[i].kind === 'text' ? cell.padEnd(widths[i]) : cell.padStart(widths[i])
+          )
+          .join('  ')
+          .trimEnd()
+      );
+    }
+  }
+  return lines;
+}
+
+/**
+ * Render tables as CSV blocks separated by blank lines, each starting with its
+ * header row. Amounts are plain numbers so spreadsheets can sum them.
+ */
+function formatCsv(tables: ReportTable[]): string[] {
+  const blocks = tables
+    .filter((table) => table.rows.length > 0)
+    .map((table) => [
+      table.columns.map((c) => formatCsvCell(c.name, 'text')).join(','),
+      ...table.rows.map((row) =>
+        row.map((value, i) => formatCsvCell(value, table.columns[i].kind)).join(',')
+      ),
+    ]);
+  return blocks.flatMap((block, i) => (i === 0 ? block : ['', ...block]));
+}
+
+/**
+ * Format a cost report as tables of cost per phase, task, model and iteration.
+ */
+export function formatCostReport(report: CostReport): string[] {
+  const lines = [`Run: ${report.runId}`, `Total cost: $${report.totalCostUsd.toFixed(2)}`];
+  if (report.phases.length === 0) {
+    lines.push('No costs recorded for this run');
+    return lines;
+  }
+  lines.push(...formatTables(costReportTables(report)));
+  if (report.models.length === 0) {
+    lines.push('', 'No token usage recorded for this run');
+  }
+  return lines;
+}
+
+/**
+ * Format a comparison of two runs as side-by-side cost tables.
+ */
+export function formatCostComparison(comparison: CostComparison): string[] {
+  return [
+    `Runs: ${comparison.runIds[0]} → ${comparison.runIds[1]}`,
+    ...formatTables(comparisonTables(comparison)),
+  ];
+}
+
+export const COST_REPORT_FORMATS = ['table', 'json', 'csv'] as const;
+export type CostReportFormat = (typeof COST_REPORT_FORMATS)[number];
+
+export interface CostsCommandOptions {
+  stateDir: string;
+  run?: string;
+  /** Second run to compare the first against */
+  compare?: string;
+  format: string;
+  /** How many of the most expensive iterations to list */
+  top?: number;
+}
+
+/**
+ * `ralphs costs` - report where a run's money went, or compare two runs.
+ * Returns the process exit code.
+ */
+export function runCostsCommand(opts: CostsCommandOptions): number {
+  if (!COST_REPORT_FORMATS.includes(opts.format as CostReportFormat)) {
+    console.error(`Error: Unknown format "${opts.format}" (expected table, json or csv)`);
+    return 1;
+  }
+  if (opts.top !== undefined && !(Number.isInteger(opts.top) && opts.top > 0)) {
+    console.error('Error: --top must be a positive integer');
+    return 1;
+  }
+  const dbPath = join(opts.stateDir, 'state.db');
+  if (!existsSync(dbPath)) {
+    console.error(`Error: No state database found in ${opts.stateDir}`);
+    return 1;
+  }
+
+  createDatabase(dbPath);
+  const reports: CostReport[] = [];
+  for (const runId of opts.compare ? [opts.run, opts.compare] : [opts.run]) {
+    const run = getRunCostFromDb(getDatabase(), runId);
+    if (!run) {
+      console.error(
+        runId ? `Error: Run not found: ${runId}` : `Error: No runs found in ${opts.stateDir}`
+      );
+      closeDatabase();
+      return 1;
+    }
+    reports.push(collectCostReport(run.id, run.total_cost_usd, opts.top));
+  }
+  closeDatabase();
+
+  const [report, other] = reports;
+  let output: string[];
+  if (other) {
+    const comparison = compareCostReports(report, other);
+    if (opts.format === 'json') output = [JSON.stringify(comparison, null, 2)];
+    else if (opts.format === 'csv') output = formatCsv(comparisonTables(comparison));
+    else output = formatCostComparison(comparison);
+  } else {
+    if (opts.format === 'json') output = [JSON.stringify(report, null, 2)];
+    else if (opts.format === 'csv') output = formatCsv(costReportTables(report));
+    else output = formatCostReport(report);
+  }
+
+  for (const line of output) {
+    console.log(line);
+  }
+  return 0;
+}
@@ -0,0 +1,39 @@
+import { closeDatabase, getDatabase } from '../db/index.js';
+import { requestDrainInDb } from '../db/runs.js';
+import { loadState } from '../state/index.js';
+
+export interface DrainCommandOptions {
+  stateDir: string;
+  run?: string;
+}
+
+/**
+ * `ralphs drain` - ask a run executing in another process to stop gracefully:
+ * no new loops start, in-flight iterations finish and are saved, then the
+ * process exits with DRAINED_EXIT_CODE. Same as pressing Ctrl-C once.
+ * Returns the exit code of this command.
+ */
+export function runDrainCommand(opts: DrainCommandOptions): number {
+  const state = loadState(opts.stateDir, opts.run);
+  if (!state) {
+    console.error(
+      opts.run ? `Error: Run not found: ${opts.run}` : `Error: No runs found in ${opts.stateDir}`
+    );
+    closeDatabase();
+    return 1;
+  }
+
+  try {
+    if (state.phase === 'complete') {
+      console.error(`Error: Run ${state.runId} is already complete`);
+      return 1;
+    }
+    requestDrainInDb(getDatabase(), state.runId);
+    console.log(
+      `Drain requested for run ${state.runId}; it stops once in-flight iterations finish`
+    );
+    return 0;
+  } finally {
+    closeDatabase();
+  }
+}
@@ -0,0 +1,88 @@
+import assert from 'node:assert';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { readContextFromDb } from '../db/context.js';
+import { closeDatabase, createDatabase, getDatabase } from '../db/index.js';
+import { initializeState, saveRun } from '../state/index.js';
+import { resolveHintTarget, runHintCommand } from './hint.js';
+
+describe('ralphs hint', () => {
+  let tempDir: string;
+  let runId: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'sq-hint-test-'));
+    createDatabase(join(tempDir, 'state.db'));
+    const state = initializeState({
+      specPath: '/path/to/spec.md',
+      effort: 'medium',
+      stateDir: tempDir,
+      maxLoops: 4,
+      maxIterations: 20,
+      useWorktrees: false,
+    });
+    saveRun(state);
+    runId = state.runId;
+
+    const db = getDatabase();
+    db.prepare(
+      'INSERT INTO tasks (id, run_id, title, description, status) VALUES (?, ?, ?, ?, ?)'
+    ).run('task-1', runId, 'Task', 'desc', 'pending');
+    db.prepare(
+      'INSERT INTO tasks (id, run_id, title, description, status) VALUES (?, ?, ?, ?, ?)'
+    ).run('task-2', runId, 'Task', 'desc', 'completed');
+    for (const [id, status] of [
+      ['abc12345-running', 'running'],
+      ['abc99999-done', 'completed'],
+    ]) {
+      db.prepare(`
+        INSERT INTO loops (id, run_id, task_ids, max_iterations, review_interval, status)
+        VALUES (?, ?, '["task-1"]', 20, 5, ?)
+      `).run(id, runId, status);
+    }
+  });
+
+  afterEach(() => {
+    closeDatabase();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('resolveHintTarget accepts loop IDs, unique prefixes and task IDs', () => {
+    assert.deepStrictEqual(resolveHintTarget(runId, 'abc12345-running'), {
+      loopId: 'abc12345-running',
+      taskId: 'task-1',
+    });
+    assert.strictEqual(resolveHintTarget(runId, 'abc1').loopId, 'abc12345-running');
+    assert.deepStrictEqual(resolveHintTarget(runId, 'task-1'), { loopId: null, taskId: 'task-1' });
+  });
+
+  test('resolveHintTarget rejects ambiguous, finished and unknown targets', () => {
+    assert.throws(() => resolveHintTarget(runId, 'abc'), /ambiguous/);
+    assert.throws(() => resolveHintTarget(runId, 'abc99999-done'), /completed/);
+    assert.throws(() => resolveHintTarget(runId, 'task-2'), /completed/);
+    assert.throws(() => resolveHintTarget(runId, 'nope'), /No loop or task/);
+  });
+
+  test('runHintCommand stores an unconsumed hint', () => {
+    closeDatabase();
+    const originalLog = console.log;
+    console.log = () => {};
+    try {
+      assert.strictEqual(
+        runHintCommand('abc1', 'the test runner is vitest', { stateDir: tempDir }),
+        0
+      );
+    } finally {
+      console.log = originalLog;
+    }
+
+    const db = createDatabase(join(tempDir, 'state.db'));
+    const { entries } = readContextFromDb(db, { runId, types: ['hint'] });
+    assert.strictEqual(entries.length, 1);
+    assert.strictEqual(entries[0].content, 'the test runner is vitest');
+    assert.strictEqual(entries[0].loop_id, 'abc12345-running');
+    assert.strictEqual(entries[0].consumed_at, null);
+  });
+});
@@ -0,0 +1,92 @@
+import { writeContextToDb } from '../db/context.js';
+import { closeDatabase, getDatabase } from '../db/index.js';
+import { findLoopsByPrefixFromDb } from '../db/loops.js';
+import { getTaskFromDb } from '../db/tasks.js';
+import { loadState } from '../state/index.js';
+
+export interface HintTarget {
+  loopId: string | null;
+  taskId: string | null;
+}
+
+/**
+ * Resolve a hint target to a loop (by ID or unique ID prefix, as shown by
+ * `ralphs status`) or a task. Throws if the target is unknown, ambiguous or done.
+ */
+export function resolveHintTarget(runId: string, target: string): HintTarget {
+  const db = getDatabase();
+  const loops = findLoopsByPrefixFromDb(db, runId, target);
+  const loop = loops.find((l) => l.id === target) ?? (loops.length === 1 ? loops[0] : undefined);
+
+  if (loop) {
+    if (loop.status === 'completed') {
+      throw new Error(`Loop ${loop.id} is already completed`);
+    }
+    const taskIds = JSON.parse(loop.task_ids) as string[];
+    return { loopId: loop.id, taskId: taskIds[0] ?? null };
+  }
+  if (loops.length > 1) {
+    throw new Error(`Loop ID prefix "${target}" is ambiguous`);
+  }
+
+  const task = getTaskFromDb(db, runId, target);
+  if (!task) {
+    throw new Error(`No loop or task matches "${target}"`);
+  }
+  if (task.status === 'completed' || task.status === 'cancelled' || task.status === 'superseded') {
+    throw new Error(`Task ${target} is ${task.status} and will not run again`);
+  }
+  return { loopId: null, taskId: task.id };
+}
+
+export interface HintCommandOptions {
+  stateDir: string;
+  run?: string;
+}
+
+/**
+ * `ralphs hint <loopId|taskId> <text>` - queue operator guidance for the next
+ * build iteration. Works against a run executing in another process, since
+ * loops read pending hints from state.db each iteration. Returns the exit code.
+ */
+export function runHintCommand(target: string, text: string, opts: HintCommandOptions): number {
+  const state = loadState(opts.stateDir, opts.run);
+  if (!state) {
+    console.error(
+      opts.run ? `Error: Run not found: ${opts.run}` : `Error: No runs found in ${opts.stateDir}`
+    );
+    closeDatabase();
+    return 1;
+  }
+
+  try {
+    if (!text.trim()) {
+      console.error('Error: Hint text must not be empty');
+      return 1;
+    }
+
+    let resolved: HintTarget;
+    try {
+      resolved = resolveHintTarget(state.runId, target);
+    } catch (e) {
+      console.error(`Error: ${e instanceof Error ? e.message : String(e)}`);
+      return 1;
+    }
+
+    writeContextToDb(getDatabase(), {
+      runId: state.runId,
+      type: 'hint',
+      content: text.trim(),
+      loopId: resolved.loopId ?? undefined,
+      taskId: resolved.taskId ?? undefined,
+    });
+    console.log(
+      resolved.loopId
+        ? `Hint queued for loop ${resolved.loopId}; it will be delivered on the next iteration`
+        : `Hint queued for task ${resolved.taskId}; it will be delivered to the next loop that works on it`
+    );
+    return 0;
+  } finally {
+    closeDatabase();
+  }
+}
@@ -0,0 +1,107 @@
+import assert from 'node:assert';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { readContextFromDb } from '../db/context.js';
+import { closeDatabase, createDatabase, getDatabase } from '../db/index.js';
+import { initializeState, saveRun } from '../state/index.js';
+import { runLoopCommand } from './loop.js';
+
+function silenced<T>(fn: () => T): T {
+  const originalLog = console.log;
+  const originalError = console.error;
+  console.log = () => {};
+  console.error = () => {};
+  try {
+    return fn();
+  } finally {
+    console.log = originalLog;
+    console.error = originalError;
+  }
+}
+
+describe('ralphs loop', () => {
+  let tempDir: string;
+  let runId: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'sq-loop-test-'));
+    createDatabase(join(tempDir, 'state.db'));
+    const state = initializeState({
+      specPath: '/path/to/spec.md',
+      effort: 'medium',
+      stateDir: tempDir,
+      maxLoops: 4,
+      maxIterations: 20,
+      useWorktrees: false,
+    });
+    saveRun(state);
+    runId = state.runId;
+
+    const db = getDatabase();
+    for (const [id, status] of [
+      ['abc12345-running', 'running'],
+      ['def67890-done', 'completed'],
+    ]) {
+      db.prepare(`
+        INSERT INTO loops (id, run_id, task_ids, max_iterations, review_interval, status)
+        VALUES (?, ?, '["task-1"]', 20, 5, ?)
+      `).run(id, runId, status);
+    }
+    closeDatabase();
+  });
+
+  afterEach(() => {
+    closeDatabase();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function loopStatus(loopId: string): string {
+    const db = createDatabase(join(tempDir, 'state.db'));
+    const row = db.prepare('SELECT status FROM loops WHERE id = ?').get(loopId) as {
+      status: string;
+    };
+    closeDatabase();
+    return row.status;
+  }
+
+  test('pause and resume toggle the stored loop status by ID prefix', () => {
+    assert.strictEqual(
+      silenced(() => runLoopCommand('pause', 'abc1', { stateDir: tempDir })),
+      0
+    );
+    assert.strictEqual(loopStatus('abc12345-running'), 'paused');
+
+    assert.strictEqual(
+      silenced(() => runLoopCommand('resume', 'abc1', { stateDir: tempDir })),
+      0
+    );
+    assert.strictEqual(loopStatus('abc12345-running'), 'running');
+
+    const db = createDatabase(join(tempDir, 'state.db'));
+    const { entries } = readContextFromDb(db, { runId, types: ['decision'] });
+    assert.strictEqual(entries.length, 2);
+    assert.strictEqual(entries[0].loop_id, 'abc12345-running');
+  });
+
+  test('rejects finished loops, unpaused resumes and unknown actions', () => {
+    assert.strictEqual(
+      silenced(() => runLoopCommand('pause', 'def6', { stateDir: tempDir })),
+      1
+    );
+    assert.strictEqual(
+      silenced(() => runLoopCommand('resume', 'abc1', { stateDir: tempDir })),
+      1
+    );
+    assert.strictEqual(
+      silenced(() => runLoopCommand('stop', 'abc1', { stateDir: tempDir })),
+      1
+    );
+    assert.strictEqual(
+      silenced(() => runLoopCommand('pause', 'zzz', { stateDir: tempDir })),
+      1
+    );
+    assert.strictEqual(loopStatus('abc12345-running'), 'running');
+  });
+});
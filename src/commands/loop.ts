@@ -0,0 +1,78 @@
+import { writeContextToDb } from '../db/context.js';
+import { closeDatabase, getDatabase } from '../db/index.js';
+import { type LoopRow, pauseLoopInDb, resolveLoopFromDb, resumeLoopInDb } from '../db/loops.js';
+import { loadState } from '../state/index.js';
+
+export interface LoopCommandOptions {
+  stateDir: string;
+  run?: string;
+}
+
+/**
+ * `ralphs loop pause|resume <loopId>` - hold back a single loop while its
+ * siblings keep building. Works against a run executing in another process:
+ * the orchestrator applies the change from state.db on its next build
+ * iteration, after the loop's current iteration finishes. Returns the exit code.
+ */
+export function runLoopCommand(action: string, loopId: string, opts: LoopCommandOptions): number {
+  const state = loadState(opts.stateDir, opts.run);
+  if (!state) {
+    console.error(
+      opts.run ? `Error: Run not found: ${opts.run}` : `Error: No runs found in ${opts.stateDir}`
+    );
+    closeDatabase();
+    return 1;
+  }
+
+  try {
+    const db = getDatabase();
+    let loop: LoopRow;
+    try {
+      loop = resolveLoopFromDb(db, state.runId, loopId);
+    } catch (e) {
+      console.error(`Error: ${e instanceof Error ? e.message : String(e)}`);
+      return 1;
+    }
+    const taskId = (JSON.parse(loop.task_ids) as string[])[0];
+
+    switch (action) {
+      case 'pause': {
+        if (!pauseLoopInDb(db, loop.id)) {
+          console.error(`Error: Loop ${loop.id} is ${loop.status} and cannot be paused`);
+          return 1;
+        }
+        writeContextToDb(db, {
+          runId: state.runId,
+          type: 'decision',
+          loopId: loop.id,
+          taskId,
+          content: `Operator paused loop ${loop.id}`,
+        });
+        console.log(`Paused loop ${loop.id}; it stops after its current iteration`);
+        return 0;
+      }
+
+      case 'resume': {
+        if (!resumeLoopInDb(db, loop.id)) {
+          console.error(`Error: Loop ${loop.id} is ${loop.status}, not paused`);
+          return 1;
+        }
+        writeContextToDb(db, {
+          runId: state.runId,
+          type: 'decision',
+          loopId: loop.id,
+          taskId,
+          content: `Operator resumed loop ${loop.id}`,
+        });
+        console.log(`Resumed loop ${loop.id}`);
+        return 0;
+      }
+
+      default:
+        console.error(`Error: Unknown loop action "${action}". Expected pause or resume`);
+        return 1;
+    }
+  } finally {
+    closeDatabase();
+  }
+}
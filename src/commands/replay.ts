@@ -0,0 +1,126 @@
+import { spawnSync } from 'node:child_process';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { basename, dirname, isAbsolute, join, relative, resolve } from 'node:path';
+import { type AgentRecording, loadAgentRecording } from '../agents/replay-backend.js';
+import { closeDatabase } from '../db/index.js';
+import { loadState } from '../state/index.js';
+import type { OrchestratorState } from '../types/index.js';
+
+export interface ReplayCommandOptions {
+  stateDir: string;
+  /** Directory to clone the project into (default: a new temp directory) */
+  sandbox?: string;
+}
+
+/**
+ * Build the `ralphs` arguments that re-run a recorded run with the replay backend.
+ * Limits come from the run's state when state.db still has it, otherwise the defaults apply.
+ */
+function getReplayArgs(
+  recording: AgentRecording,
+  debugDir: string,
+  specPath: string,
+  state: OrchestratorState | null
+): string[] {
+  const args = [
+    '--spec',
+    specPath,
+    '--effort',
+    recording.effort,
+    '--no-tui',
+    '--debug',
+    '--agent-backend',
+    `replay:${debugDir}`,
+  ];
+
+  if (state) {
+    args.push('--max-loops', String(state.maxLoops));
+    args.push('--max-iterations', String(state.maxIterations));
+    if (!state.useWorktrees) args.push('--no-worktrees');
+  }
+  return args;
+}
+
+/**
+ * `ralphs replay <runId>` - re-drive the orchestrator with the agent calls
+ * recorded in a `--debug` trace instead of a model. The project is cloned
+ * into a sandbox first because the recorded file edits and shell commands
+ * are re-applied there. The sandbox is kept so its state and new trace can
+ * be compared with the original run.
+ * Returns the exit code of the replayed run.
+ */
+export function runReplayCommand(runId: string, opts: ReplayCommandOptions): number {
+  const debugDir = join(opts.stateDir, 'debug', runId);
+  if (!existsSync(join(debugDir, 'trace.json'))) {
+    console.error(
+      `Error: No debug trace for run ${runId} in ${debugDir} (record runs with --debug)`
+    );
+    return 1;
+  }
+
+  let recording: AgentRecording;
+  try {
+    recording = loadAgentRecording(debugDir);
+  } catch (err) {
+    console.error(`Error: Could not read the trace of run ${runId}: ${(err as Error).message}`);
+    return 1;
+  }
+
+  const sandbox = opts.sandbox
+    ? resolve(opts.sandbox)
+    : mkdtempSync(join(tmpdir(), 'ralphs-replay-'));
+  const clone = spawnSync('git', ['clone', '-q', process.cwd(), sandbox], { encoding: 'utf-8' });
+  if (clone.status !== 0) {
+    console.error(
+      `Error: Could not clone ${process.cwd()} into ${sandbox}: ${clone.stderr.trim()}`
+    );
+    return 1;
+  }
+
+  // Start from the commit the recorded run started from, so merges see the same history
+  const reset = recording.headCommit
+    ? spawnSync('git', ['reset', '-q', '--hard', recording.headCommit], { cwd: sandbox })
+    : null;
+  if (reset?.status !== 0) {
+    console.warn(
+      `Warning: ${recording.headCommit ? `commit ${recording.headCommit} not found` : 'the trace has no start commit'}; replaying from the current HEAD`
+    );
+  }
+
+  const specRelative = relative(recording.cwd, recording.specPath);
+  const specPath =
+    specRelative.startsWith('..') || isAbsolute(specRelative)
+      ? basename(recording.specPath)
+      : specRelative;
+  const state = loadState(opts.stateDir, recording.runId);
+  closeDatabase();
+
+  // A spec committed at the start commit is already in the clone. Specs are often
+  // untracked, so otherwise write the one the run enumerated from, or the current one
+  const tracked = spawnSync('git', ['cat-file', '-e', `HEAD:${specPath}`], { cwd: sandbox });
+  if (tracked.status !== 0) {
+    const spec =
+      state?.specSnapshot ??
+      (existsSync(recording.specPath) ? readFileSync(recording.specPath, 'utf-8') : null);
+    if (spec === null) {
+      console.error(`Error: Spec file not found: ${recording.specPath}`);
+      return 1;
+    }
+    mkdirSync(dirname(join(sandbox, specPath)), { recursive: true });
+    writeFileSync(join(sandbox, specPath), spec);
+  }
+
+  console.log(`Replaying ${recording.calls.length} agent calls from run ${runId} in ${sandbox}`);
+  const result = spawnSync(
+    process.execPath,
+    [...process.execArgv, process.argv[1], ...getReplayArgs(recording, debugDir, specPath, state)],
+    { cwd: sandbox, stdio: 'inherit' }
+  );
+
+  const exitCode = result.status ?? 1;
+  console.log(`Replay exited with code ${exitCode}`);
+  console.log(`Sandbox: ${sandbox}`);
+  console.log(`Trace: ${join(sandbox, '.ralphs', 'debug')}`);
+  return exitCode;
+}
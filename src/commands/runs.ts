@@ -0,0 +1,109 @@
+import { existsSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { closeDatabase, createDatabase, getDatabase } from '../db/index.js';
+import { type RunSummary, deleteRunFromDb, listRunsFromDb } from '../db/runs.js';
+import { runStatusCommand } from './status.js';
+
+/**
+ * Format a duration in seconds as a compact "1h 02m 03s" string.
+ */
+export function formatDuration(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.round(totalSeconds));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  if (h > 0) return `${h}h ${String(m).padStart(2, '0')}m ${String(s).padStart(2, '0')}s`;
+  if (m > 0) return `${m}m ${String(s).padStart(2, '0')}s`;
+  return `${s}s`;
+}
+
+/**
+ * Prints one line per run in a fixed-width table.
+ */
+export function printRunList(runs: RunSummary[]): void {
+  if (runs.length === 0) {
+    console.log('No runs found');
+    return;
+  }
+
+  console.log(
+    `${'RUN'.padEnd(36)}  ${'STARTED'.padEnd(19)}  ${'EFFORT'.padEnd(6)}  ${'PHASE'.padEnd(9)}  ${'TASKS'.padEnd(7)}  ${'COST'.padStart(9)}  ${'DURATION'.padEnd(11)}  SPEC`
+  );
+  for (const run of runs) {
+    const tasks = `${run.completed_task_count}/${run.task_count}`;
+    console.log(
+      `${run.id.padEnd(36)}  ${run.created_at.padEnd(19)}  ${run.effort.padEnd(6)}  ${run.phase.padEnd(9)}  ${tasks.padEnd(7)}  ${`$${run.total_cost_usd.toFixed(2)}`.padStart(9)}  ${formatDuration(run.duration_seconds).padEnd(11)}  ${run.spec_path}`
+    );
+  }
+}
+
+export interface RunsCommandOptions {
+  stateDir: string;
+  json?: boolean;
+}
+
+/**
+ * `ralphs runs list|show|delete` - browse and prune the run history in state.db.
+ * Returns the process exit code.
+ */
+export function runRunsCommand(
+  action: string,
+  runId: string | undefined,
+  opts: RunsCommandOptions
+): number {
+  const dbPath = join(opts.stateDir, 'state.db');
+  if (!existsSync(dbPath)) {
+    console.error(`Error: No state database found in ${opts.stateDir}`);
+    return 1;
+  }
+
+  switch (action) {
+    case 'list': {
+      createDatabase(dbPath);
+      const runs = listRunsFromDb(getDatabase());
+      closeDatabase();
+      if (opts.json) {
+        console.log(JSON.stringify(runs, null, 2));
+      } else {
+        printRunList(runs);
+      }
+      return 0;
+    }
+
+    case 'show': {
+      if (!runId) {
+        console.error('Error: ralphs runs show requires a run ID');
+        return 1;
+      }
+      return runStatusCommand({ stateDir: opts.stateDir, run: runId, json: opts.json });
+    }
+
+    case 'delete': {
+      if (!runId) {
+        console.error('Error: ralphs runs delete requires a run ID');
+        return 1;
+      }
+      createDatabase(dbPath);
+      const deleted = deleteRunFromDb(getDatabase(), runId);
+      closeDatabase();
+      if (!deleted) {
+        console.error(`Error: Run not found: ${runId}`);
+        return 1;
+      }
+
+      // Debug traces are keyed by run ID and are useless once the run is gone
+      const debugDir = join(opts.stateDir, 'debug', runId);
+      if (existsSync(debugDir)) {
+        rmSync(debugDir, { recursive: true, force: true });
+      }
+
+      console.log(`Deleted run: ${runId}`);
+      console.log(`Worktrees are not removed; use "ralphs clean --run ${runId}" if needed`);
+      return 0;
+    }
+
+    default:
+      console.error(`Error: Unknown runs action "${action}". Expected list, show or delete`);
+      return 1;
+  }
+}
@@ -0,0 +1,144 @@
+import assert from 'node:assert';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { closeDatabase, createDatabase, getDatabase } from '../db/index.js';
+import { initializeState, loadState, saveRun } from '../state/index.js';
+import { collectRunStatus, runStatusCommand } from './status.js';
+
+describe('ralphs status', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'sq-status-test-'));
+  });
+
+  afterEach(() => {
+    closeDatabase();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function createRun(specPath: string) {
+    const state = initializeState({
+      specPath,
+      effort: 'medium',
+      stateDir: tempDir,
+      maxLoops: 4,
+      maxIterations: 20,
+      useWorktrees: false,
+    });
+    saveRun(state);
+    return state;
+  }
+
+  test('collectRunStatus includes completed and failed loops', () => {
+    createDatabase(join(tempDir, 'state.db'));
+    const state = createRun('/path/to/spec.md');
+    const db = getDatabase();
+
+    db.prepare(
+      'INSERT INTO tasks (id, run_id, title, description, status) VALUES (?, ?, ?, ?, ?)'
+    ).run('task-1', state.runId, 'First task', 'desc', 'completed');
+    db.prepare(
+      `INSERT INTO loops (id, run_id, task_ids, iteration, max_iterations, review_interval, status, cost_usd)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run('loop-done', state.runId, '["task-1"]', 7, 20, 5, 'completed', 1.5);
+    db.prepare(
+      `INSERT INTO loops (id, run_id, task_ids, iteration, max_iterations, review_interval, status, last_error)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run('loop-stuck', state.runId, '["task-2"]', 3, 20, 5, 'stuck', 'tests fail');
+    closeDatabase();
+
+    const loaded = loadState(tempDir);
+    assert.ok(loaded);
+    const status = collectRunStatus(loaded);
+
+    assert.strictEqual(status.runId, state.runId);
+    assert.strictEqual(status.tasks.length, 1);
+    assert.strictEqual(status.tasks[0].status, 'completed');
+    assert.strictEqual(status.loops.length, 2);
+
+    const done = status.loops.find((l) => l.loopId === 'loop-done');
+    assert.strictEqual(done?.iteration, 7);
+    assert.strictEqual(done?.costUsd, 1.5);
+    assert.deepStrictEqual(done?.taskIds, ['task-1']);
+
+    const stuck = status.loops.find((l) => l.loopId === 'loop-stuck');
+    assert.strictEqual(stuck?.status, 'stuck');
+    assert.strictEqual(stuck?.lastError, 'tests fail');
+  });
+
+  test('loadState selects a specific run when runId is given', () => {
+    createDatabase(join(tempDir, 'state.db'));
+    const first = createRun('/path/to/first.md');
+    createRun('/path/to/second.md');
+    closeDatabase();
+
+    const loaded = loadState(tempDir, first.runId);
+    assert.ok(loaded);
+    assert.strictEqual(loaded.runId, first.runId);
+    assert.strictEqual(loaded.specPath, '/path/to/first.md');
+  });
+
+  test('runStatusCommand returns 1 for an unknown run', () => {
+    createDatabase(join(tempDir, 'state.db'));
+    createRun('/path/to/spec.md');
+    closeDatabase();
+
+    const originalError = console.error;
+    console.error = () => {};
+    try {
+      assert.strictEqual(runStatusCommand({ stateDir: tempDir, run: 'missing' }), 1);
+    } finally {
+      console.error = originalError;
+    }
+  });
+
+  test('runStatusCommand does not change the run phase', () => {
+    createDatabase(join(tempDir, 'state.db'));
+    const state = createRun('/path/to/spec.md');
+    closeDatabase();
+
+    const originalLog = console.log;
+    const lines: string[] = [];
+    console.log = (line: string) => lines.push(line);
+    try {
+      assert.strictEqual(runStatusCommand({ stateDir: tempDir, json: true }), 0);
+    } finally {
+      console.log = originalLog;
+    }
+
+    const parsed = JSON.parse(lines.join('\n'));
+    assert.strictEqual(parsed.runId, state.runId);
+    assert.strictEqual(parsed.phase, 'analyze');
+
+    const loaded = loadState(tempDir);
+    assert.strictEqual(loaded?.phase, 'analyze');
+  });
+
+  test('runStatusCommand opens the database read-only and prunes nothing', () => {
+    createDatabase(join(tempDir, 'state.db'));
+    const state = createRun('/path/to/spec.md');
+    const insert = getDatabase().prepare(
+      "INSERT INTO context (run_id, type, content) VALUES (?, 'decision', ?)"
+    );
+    for (let i = 0; i < 501; i++) insert.run(state.runId, `decision ${i}`);
+    closeDatabase();
+
+    const originalLog = console.log;
+    console.log = () => {};
+    try {
+      assert.strictEqual(runStatusCommand({ stateDir: tempDir }), 0);
+    } finally {
+      console.log = originalLog;
+    }
+
+    const db = createDatabase(join(tempDir, 'state.db'), { readonly: true });
+    assert.throws(() => db.prepare("UPDATE runs SET phase = 'build'").run(), /readonly/);
+    const { count } = db
+      .prepare("SELECT COUNT(*) AS count FROM context WHERE type = 'decision'")
+      .get() as { count: number };
+    assert.strictEqual(count, 501);
+  });
+});
@@ -0,0 +1,146 @@
+import { closeDatabase, getDatabase } from '../db/index.js';
+import { loadState } from '../state/index.js';
+import type { LoopState, OrchestratorState, PhaseResult, Task } from '../types/index.js';
+
+export interface LoopStatusSummary {
+  loopId: string;
+  taskIds: string[];
+  iteration: number;
+  maxIterations: number;
+  status: LoopState['status'];
+  costUsd: number;
+  lastError: string | null;
+}
+
+export interface RunStatus {
+  runId: string;
+  specPath: string;
+  effort: string;
+  phase: string;
+  totalCostUsd: number;
+  phaseHistory: PhaseResult[];
+  tasks: Array<Pick<Task, 'id' | 'title' | 'status' | 'assignedLoopId'>>;
+  loops: LoopStatusSummary[];
+  pendingConflicts: OrchestratorState['pendingConflicts'];
+}
+
+/**
+ * Collect a read-only status snapshot for a loaded run.
+ * Loops are read straight from the loops table so completed and failed
+ * loops are included (loadState only restores the ones still active).
+ */
+export function collectRunStatus(state: OrchestratorState): RunStatus {
+  const loopRows = getDatabase()
+    .prepare(`
+    SELECT id, task_ids, iteration, max_iterations, status, cost_usd, last_error
+    FROM loops WHERE run_id = ? ORDER BY created_at, id
+  `)
+    .all(state.runId) as Array<{
+    id: string;
+    task_ids: string;
+    iteration: number;
+    max_iterations: number;
+    status: LoopState['status'];
+    cost_usd: number;
+    last_error: string | null;
+  }>;
+
+  return {
+    runId: state.runId,
+    specPath: state.specPath,
+    effort: state.effort,
+    phase: state.phase,
+    totalCostUsd: state.costs.totalCostUsd,
+    phaseHistory: state.phaseHistory,
+    tasks: state.tasks.map((t) => ({
+      id: t.id,
+      title: t.title,
+      status: t.status,
+      assignedLoopId: t.assignedLoopId,
+    })),
+    loops: loopRows.map((row) => ({
+      loopId: row.id,
+      taskIds: JSON.parse(row.task_ids),
+      iteration: row.iteration,
+      maxIterations: row.max_iterations,
+      status: row.status,
+      costUsd: row.cost_usd,
+      lastError: row.last_error,
+    })),
+    pendingConflicts: state.pendingConflicts,
+  };
+}
+
+/**
+ * Prints a human-readable status report for a run.
+ */
+export function printRunStatus(status: RunStatus): void {
+  console.log(`Run: ${status.runId}`);
+  console.log(`Spec: ${status.specPath}`);
+  console.log(`Effort: ${status.effort}`);
+  console.log(`Phase: ${status.phase}`);
+  console.log(`Total cost: $${status.totalCostUsd.toFixed(2)}`);
+
+  console.log(`\nPhase history (${status.phaseHistory.length}):`);
+  for (const entry of status.phaseHistory) {
+    const mark = entry.success ? '✓' : '✗';
+    console.log(
+      `  ${mark} ${entry.phase} [${entry.timestamp}] $${entry.costUsd.toFixed(2)} - ${entry.summary}`
+    );
+  }
+
+  console.log(`\nTasks (${status.tasks.length}):`);
+  for (const task of status.tasks) {
+    const loop = task.assignedLoopId ? ` (loop ${task.assignedLoopId.slice(0, 8)})` : '';
+    console.log(`  [${task.id}] ${task.status.padEnd(11)} ${task.title}${loop}`);
+  }
+
+  console.log(`\nLoops (${status.loops.length}):`);
+  for (const loop of status.loops) {
+    console.log(
+      `  ${loop.loopId.slice(0, 8)} ${loop.status.padEnd(11)} iter ${loop.iteration}/${loop.maxIterations} $${loop.costUsd.toFixed(2)} tasks: ${loop.taskIds.join(', ')}`
+    );
+    if (loop.lastError && loop.status !== 'completed') {
+      console.log(`    last error: ${loop.lastError}`);
+    }
+  }
+
+  console.log(`\nPending conflicts (${status.pendingConflicts.length}):`);
+  for (const conflict of status.pendingConflicts) {
+    console.log(
+      `  loop ${conflict.loopId.slice(0, 8)} task ${conflict.taskId}: ${conflict.conflictFiles.join(', ')}`
+    );
+  }
+}
+
+export interface StatusCommandOptions {
+  stateDir: string;
+  run?: string;
+  json?: boolean;
+}
+
+/**
+ * `ralphs status` - report where a run stands without executing any phase.
+ * Returns the process exit code.
+ */
+export function runStatusCommand(opts: StatusCommandOptions): number {
+  // Read-only: the run may still be executing against the same database
+  const state = loadState(opts.stateDir, opts.run, { readonly: true });
+  if (!state) {
+    console.error(
+      opts.run ? `Error: Run not found: ${opts.run}` : `Error: No runs found in ${opts.stateDir}`
+    );
+    closeDatabase();
+    return 1;
+  }
+
+  const status = collectRunStatus(state);
+  closeDatabase();
+
+  if (opts.json) {
+    console.log(JSON.stringify(status, null, 2));
+  } else {
+    printRunStatus(status);
+  }
+  return 0;
+}
@@ -0,0 +1,92 @@
+import assert from 'node:assert';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { closeDatabase, createDatabase, getDatabase } from '../db/index.js';
+import { initializeState, loadState, saveRun } from '../state/index.js';
+import { runTaskCommand } from './task.js';
+
+describe('ralphs task', () => {
+  let tempDir: string;
+  let runId: string;
+  let originalLog: typeof console.log;
+  let originalError: typeof console.error;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'sq-task-cmd-test-'));
+    createDatabase(join(tempDir, 'state.db'));
+    const state = initializeState({
+      specPath: '/path/to/spec.md',
+      effort: 'medium',
+      stateDir: tempDir,
+      maxLoops: 4,
+      maxIterations: 20,
+      useWorktrees: false,
+    });
+    state.phase = 'build';
+    saveRun(state);
+    runId = state.runId;
+
+    const db = getDatabase();
+    db.prepare(
+      'INSERT INTO tasks (id, run_id, title, description, status) VALUES (?, ?, ?, ?, ?)'
+    ).run('task-1', runId, 'Stuck task', 'desc', 'pending');
+    db.prepare(
+      'INSERT INTO tasks (id, run_id, title, description, status) VALUES (?, ?, ?, ?, ?)'
+    ).run('task-2', runId, 'Done task', 'desc', 'completed');
+    db.prepare(`
+      INSERT INTO loops (id, run_id, task_ids, max_iterations, review_interval, status)
+      VALUES ('loop-1', ?, '["task-1"]', 20, 5, 'stuck')
+    `).run(runId);
+    closeDatabase();
+
+    originalLog = console.log;
+    originalError = console.error;
+    console.log = () => {};
+    console.error = () => {};
+  });
+
+  afterEach(() => {
+    console.log = originalLog;
+    console.error = originalError;
+    closeDatabase();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('retry requeues a stuck task so a resumed run starts a new loop', async () => {
+    assert.strictEqual(await runTaskCommand('retry', 'task-1', { stateDir: tempDir }), 0);
+
+    const state = loadState(tempDir);
+    assert.strictEqual(state?.tasks.find((t) => t.id === 'task-1')?.status, 'pending');
+    // The stuck loop is failed, so it is no longer restored as active
+    assert.deepStrictEqual(state?.activeLoops, []);
+  });
+
+  test('skip marks the task skipped', async () => {
+    assert.strictEqual(await runTaskCommand('skip', 'task-1', { stateDir: tempDir }), 0);
+
+    const state = loadState(tempDir);
+    assert.strictEqual(state?.tasks.find((t) => t.id === 'task-1')?.status, 'skipped');
+  });
+
+  test('edit requires --description', async () => {
+    assert.strictEqual(await runTaskCommand('edit', 'task-1', { stateDir: tempDir }), 1);
+    assert.strictEqual(
+      await runTaskCommand('edit', 'task-1', { stateDir: tempDir, description: 'New text' }),
+      0
+    );
+
+    const state = loadState(tempDir);
+    assert.strictEqual(state?.tasks.find((t) => t.id === 'task-1')?.description, 'New text');
+  });
+
+  test('completed tasks and unknown tasks are rejected', async () => {
+    assert.strictEqual(await runTaskCommand('retry', 'task-2', { stateDir: tempDir }), 1);
+    assert.strictEqual(await runTaskCommand('skip', 'missing', { stateDir: tempDir }), 1);
+    assert.strictEqual(
+      await runTaskCommand('retry', 'task-1', { stateDir: tempDir, run: 'nope' }),
+      1
+    );
+  });
+});
@@ -0,0 +1,139 @@
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { writeContextToDb } from '../db/context.js';
+import { closeDatabase, getDatabase } from '../db/index.js';
+import {
+  getTaskFromDb,
+  getTaskLoopsFromDb,
+  resetTaskInDb,
+  updateTaskDescriptionInDb,
+} from '../db/tasks.js';
+import { loadState } from '../state/index.js';
+import type { OrchestratorState } from '../types/index.js';
+import { WorktreeManager } from '../worktrees/manager.js';
+
+export interface TaskCommandOptions {
+  stateDir: string;
+  run?: string;
+  description?: string;
+}
+
+/**
+ * Remove the worktrees of a task's previous loops so a retry starts from the base branch.
+ */
+async function discardTaskWorktrees(state: OrchestratorState, taskId: string): Promise<void> {
+  if (!state.useWorktrees || !state.baseBranch) return;
+
+  const worktreeManager = new WorktreeManager({
+    repoDir: process.cwd(),
+    worktreeBaseDir: join(state.stateDir, 'worktrees'),
+    baseBranch: state.baseBranch,
+    runId: state.runId,
+  });
+
+  for (const loop of getTaskLoopsFromDb(getDatabase(), state.runId, taskId)) {
+    if (!loop.worktree_path || !existsSync(loop.worktree_path)) continue;
+    try {
+      await worktreeManager.cleanup(loop.id);
+    } catch (e) {
+      console.warn(`Warning: Failed to remove worktree for loop ${loop.id}: ${e}`);
+    }
+  }
+}
+
+/**
+ * `ralphs task retry|skip|edit` - manual recovery for failed or stuck tasks
+ * without resetting the run. Changes apply to the stored run state and take
+ * effect the next time the run is resumed. Returns the process exit code.
+ */
+export async function runTaskCommand(
+  action: string,
+  taskId: string,
+  opts: TaskCommandOptions
+): Promise<number> {
+  const state = loadState(opts.stateDir, opts.run);
+  if (!state) {
+    console.error(
+      opts.run ? `Error: Run not found: ${opts.run}` : `Error: No runs found in ${opts.stateDir}`
+    );
+    closeDatabase();
+    return 1;
+  }
+
+  try {
+    const db = getDatabase();
+    const task = getTaskFromDb(db, state.runId, taskId);
+    if (!task) {
+      console.error(`Error: Task ${taskId} not found in run ${state.runId}`);
+      return 1;
+    }
+    if (
+      task.status === 'completed' ||
+      task.status === 'cancelled' ||
+      task.status === 'superseded'
+    ) {
+      console.error(`Error: Task ${taskId} is ${task.status} and cannot be changed`);
+      return 1;
+    }
+
+    switch (action) {
+      case 'retry': {
+        await discardTaskWorktrees(state, taskId);
+        const stoppedLoops = resetTaskInDb(db, state.runId, taskId, 'pending');
+        writeContextToDb(db, {
+          runId: state.runId,
+          type: 'decision',
+          taskId,
+          content: `Operator requeued task ${taskId} for a fresh attempt`,
+        });
+        console.log(`Requeued task ${taskId}`);
+        if (stoppedLoops.length > 0) {
+          console.log(`Stopped loop(s): ${stoppedLoops.join(', ')}`);
+        }
+        break;
+      }
+
+      case 'skip': {
+        const stoppedLoops = resetTaskInDb(db, state.runId, taskId, 'skipped');
+        writeContextToDb(db, {
+          runId: state.runId,
+          type: 'decision',
+          taskId,
+          content: `Operator skipped task ${taskId}; dependent tasks may proceed without it`,
+        });
+        console.log(`Skipped task ${taskId}; dependent tasks can now start`);
+        if (stoppedLoops.length > 0) {
+          console.log(
+            `Stopped loop(s): ${stoppedLoops.join(', ')} (worktrees kept for inspection)`
+          );
+        }
+        break;
+      }
+
+      case 'edit': {
+        if (!opts.description) {
+          console.error('Error: ralphs task edit requires --description');
+          return 1;
+        }
+        updateTaskDescriptionInDb(db, state.runId, taskId, opts.description);
+        writeContextToDb(db, {
+          runId: state.runId,
+          type: 'decision',
+          taskId,
+          content: `Operator updated the description of task ${taskId}`,
+        });
+        console.log(`Updated description of task ${taskId}`);
+        break;
+      }
+
+      default:
+        console.error(`Error: Unknown task action "${action}". Expected retry, skip or edit`);
+        return 1;
+    }
+
+    console.log(`Resume the run to apply: ralphs --spec ${state.specPath} --resume ${state.runId}`);
+    return 0;
+  } finally {
+    closeDatabase();
+  }
+}
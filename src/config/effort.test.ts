@@ -1,6 +1,6 @@
 import assert from 'node:assert';
 import { describe, it, test } from 'node:test';
-import { getEffortConfig, presetToEffortConfig } from './effort.js';
+import { getEffortConfig, getModelId, presetToEffortConfig } from './effort.js';
 import type { PresetConfig } from './schema.js';
 
 describe('Effort Configuration', () => {
@@ -11,6 +11,12 @@ describe('Effort Configuration', () => {
     assert.strictEqual(config.reviewInterval, 10);
   });
 
+  test('getModelId caps a tier at the model ceiling', () => {
+    assert.strictEqual(getModelId('opus', 'sonnet'), getModelId('sonnet'));
+    assert.strictEqual(getModelId('haiku', 'sonnet'), getModelId('haiku'));
+    assert.strictEqual(getModelId('opus'), 'claude-opus-4-20250514');
+  });
+
   test('medium effort reviews after plan', () => {
     const config = getEffortConfig('medium');
     assert.strictEqual(config.reviewAfterEnumerate, false);
@@ -62,6 +68,7 @@ describe('presetToEffortConfig', () => {
       stuck: {
         threshold: 3,
         maxRevisions: 5,
+        recovery: ['diagnose', 'fresh_worktree'],
       },
     };
 
@@ -93,6 +100,7 @@ describe('presetToEffortConfig', () => {
     // Stuck settings
     assert.strictEqual(config.stuckThreshold, 3);
     assert.strictEqual(config.maxRevisions, 5);
+    assert.deepStrictEqual(config.recoveryLadder, ['diagnose', 'fresh_worktree']);
   });
 
   it('handles null checkpointInterval', () => {
@@ -116,7 +124,7 @@ describe('presetToEffortConfig', () => {
         revise: 'haiku',
         conflict: 'sonnet',
       },
-      stuck: { threshold: 5, maxRevisions: 10 },
+      stuck: { threshold: 5, maxRevisions: 10, recovery: [] },
     };
 
     const config = presetToEffortConfig(preset);
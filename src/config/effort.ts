@@ -1,4 +1,11 @@
-import type { CostLimits, EffortLevel, ModelTier, Phase } from '../types/index.js';
+import type {
+  CostLimits,
+  EffortLevel,
+  ModelTier,
+  Phase,
+  RecoveryStep,
+  ReviewDepth,
+} from '../types/index.js';
 import type { PresetConfig } from './schema.js';
 
 // Model IDs for each tier
@@ -8,8 +15,25 @@ const MODEL_IDS: Record<ModelTier, string> = {
   opus: 'claude-opus-4-20250514',
 };
 
-export function getModelId(tier: ModelTier): string {
-  return MODEL_IDS[tier];
+/**
+ * Model ID for a tier. A run's model ceiling (`costLimits.maxModelTier`) applies
+ * to every agent, so callers pass it along.
+ */
+export function getModelId(tier: ModelTier, ceiling?: ModelTier): string {
+  return MODEL_IDS[capModelTier(tier, ceiling)];
+}
+
+/** Model tiers from cheapest to most capable */
+export const MODEL_TIER_ORDER: ModelTier[] = ['haiku', 'sonnet', 'opus'];
+
+/**
+ * The tier to run with when models are capped: the ceiling if the tier is
+ * above it, else the tier itself.
+ */
+export function capModelTier(tier: ModelTier, ceiling?: ModelTier): ModelTier {
+  return ceiling && MODEL_TIER_ORDER.indexOf(tier) > MODEL_TIER_ORDER.indexOf(ceiling)
+    ? ceiling
+    : tier;
 }
 
 /**
@@ -44,6 +68,7 @@ export const DEFAULT_PRESETS: Record<string, PresetConfig> = {
     stuck: {
       threshold: 5,
       maxRevisions: 10,
+      recovery: ['fresh_worktree'],
     },
   },
   medium: {
@@ -73,6 +98,7 @@ export const DEFAULT_PRESETS: Record<string, PresetConfig> = {
     stuck: {
       threshold: 4,
       maxRevisions: 8,
+      recovery: ['diagnose', 'fresh_worktree'],
     },
   },
   high: {
@@ -102,6 +128,7 @@ export const DEFAULT_PRESETS: Record<string, PresetConfig> = {
     stuck: {
       threshold: 3,
       maxRevisions: 5,
+      recovery: ['diagnose', 'split_task', 'fresh_worktree'],
     },
   },
   max: {
@@ -131,6 +158,7 @@ export const DEFAULT_PRESETS: Record<string, PresetConfig> = {
     stuck: {
       threshold: 2,
       maxRevisions: 3,
+      recovery: ['diagnose', 'split_task', 'fresh_worktree'],
     },
   },
 };
@@ -143,9 +171,10 @@ export interface EffortConfig {
   reviewAfterEnumerate: boolean;
   reviewAfterPlan: boolean;
   reviewInterval: number; // Review every N iterations in build loops
-  reviewDepth: 'shallow' | 'standard' | 'deep' | 'comprehensive';
+  reviewDepth: ReviewDepth;
   stuckThreshold: number; // Same error count before flagging stuck
   maxRevisions: number; // Max BUILD→REVIEW→REVISE cycles before stopping
+  recoveryLadder: RecoveryStep[]; // Tried in order on a stuck loop before it needs intervention
 
   // Per-loop review settings
   checkpointReviewInterval: number | null; // Iterations between checkpoint reviews (null = disabled)
@@ -167,6 +196,7 @@ const EFFORT_CONFIGS: Record<EffortLevel, EffortConfig> = {
     reviewDepth: 'shallow',
     stuckThreshold: 5,
     maxRevisions: 10,
+    recoveryLadder: ['fresh_worktree'],
     checkpointReviewInterval: null, // No checkpoint reviews
     maxRevisionAttempts: 2,
     // Cost limits effectively disabled for development
@@ -189,6 +219,7 @@ const EFFORT_CONFIGS: Record<EffortLevel, EffortConfig> = {
     reviewDepth: 'standard',
     stuckThreshold: 4,
     maxRevisions: 8,
+    recoveryLadder: ['diagnose', 'fresh_worktree'],
     checkpointReviewInterval: 5, // Every 5 iterations
     maxRevisionAttempts: 3,
     costLimits: { perLoopMaxUsd: 1000, perPhaseMaxUsd: 1000, perRunMaxUsd: 10000 },
@@ -210,6 +241,7 @@ const EFFORT_CONFIGS: Record<EffortLevel, EffortConfig> = {
     reviewDepth: 'deep',
     stuckThreshold: 3,
     maxRevisions: 5,
+    recoveryLadder: ['diagnose', 'split_task', 'fresh_worktree'],
     checkpointReviewInterval: 3, // Every 3 iterations
     maxRevisionAttempts: 4,
     costLimits: { perLoopMaxUsd: 1000, perPhaseMaxUsd: 1000, perRunMaxUsd: 10000 },
@@ -231,6 +263,7 @@ const EFFORT_CONFIGS: Record<EffortLevel, EffortConfig> = {
     reviewDepth: 'comprehensive',
     stuckThreshold: 2,
     maxRevisions: 3,
+    recoveryLadder: ['diagnose', 'split_task', 'fresh_worktree'],
     checkpointReviewInterval: 1, // Every iteration
     maxRevisionAttempts: 5,
     costLimits: { perLoopMaxUsd: 1000, perPhaseMaxUsd: 1000, perRunMaxUsd: 10000 },
@@ -266,9 +299,12 @@ export function presetToEffortConfig(preset: PresetConfig): EffortConfig {
       perLoopMaxUsd: preset.costs.perLoop,
       perPhaseMaxUsd: preset.costs.perPhase,
       perRunMaxUsd: preset.costs.perRun,
+      softLimitRatio: preset.costs.softLimit,
+      downgradeAtSoftLimit: preset.costs.downgradeAtSoftLimit,
     },
     models: preset.models,
     stuckThreshold: preset.stuck.threshold,
     maxRevisions: preset.stuck.maxRevisions,
+    recoveryLadder: preset.stuck.recovery,
   };
 }
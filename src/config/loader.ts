@@ -1,8 +1,12 @@
 import { existsSync, readFileSync } from 'node:fs';
 import { join } from 'node:path';
 import { parse as parseYaml } from 'yaml';
+import type { TaskRule, VerifyConfig } from '../types/index.js';
 import { DEFAULT_PRESETS } from './effort.js';
-import { type ConfigFile, ConfigSchema, type PresetConfig } from './schema.js';
+import { type BudgetConfig, type ConfigFile, ConfigSchema, type PresetConfig } from './schema.js';
+
+/** Used when ralphs.yaml has no `verify` section: nothing is run */
+export const DEFAULT_VERIFY_CONFIG: VerifyConfig = { commands: [], timeoutSeconds: 600 };
 
 /**
  * Load configuration from a YAML file or return built-in defaults.
@@ -58,3 +62,24 @@ export function getPreset(config: ConfigFile, name: string): PresetConfig {
   }
   return preset;
 }
+
+/**
+ * Get the verify commands from the config. No `verify` section means no commands.
+ */
+export function getVerifyConfig(config: ConfigFile): VerifyConfig {
+  return config.verify ?? DEFAULT_VERIFY_CONFIG;
+}
+
+/**
+ * Get the per-task override rules from the config's `tasks` section.
+ */
+export function getTaskRules(config: ConfigFile): TaskRule[] {
+  return config.tasks ?? [];
+}
+
+/**
+ * Get the cross-run budget from the config. No `budget` section means no limits.
+ */
+export function getBudgetConfig(config: ConfigFile): BudgetConfig | null {
+  return config.budget ?? null;
+}
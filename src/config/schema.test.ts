@@ -150,6 +150,37 @@ describe('Config Schema', () => {
       const result = PresetSchema.safeParse(preset);
       assert.strictEqual(result.success, false);
     });
+
+    it('accepts a soft limit strictly between 0 and 1', () => {
+      const preset = {
+        reviews: {
+          afterAnalyze: false,
+          afterEnumerate: false,
+          afterPlan: true,
+          interval: 5,
+          depth: 'standard',
+          checkpointInterval: 5,
+          maxRevisionAttempts: 3,
+        },
+        costs: { perLoop: 10, perPhase: 50, perRun: 100, softLimit: 0.8 },
+        models: {
+          analyze: 'sonnet',
+          enumerate: 'sonnet',
+          plan: 'sonnet',
+          build: 'opus',
+          review: 'sonnet',
+          revise: 'sonnet',
+          conflict: 'sonnet',
+        },
+        stuck: { threshold: 4, maxRevisions: 8 },
+      };
+
+      assert.strictEqual(PresetSchema.safeParse(preset).success, true);
+      for (const softLimit of [0, 1, 1.5]) {
+        const invalid = { ...preset, costs: { ...preset.costs, softLimit } };
+        assert.strictEqual(PresetSchema.safeParse(invalid).success, false);
+      }
+    });
   });
 
   describe('ConfigSchema', () => {
@@ -213,5 +244,71 @@ describe('Config Schema', () => {
       const result = ConfigSchema.safeParse(config);
       assert.strictEqual(result.success, false);
     });
+
+    it('accepts an optional verify section with a default timeout', () => {
+      assert.strictEqual(ConfigSchema.parse({ presets: {} }).verify, undefined);
+      assert.deepStrictEqual(
+        ConfigSchema.parse({ presets: {}, verify: { commands: ['npm test'] } }).verify,
+        { commands: ['npm test'], timeoutSeconds: 600 }
+      );
+      assert.strictEqual(
+        ConfigSchema.safeParse({ presets: {}, verify: { commands: [''] } }).success,
+        false
+      );
+    });
+
+    it('accepts a budget section scoped to the repository and refusing by default', () => {
+      assert.deepStrictEqual(ConfigSchema.parse({ presets: {}, budget: { daily: 50 } }).budget, {
+        daily: 50,
+        scope: 'repository',
+        onExhausted: 'refuse',
+        overdraftRatio: 0.1,
+      });
+      assert.strictEqual(
+        ConfigSchema.safeParse({ presets: {}, budget: { monthly: -1 } }).success,
+        false
+      );
+      assert.strictEqual(
+        ConfigSchema.safeParse({ presets: {}, budget: { onExhausted: 'ignore' } }).success,
+        false
+      );
+    });
+
+    it('accepts after-merge commands on their own and defaults to reverting', () => {
+      assert.deepStrictEqual(
+        ConfigSchema.parse({ presets: {}, verify: { afterMerge: { commands: ['npm test'] } } })
+          .verify,
+        {
+          commands: [],
+          timeoutSeconds: 600,
+          afterMerge: { commands: ['npm test'], onFailure: 'revert' },
+        }
+      );
+      assert.strictEqual(
+        ConfigSchema.safeParse({
+          presets: {},
+          verify: { afterMerge: { commands: ['npm test'], onFailure: 'ignore' } },
+        }).success,
+        false
+      );
+    });
+
+    it('accepts task rules and rejects invalid match patterns', () => {
+      assert.deepStrictEqual(
+        ConfigSchema.parse({
+          presets: {},
+          tasks: [{ match: '^docs-', model: 'haiku', reviewDepth: 'shallow' }],
+        }).tasks,
+        [{ match: '^docs-', model: 'haiku', reviewDepth: 'shallow' }]
+      );
+      assert.strictEqual(
+        ConfigSchema.safeParse({ presets: {}, tasks: [{ match: '(unclosed' }] }).success,
+        false
+      );
+      assert.strictEqual(
+        ConfigSchema.safeParse({ presets: {}, tasks: [{ match: 'x', maxIterations: 0 }] }).success,
+        false
+      );
+    });
   });
 });
@@ -2,6 +2,12 @@ import { z } from 'zod';
 
 export const ModelTierSchema = z.enum(['haiku', 'sonnet', 'opus']);
 export const ReviewDepthSchema = z.enum(['shallow', 'standard', 'deep', 'comprehensive']);
+export const RecoveryStepSchema = z.enum([
+  'escalate_model',
+  'diagnose',
+  'split_task',
+  'fresh_worktree',
+]);
 
 export const PresetSchema = z.object({
   reviews: z.object({
@@ -17,6 +23,10 @@ export const PresetSchema = z.object({
     perLoop: z.number().positive(),
     perPhase: z.number().positive(),
     perRun: z.number().positive(),
+    // Fraction of each limit (e.g. 0.8) at which BUILD warns and winds down
+    softLimit: z.number().gt(0).lt(1).optional(),
+    // Also move loops one model tier down once a soft limit is reached
+    downgradeAtSoftLimit: z.boolean().optional(),
   }),
   models: z.object({
     analyze: ModelTierSchema,
@@ -30,12 +40,66 @@ export const PresetSchema = z.object({
   stuck: z.object({
     threshold: z.number().int().positive(),
     maxRevisions: z.number().int().positive(),
+    recovery: z.array(RecoveryStepSchema).default([]),
   }),
 });
 
+export const TaskRuleSchema = z.object({
+  match: z
+    .string()
+    .min(1)
+    .refine(
+      (pattern) => {
+        try {
+          new RegExp(pattern);
+          return true;
+        } catch {
+          return false;
+        }
+      },
+      { message: 'Invalid regular expression' }
+    ),
+  model: ModelTierSchema.optional(),
+  maxIterations: z.number().int().positive().optional(),
+  reviewDepth: ReviewDepthSchema.optional(),
+});
+
+/** YAML front-matter at the top of a spec file */
+export const SpecFrontMatterSchema = z.object({
+  tasks: z.array(TaskRuleSchema).default([]),
+});
+
+export const AfterMergeVerifySchema = z.object({
+  commands: z.array(z.string().min(1)),
+  onFailure: z.enum(['revert', 'fix']).default('revert'),
+});
+
+export const VerifySchema = z.object({
+  commands: z.array(z.string().min(1)).default([]),
+  timeoutSeconds: z.number().int().positive().default(600),
+  afterMerge: AfterMergeVerifySchema.optional(),
+});
+
+/** Spend limits across runs, tracked in the ledger under the user's config directory */
+export const BudgetSchema = z.object({
+  daily: z.number().positive().optional(),
+  weekly: z.number().positive().optional(),
+  monthly: z.number().positive().optional(),
+  // Count the spend of this repository's runs only, or of every run by this user
+  scope: z.enum(['repository', 'user']).default('repository'),
+  // Once a budget is spent, refuse new runs or run them with the cheapest model
+  onExhausted: z.enum(['refuse', 'downgrade']).default('refuse'),
+  // Share of each budget that downgraded runs may spend past it before runs are refused
+  overdraftRatio: z.number().min(0).default(0.1),
+});
+
 export const ConfigSchema = z.object({
   presets: z.record(z.string(), PresetSchema),
+  verify: VerifySchema.optional(),
+  tasks: z.array(TaskRuleSchema).optional(),
+  budget: BudgetSchema.optional(),
 });
 
 export type ConfigFile = z.infer<typeof ConfigSchema>;
 export type PresetConfig = z.infer<typeof PresetSchema>;
+export type BudgetConfig = z.infer<typeof BudgetSchema>;
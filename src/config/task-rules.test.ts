@@ -0,0 +1,80 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import type { Task } from '../types/index.js';
+import {
+  parseSpecTaskRules,
+  resolveLoopMaxIterations,
+  resolveTaskOverrides,
+} from './task-rules.js';
+
+function createTask(id: string, title: string, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    title,
+    description: '',
+    status: 'pending',
+    dependencies: [],
+    estimatedIterations: 5,
+    assignedLoopId: null,
+    ...overrides,
+  };
+}
+
+describe('Task Rules', () => {
+  describe('parseSpecTaskRules', () => {
+    it('reads task rules from the front-matter', () => {
+      const spec = [
+        '---',
+        'tasks:',
+        '  - match: "^docs-"',
+        '    model: haiku',
+        '  - match: parser',
+        '    maxIterations: 40',
+        '    reviewDepth: comprehensive',
+        '---',
+        '# Spec',
+      ].join('\n');
+
+      assert.deepStrictEqual(parseSpecTaskRules(spec), [
+        { match: '^docs-', model: 'haiku' },
+        { match: 'parser', maxIterations: 40, reviewDepth: 'comprehensive' },
+      ]);
+    });
+
+    it('returns no rules for a spec without front-matter or without tasks', () => {
+      assert.deepStrictEqual(parseSpecTaskRules('# Spec\n\n---\ntasks: []\n---\n'), []);
+      assert.deepStrictEqual(parseSpecTaskRules('---\ntitle: Spec\n---\n# Spec'), []);
+    });
+
+    it('throws on invalid rules', () => {
+      assert.throws(() => parseSpecTaskRules('---\ntasks:\n  - match: x\n    model: gpt\n---\n'));
+    });
+  });
+
+  describe('resolveTaskOverrides', () => {
+    it('starts from the model hint and lets later matching rules win', () => {
+      const task = createTask('docs-readme', 'Update README', { model: 'sonnet' });
+      const rules = [
+        { match: '^DOCS-', model: 'haiku' as const, maxIterations: 5 },
+        { match: 'readme', maxIterations: 8 },
+        { match: 'parser', model: 'opus' as const },
+      ];
+
+      assert.deepStrictEqual(resolveTaskOverrides(task, rules), {
+        model: 'haiku',
+        maxIterations: 8,
+      });
+      assert.deepStrictEqual(resolveTaskOverrides(task, []), { model: 'sonnet' });
+    });
+  });
+
+  describe('resolveLoopMaxIterations', () => {
+    it('adds up the per-task limits of a chain', () => {
+      const tasks = [createTask('task-1', 'Parser'), createTask('task-2', 'Docs')];
+      const rules = [{ match: 'parser', maxIterations: 40 }];
+
+      assert.strictEqual(resolveLoopMaxIterations(tasks, rules, 20), 60);
+      assert.strictEqual(resolveLoopMaxIterations(tasks, [], 20), 40);
+    });
+  });
+});
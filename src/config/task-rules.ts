@@ -0,0 +1,55 @@
+import { readFileSync } from 'node:fs';
+import { parse as parseYaml } from 'yaml';
+import type { Task, TaskOverrides, TaskRule } from '../types/index.js';
+import { SpecFrontMatterSchema } from './schema.js';
+
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/;
+
+/**
+ * Parse the task rules from a spec's YAML front-matter. A spec without
+ * front-matter has no rules.
+ * @throws ZodError if the front-matter is not a valid rule set
+ */
+export function parseSpecTaskRules(content: string): TaskRule[] {
+  const match = content.match(FRONT_MATTER_PATTERN);
+  if (!match) return [];
+  return SpecFrontMatterSchema.parse(parseYaml(match[1]) ?? {}).tasks;
+}
+
+/**
+ * Read the task rules from a spec file's front-matter.
+ */
+export function loadSpecTaskRules(specPath: string): TaskRule[] {
+  return parseSpecTaskRules(readFileSync(specPath, 'utf-8'));
+}
+
+/**
+ * Overrides for a task: its write_task model hint, then every rule whose
+ * pattern matches the task ID or title, in order, so later rules win.
+ */
+export function resolveTaskOverrides(task: Task, rules: TaskRule[]): TaskOverrides {
+  const overrides: TaskOverrides = task.model ? { model: task.model } : {};
+  for (const { match, ...ruleOverrides } of rules) {
+    const pattern = new RegExp(match, 'i');
+    if (!pattern.test(task.id) && !pattern.test(task.title)) continue;
+    for (const [key, value] of Object.entries(ruleOverrides)) {
+      if (value !== undefined) Object.assign(overrides, { [key]: value });
+    }
+  }
+  return overrides;
+}
+
+/**
+ * Iteration limit for a loop over the given tasks: each task contributes its
+ * maxIterations override, or `perTaskDefault` without one.
+ */
+export function resolveLoopMaxIterations(
+  tasks: Task[],
+  rules: TaskRule[],
+  perTaskDefault: number
+): number {
+  return tasks.reduce(
+    (sum, task) => sum + (resolveTaskOverrides(task, rules).maxIterations ?? perTaskDefault),
+    0
+  );
+}
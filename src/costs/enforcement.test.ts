@@ -6,7 +6,9 @@ import {
   checkLoopCostLimit,
   checkPhaseCostLimit,
   checkRunCostLimit,
+  checkSoftCostLimits,
   formatCostExceededError,
+  formatSoftLimitWarning,
 } from './enforcement.js';
 
 describe('cost enforcement', () => {
@@ -190,4 +192,38 @@ describe('cost enforcement', () => {
       assert.strictEqual(msg, "Loop 'loop-abc123' cost limit exceeded: $1.10 > $1.00");
     });
   });
+
+  describe('checkSoftCostLimits', () => {
+    it('returns nothing without a soft limit ratio', () => {
+      const costs: CostTracking = { ...defaultCosts, totalCostUsd: 4.99 };
+      assert.deepStrictEqual(checkSoftCostLimits(costs, defaultLimits, 'build'), []);
+    });
+
+    it('returns each limit whose cost reached its soft threshold', () => {
+      const costs: CostTracking = {
+        ...defaultCosts,
+        totalCostUsd: 3.9,
+        phaseCosts: { ...defaultCosts.phaseCosts, build: 1.6 },
+        loopCosts: { 'loop-1': 0.5, 'loop-2': 0.8 },
+      };
+      const reached = checkSoftCostLimits(
+        costs,
+        { ...defaultLimits, softLimitRatio: 0.8 },
+        'build',
+        ['loop-1', 'loop-2']
+      );
+
+      assert.deepStrictEqual(
+        reached.map((r) => [r.type, r.phase ?? r.loopId]),
+        [
+          ['phase', 'build'],
+          ['loop', 'loop-2'],
+        ]
+      );
+      assert.strictEqual(
+        formatSoftLimitWarning(reached[0]),
+        "Phase 'build' cost $1.60 reached 80% of its $2.00 limit"
+      );
+    });
+  });
 });
@@ -120,3 +120,67 @@ export function formatCostExceededError(result: CostExceededResult): string {
       return `Loop '${result.loopId}' cost limit exceeded: ${current} > ${limit}`;
   }
 }
+
+export interface SoftLimitReached {
+  type: CostLimitType;
+  current: number;
+  threshold: number;
+  limit: number;
+  loopId?: string;
+  phase?: Phase;
+}
+
+/**
+ * Soft thresholds the costs have reached: the run, the given phase and the
+ * given loops, each at `softLimitRatio` of its hard limit. Without a ratio,
+ * there are no soft limits.
+ */
+export function checkSoftCostLimits(
+  costs: CostTracking,
+  limits: CostLimits,
+  currentPhase?: Phase,
+  activeLoopIds: string[] = []
+): SoftLimitReached[] {
+  const ratio = limits.softLimitRatio;
+  if (ratio === undefined) return [];
+
+  const reached: SoftLimitReached[] = [];
+  const check = (
+    type: CostLimitType,
+    current: number,
+    limit: number,
+    scope: Pick<SoftLimitReached, 'loopId' | 'phase'> = {}
+  ) => {
+    const threshold = limit * ratio;
+    if (current >= threshold) reached.push({ type, current, threshold, limit, ...scope });
+  };
+
+  check('run', costs.totalCostUsd, limits.perRunMaxUsd);
+  if (currentPhase) {
+    check('phase', costs.phaseCosts[currentPhase] ?? 0, limits.perPhaseMaxUsd, {
+      phase: currentPhase,
+    });
+  }
+  for (const loopId of activeLoopIds) {
+    check('loop', costs.loopCosts[loopId] ?? 0, limits.perLoopMaxUsd, { loopId });
+  }
+  return reached;
+}
+
+/**
+ * Format a reached soft limit into a human-readable warning.
+ */
+export function formatSoftLimitWarning(result: SoftLimitReached): string {
+  const current = `$${result.current.toFixed(2)}`;
+  const limit = `$${result.limit.toFixed(2)}`;
+  const percent = Math.round((result.threshold / result.limit) * 100);
+
+  switch (result.type) {
+    case 'run':
+      return `Run cost ${current} reached ${percent}% of its ${limit} limit`;
+    case 'phase':
+      return `Phase '${result.phase}' cost ${current} reached ${percent}% of its ${limit} limit`;
+    case 'loop':
+      return `Loop '${result.loopId}' cost ${current} reached ${percent}% of its ${limit} limit`;
+  }
+}
@@ -4,8 +4,27 @@ export {
   checkLoopCostLimit,
   checkAllCostLimits,
   formatCostExceededError,
+  checkSoftCostLimits,
+  formatSoftLimitWarning,
   type CostCheckResult,
   type CostExceededResult,
   type CostWithinLimitResult,
   type CostLimitType,
+  type SoftLimitReached,
 } from './enforcement.js';
+export {
+  BUDGET_PERIODS,
+  capRunLimitToBudget,
+  checkBudget,
+  closeLedger,
+  formatBudgetStatus,
+  getExhaustedBudgets,
+  getLedgerPath,
+  getPeriodStart,
+  getRepositoryKey,
+  openLedger,
+  recordRunSpend,
+  withOverdraft,
+  type BudgetPeriod,
+  type BudgetStatus,
+} from './ledger.js';
@@ -0,0 +1,149 @@
+import assert from 'node:assert';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import type { CostLimits } from '../types/index.js';
+import {
+  capRunLimitToBudget,
+  checkBudget,
+  closeLedger,
+  getExhaustedBudgets,
+  getPeriodStart,
+  openLedger,
+  recordRunSpend,
+  withOverdraft,
+} from './ledger.js';
+
+describe('Cost Ledger', () => {
+  let tempDir: string;
+  let ledgerPath: string;
+  // A Wednesday afternoon, local time
+  const now = new Date(2026, 2, 18, 15, 30);
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'sq-ledger-test-'));
+    ledgerPath = join(tempDir, 'config', 'ralphs', 'ledger.db');
+  });
+
+  afterEach(() => {
+    closeLedger();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('getPeriodStart', () => {
+    it('starts days at midnight, weeks on Monday and months on the first', () => {
+      assert.deepStrictEqual(getPeriodStart('daily', now), new Date(2026, 2, 18));
+      assert.deepStrictEqual(getPeriodStart('weekly', now), new Date(2026, 2, 16));
+      assert.deepStrictEqual(getPeriodStart('monthly', now), new Date(2026, 2, 1));
+      assert.deepStrictEqual(
+        getPeriodStart('weekly', new Date(2026, 2, 22)),
+        new Date(2026, 2, 16)
+      );
+    });
+  });
+
+  describe('recordRunSpend', () => {
+    it('records only the spend since the last record, in the period it happened', () => {
+      openLedger(ledgerPath, '/repo/a');
+      recordRunSpend('run-1', 4, new Date(2026, 2, 10));
+      recordRunSpend('run-1', 10, now);
+      recordRunSpend('run-1', 10, now);
+
+      assert.deepStrictEqual(
+        checkBudget(
+          {
+            daily: 20,
+            monthly: 50,
+            scope: 'repository',
+            onExhausted: 'refuse',
+            overdraftRatio: 0.1,
+          },
+          now
+        ),
+        [
+          { period: 'daily', limitUsd: 20, spentUsd: 6, remainingUsd: 14 },
+          { period: 'monthly', limitUsd: 50, spentUsd: 10, remainingUsd: 40 },
+        ]
+      );
+    });
+
+    it('does nothing without an open ledger', () => {
+      recordRunSpend('run-1', 10, now);
+
+      assert.deepStrictEqual(
+        checkBudget(
+          { daily: 20, scope: 'repository', onExhausted: 'refuse', overdraftRatio: 0.1 },
+          now
+        ),
+        []
+      );
+    });
+  });
+
+  describe('checkBudget', () => {
+    it('counts other repositories only for a user-wide budget', () => {
+      openLedger(ledgerPath, '/repo/a');
+      recordRunSpend('run-a', 8, now);
+      openLedger(ledgerPath, '/repo/b');
+      recordRunSpend('run-b', 5, now);
+
+      const repository = checkBudget(
+        { weekly: 10, scope: 'repository', onExhausted: 'refuse', overdraftRatio: 0.1 },
+        now
+      );
+      const user = checkBudget(
+        { weekly: 10, scope: 'user', onExhausted: 'refuse', overdraftRatio: 0.1 },
+        now
+      );
+
+      assert.strictEqual(repository[0].spentUsd, 5);
+      assert.deepStrictEqual(getExhaustedBudgets(repository), []);
+      assert.strictEqual(user[0].spentUsd, 13);
+      assert.deepStrictEqual(
+        getExhaustedBudgets(user).map((status) => status.period),
+        ['weekly']
+      );
+    });
+  });
+
+  describe('capRunLimitToBudget', () => {
+    const limits: CostLimits = { perLoopMaxUsd: 5, perPhaseMaxUsd: 20, perRunMaxUsd: 30 };
+
+    it('lowers the run limit to what the tightest budget has left', () => {
+      const capped = capRunLimitToBudget(limits, 2, [
+        { period: 'daily', limitUsd: 20, spentUsd: 12, remainingUsd: 8 },
+        { period: 'monthly', limitUsd: 500, spentUsd: 100, remainingUsd: 400 },
+      ]);
+
+      assert.strictEqual(capped.perRunMaxUsd, 10);
+      assert.strictEqual(capRunLimitToBudget(limits, 2, []), limits);
+    });
+  });
+
+  describe('withOverdraft', () => {
+    it('raises each limit by the overdraft so a downgraded run stays bounded', () => {
+      const statuses = withOverdraft(
+        [
+          { period: 'daily', limitUsd: 20, spentUsd: 21, remainingUsd: 0 },
+          { period: 'monthly', limitUsd: 500, spentUsd: 600, remainingUsd: 0 },
+        ],
+        0.1
+      );
+
+      assert.deepStrictEqual(
+        statuses.map((status) => [status.period, status.remainingUsd]),
+        [
+          ['daily', 1],
+          ['monthly', 0],
+        ]
+      );
+      assert.deepStrictEqual(
+        getExhaustedBudgets(statuses).map((status) => status.period),
+        ['monthly']
+      );
+      const limits: CostLimits = { perLoopMaxUsd: 5, perPhaseMaxUsd: 20, perRunMaxUsd: 30 };
+      assert.strictEqual(capRunLimitToBudget(limits, 0, statuses.slice(0, 1)).perRunMaxUsd, 1);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { execSync } from 'node:child_process';
+import { mkdirSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+import Database from 'better-sqlite3';
+import type { BudgetConfig } from '../config/schema.js';
+import type { CostLimits } from '../types/index.js';
+
+const LEDGER_SCHEMA = `
+CREATE TABLE IF NOT EXISTS spend (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  run_id TEXT NOT NULL,
+  repository TEXT NOT NULL,
+  cost_usd REAL NOT NULL,
+  recorded_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_spend_run ON spend(run_id);
+CREATE INDEX IF NOT EXISTS idx_spend_recorded ON spend(recorded_at);
+`;
+
+/** Spend below this is rounding noise between the run total and the ledger */
+const MIN_RECORDED_USD = 0.000001;
+
+export type BudgetPeriod = 'daily' | 'weekly' | 'monthly';
+
+export const BUDGET_PERIODS: BudgetPeriod[] = ['daily', 'weekly', 'monthly'];
+
+export interface BudgetStatus {
+  period: BudgetPeriod;
+  limitUsd: number;
+  spentUsd: number;
+  remainingUsd: number;
+}
+
+interface Ledger {
+  db: Database.Database;
+  repository: string;
+}
+
+let ledger: Ledger | null = null;
+
+/**
+ * Where the ledger lives: `ralphs/ledger.db` under `$XDG_CONFIG_HOME`, or
+ * `~/.config` when it is not set. One ledger holds the runs of every repository.
+ */
+export function getLedgerPath(): string {
+  const configHome = process.env.XDG_CONFIG_HOME || join(homedir(), '.config');
+  return join(configHome, 'ralphs', 'ledger.db');
+}
+
+/**
+ * Identify a repository by its git top-level directory, or by the directory
+ * itself outside git.
+ */
+export function getRepositoryKey(cwd: string = process.cwd()): string {
+  try {
+    return execSync('git rev-parse --show-toplevel', {
+      cwd,
+      stdio: 'pipe',
+      encoding: 'utf-8',
+    }).trim();
+  } catch {
+    return cwd;
+  }
+}
+
+/**
+ * Open the ledger for this process. Spend recorded afterwards is attributed
+ * to the given repository.
+ */
+export function openLedger(path: string, repository: string): void {
+  closeLedger();
+  mkdirSync(dirname(path), { recursive: true });
+  const db = new Database(path);
+  db.pragma('journal_mode = WAL');
+  // Runs in other repositories may be writing at the same time
+  db.pragma('busy_timeout = 5000');
+  db.exec(LEDGER_SCHEMA);
+  ledger = { db, repository };
+}
+
+export function closeLedger(): void {
+  if (ledger) {
+    ledger.db.close();
+    ledger = null;
+  }
+}
+
+/**
+ * Bring the ledger up to a run's total cost. Only the spend since the last
+ * record is added, stamped with the current time, so each amount counts
+ * toward the period it was spent in. Does nothing when no ledger is open.
+ */
+export function recordRunSpend(runId: string, totalCostUsd: number, now = new Date()): void {
+  if (!ledger) return;
+  const { recorded } = ledger.db
+    .prepare('SELECT COALESCE(SUM(cost_usd), 0) AS recorded FROM spend WHERE run_id = ?')
+    .get(runId) as { recorded: number };
+  const spentUsd = totalCostUsd - recorded;
+  if (spentUsd < MIN_RECORDED_USD) return;
+
+  ledger.db
+    .prepare('INSERT INTO spend (run_id, repository, cost_usd, recorded_at) VALUES (?, ?, ?, ?)')
+    .run(runId, ledger.repository, spentUsd, now.toISOString());
+}
+
+/**
+ * Start of the period containing `now`, in local time. Weeks start on Monday.
+ */
+export function getPeriodStart(period: BudgetPeriod, now: Date): Date {
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  if (period === 'weekly') {
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  } else if (period === 'monthly') {
+    start.setDate(1);
+  }
+  return start;
+}
+
+/**
+ * Spend and remaining amount of each budget period that has a limit.
+ * Returns nothing when no ledger is open.
+ */
+export function checkBudget(budget: BudgetConfig, now = new Date()): BudgetStatus[] {
+  if (!ledger) return [];
+  const { db, repository } = ledger;
+
+  const statuses: BudgetStatus[] = [];
+  for (const period of BUDGET_PERIODS) {
+    const limitUsd = budget[period];
+    if (limitUsd === undefined) continue;
+
+    const since = getPeriodStart(period, now).toISOString();
+    const { spent } = (
+      budget.scope === 'user'
+        ? db
+            .prepare('SELECT COALESCE(SUM(cost_usd), 0) AS spent FROM spend WHERE recorded_at >= ?')
+            .get(since)
+        : db
+            .prepare(
+              'SELECT COALESCE(SUM(cost_usd), 0) AS spent FROM spend WHERE recorded_at >= ? AND repository = ?'
+            )
+            .get(since, repository)
+    ) as { spent: number };
+    statuses.push({
+      period,
+      limitUsd,
+      spentUsd: spent,
+      remainingUsd: Math.max(0, limitUsd - spent),
+    });
+  }
+  return statuses;
+}
+
+/**
+ * The budget periods with nothing left to spend.
+ */
+export function getExhaustedBudgets(statuses: BudgetStatus[]): BudgetStatus[] {
+  return statuses.filter((status) => status.remainingUsd <= 0);
+}
+
+/**
+ * The budgets as a downgraded run sees them: each limit is raised by
+ * `overdraftRatio` of itself, so cheap-model runs past an exhausted budget
+ * still stop at a bounded amount.
+ */
+export function withOverdraft(statuses: BudgetStatus[], overdraftRatio: number): BudgetStatus[] {
+  return statuses.map((status) => {
+    const limitUsd = status.limitUsd * (1 + overdraftRatio);
+    return { ...status, limitUsd, remainingUsd: Math.max(0, limitUsd - status.spentUsd) };
+  });
+}
+
+/**
+ * Lower the per-run limit so this run cannot spend more than any budget has
+ * left. `runCostUsd` is what the run has already spent, which counts toward
+ * both the run limit and the budgets.
+ */
+export function capRunLimitToBudget(
+  limits: CostLimits,
+  runCostUsd: number,
+  statuses: BudgetStatus[]
+): CostLimits {
+  if (statuses.length === 0) return limits;
+  const remainingUsd = Math.min(...statuses.map((status) => status.remainingUsd));
+  return { ...limits, perRunMaxUsd: Math.min(limits.perRunMaxUsd, runCostUsd + remainingUsd) };
+}
+
+export function formatBudgetStatus(status: BudgetStatus): string {
+  return `${status.period} budget: $${status.spentUsd.toFixed(2)} of $${status.limitUsd.toFixed(2)} spent`;
+}
@@ -3,7 +3,13 @@ import { mkdtempSync, rmSync } from 'node:fs';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 import { afterEach, beforeEach, describe, it } from 'node:test';
-import { pruneContext, readContextFromDb, writeContextToDb } from './context.js';
+import {
+  markHintsConsumedInDb,
+  pruneContext,
+  readContextFromDb,
+  readPendingHintsFromDb,
+  writeContextToDb,
+} from './context.js';
 import { closeDatabase, createDatabase, getDatabase } from './index.js';
 
 describe('Context DB Helpers', () => {
@@ -249,4 +255,39 @@ describe('Context DB Helpers', () => {
       assert.strictEqual(analysis.total, 1);
     });
   });
+
+  describe('operator hints', () => {
+    it('returns undelivered hints for the loop or its tasks', () => {
+      const db = getDatabase();
+      writeContextToDb(db, { runId, type: 'hint', content: 'for loop', loopId: 'loop-1' });
+      writeContextToDb(db, { runId, type: 'hint', content: 'for task', taskId: 'task-1' });
+      writeContextToDb(db, {
+        runId,
+        type: 'hint',
+        content: 'for stuck predecessor',
+        loopId: 'loop-0',
+        taskId: 'task-1',
+      });
+      writeContextToDb(db, { runId, type: 'hint', content: 'other task', taskId: 'task-2' });
+
+      const hints = readPendingHintsFromDb(db, runId, 'loop-1', ['task-1']);
+
+      assert.deepStrictEqual(
+        hints.map((h) => h.content),
+        ['for loop', 'for task', 'for stuck predecessor']
+      );
+    });
+
+    it('does not return hints once consumed', () => {
+      const db = getDatabase();
+      writeContextToDb(db, { runId, type: 'hint', content: 'use vitest', loopId: 'loop-1' });
+      const [hint] = readPendingHintsFromDb(db, runId, 'loop-1', []);
+
+      markHintsConsumedInDb(db, [hint.id]);
+
+      assert.deepStrictEqual(readPendingHintsFromDb(db, runId, 'loop-1', []), []);
+      const { entries } = readContextFromDb(db, { runId, types: ['hint'] });
+      assert.ok(entries[0].consumed_at);
+    });
+  });
 });
@@ -2,7 +2,15 @@ import type { Database } from 'better-sqlite3';
 
 export interface WriteContextOptions {
   runId: string;
-  type: 'discovery' | 'error' | 'decision' | 'review_issue' | 'scratchpad' | 'codebase_analysis';
+  type:
+    | 'discovery'
+    | 'error'
+    | 'decision'
+    | 'review_issue'
+    | 'scratchpad'
+    | 'codebase_analysis'
+    | 'hint'
+    | 'integration_check';
   content: string;
   taskId?: string;
   loopId?: string;
@@ -49,6 +57,7 @@ export interface ContextEntry {
   file: string | null;
   line: number | null;
   created_at: string;
+  consumed_at: string | null;
 }
 
 export interface ReadContextResult {
@@ -168,3 +177,37 @@ export function pruneContext(db: Database, runId: string, maxPerType = 500): voi
     `).run(runId, type, runId, type, maxPerType);
   }
 }
+
+export interface HintEntry {
+  id: number;
+  content: string;
+  created_at: string;
+}
+
+/**
+ * Operator hints not yet delivered to a loop: those addressed to the loop
+ * itself or to one of its tasks. Matching on task means a hint sent to a
+ * stuck loop still reaches the loop that retries the task.
+ */
+export function readPendingHintsFromDb(
+  db: Database,
+  runId: string,
+  loopId: string,
+  taskIds: string[]
+): HintEntry[] {
+  return db
+    .prepare(`
+    SELECT id, content, created_at FROM context
+    WHERE run_id = ? AND type = 'hint' AND consumed_at IS NULL
+      AND (loop_id = ? OR task_id IN (SELECT value FROM json_each(?)))
+    ORDER BY id
+  `)
+    .all(runId, loopId, JSON.stringify(taskIds)) as HintEntry[];
+}
+
+export function markHintsConsumedInDb(db: Database, hintIds: number[]): void {
+  db.prepare(`
+    UPDATE context SET consumed_at = datetime('now')
+    WHERE id IN (SELECT value FROM json_each(?))
+  `).run(JSON.stringify(hintIds));
+}
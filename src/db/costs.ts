@@ -0,0 +1,159 @@
+import type { Database } from 'better-sqlite3';
+import type { TokenUsage } from '../types/index.js';
+
+export interface RunCostRow {
+  id: string;
+  total_cost_usd: number;
+}
+
+/**
+ * The run with the given ID, or the most recently updated run.
+ */
+export function getRunCostFromDb(db: Database, runId?: string): RunCostRow | undefined {
+  return (
+    runId
+      ? db.prepare('SELECT id, total_cost_usd FROM runs WHERE id = ?').get(runId)
+      : db.prepare('SELECT id, total_cost_usd FROM runs ORDER BY updated_at DESC LIMIT 1').get()
+  ) as RunCostRow | undefined;
+}
+
+/**
+ * Cost per phase as tracked by the orchestrator, including phases whose
+ * agents reported no token usage.
+ */
+export function getPhaseCostsFromDb(db: Database, runId: string): Record<string, number> {
+  const rows = db
+    .prepare('SELECT phase, cost_usd FROM phase_costs WHERE run_id = ?')
+    .all(runId) as Array<{ phase: string; cost_usd: number }>;
+  return Object.fromEntries(rows.map((row) => [row.phase, row.cost_usd]));
+}
+
+export interface LoopCostRow {
+  id: string;
+  taskIds: string[];
+  costUsd: number;
+  /** Per-loop and checkpoint review calls of the loop */
+  reviewCostUsd: number;
+  /** Recovery agents (diagnosis, task splits) that worked on the loop */
+  revisionCostUsd: number;
+}
+
+/**
+ * Every loop of a run with its total cost and the share of it that went to
+ * reviews and recovery, taken from token usage. The total includes both, since
+ * build iterations add their review costs to the loop's cost.
+ */
+export function getLoopCostsFromDb(db: Database, runId: string): LoopCostRow[] {
+  const rows = db
+    .prepare(`
+    SELECT
+      l.id,
+      l.task_ids,
+      l.cost_usd,
+      COALESCE((SELECT SUM(u.cost_usd) FROM token_usage u
+        WHERE u.run_id = l.run_id AND u.loop_id = l.id AND u.phase = 'review'), 0)
+        AS review_cost_usd,
+      COALESCE((SELECT SUM(u.cost_usd) FROM token_usage u
+        WHERE u.run_id = l.run_id AND u.loop_id = l.id AND u.phase NOT IN ('build', 'review')), 0)
+        AS revision_cost_usd
+    FROM loops l
+    WHERE l.run_id = ?
+    ORDER BY l.created_at, l.id
+  `)
+    .all(runId) as Array<{
+    id: string;
+    task_ids: string;
+    cost_usd: number;
+    review_cost_usd: number;
+    revision_cost_usd: number;
+  }>;
+
+  return rows.map((row) => ({
+    id: row.id,
+    taskIds: JSON.parse(row.task_ids),
+    costUsd: row.cost_usd,
+    reviewCostUsd: row.review_cost_usd,
+    revisionCostUsd: row.revision_cost_usd,
+  }));
+}
+
+export interface TaskCostRow {
+  id: string;
+  title: string;
+  status: string;
+  /** Per-loop reviews recorded for the task */
+  reviews: number;
+}
+
+/**
+ * Every task of a run with how often it was reviewed, in creation order.
+ */
+export function getTaskCostRowsFromDb(db: Database, runId: string): TaskCostRow[] {
+  return db
+    .prepare(`
+    SELECT
+      t.id, t.title, t.status,
+      (SELECT COUNT(*) FROM loop_reviews r WHERE r.run_id = t.run_id AND r.task_id = t.id) AS reviews
+    FROM tasks t
+    WHERE t.run_id = ?
+    ORDER BY t.rowid
+  `)
+    .all(runId) as TaskCostRow[];
+}
+
+export interface ModelUsageRow extends TokenUsage {
+  model: string | null;
+  calls: number;
+  costUsd: number;
+}
+
+/**
+ * Token usage of a run summed per model, most expensive first.
+ */
+export function getModelUsageFromDb(db: Database, runId: string): ModelUsageRow[] {
+  return db
+    .prepare(`
+    SELECT
+      model,
+      COUNT(*) AS calls,
+      SUM(input_tokens) AS inputTokens,
+      SUM(output_tokens) AS outputTokens,
+      SUM(cache_read_tokens) AS cacheReadTokens,
+      SUM(cache_write_tokens) AS cacheWriteTokens,
+      SUM(cost_usd) AS costUsd
+    FROM token_usage
+    WHERE run_id = ?
+    GROUP BY model
+    ORDER BY costUsd DESC
+  `)
+    .all(runId) as ModelUsageRow[];
+}
+
+export interface IterationCostRow {
+  loopId: string;
+  iteration: number;
+  /** Agent calls of the iteration: the build call plus any reviews and recovery */
+  calls: number;
+  costUsd: number;
+}
+
+/**
+ * The most expensive loop iterations of a run, by the cost of all agent calls
+ * made for them.
+ */
+export function getTopIterationsFromDb(
+  db: Database,
+  runId: string,
+  limit: number
+): IterationCostRow[] {
+  return db
+    .prepare(`
+    SELECT loop_id AS loopId, iteration, COUNT(*) AS calls, SUM(cost_usd) AS costUsd
+    FROM token_usage
+    WHERE run_id = ? AND loop_id IS NOT NULL AND iteration IS NOT NULL
+    GROUP BY loop_id, iteration
+    ORDER BY costUsd DESC, MIN(id)
+    LIMIT ?
+  `)
+    .all(runId, limit) as IterationCostRow[];
+}
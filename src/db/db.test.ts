@@ -48,4 +48,49 @@ describe('Database', () => {
     assert.strictEqual(run.effort, 'medium');
     assert.strictEqual(run.phase, 'enumerate');
   });
+
+  test('createDatabase adds columns missing from databases created by older versions', () => {
+    const db = createDatabase(dbPath);
+    db.exec('ALTER TABLE runs DROP COLUMN spec_hash');
+    closeDatabase();
+
+    const reopened = createDatabase(dbPath);
+    const columns = reopened.prepare('PRAGMA table_info(runs)').all() as { name: string }[];
+    assert.ok(columns.some((c) => c.name === 'spec_hash'));
+  });
+
+  test('createDatabase rebuilds tables whose CHECK constraint predates new values', () => {
+    const db = createDatabase(dbPath);
+    db.exec(`
+      DROP TABLE tasks;
+      CREATE TABLE tasks (
+        id TEXT PRIMARY KEY,
+        run_id TEXT NOT NULL REFERENCES runs(id),
+        title TEXT NOT NULL,
+        description TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'in_progress', 'completed', 'failed')),
+        dependencies TEXT NOT NULL DEFAULT '[]',
+        estimated_iterations INTEGER NOT NULL DEFAULT 10,
+        assigned_loop_id TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+    `);
+    db.prepare("INSERT INTO runs (id, spec_path, effort) VALUES ('run-1', 'spec.md', 'low')").run();
+    db.prepare(
+      "INSERT INTO tasks (id, run_id, title, description, status) VALUES ('task-1', 'run-1', 'T', 'D', 'completed')"
+    ).run();
+    closeDatabase();
+
+    const reopened = createDatabase(dbPath);
+    reopened.prepare("UPDATE tasks SET status = 'cancelled' WHERE id = 'task-1'").run();
+
+    const task = reopened.prepare("SELECT * FROM tasks WHERE id = 'task-1'").get() as {
+      title: string;
+      status: string;
+    };
+    assert.strictEqual(task.title, 'T');
+    assert.strictEqual(task.status, 'cancelled');
+    const indexes = reopened.prepare('PRAGMA index_list(tasks)').all() as { name: string }[];
+    assert.ok(indexes.some((i) => i.name === 'idx_tasks_run'));
+  });
 });
@@ -7,7 +7,101 @@ const __dirname = dirname(fileURLToPath(import.meta.url));
 
 let db: Database.Database | null = null;
 
-export function createDatabase(dbPath: string): Database.Database {
+/**
+ * Columns added after a table was first released.
+ * CREATE TABLE IF NOT EXISTS leaves existing tables alone, so state databases
+ * written by older versions get these columns added on open.
+ */
+const COLUMN_MIGRATIONS: Array<{ table: string; column: string; definition: string }> = [
+  { table: 'runs', column: 'spec_hash', definition: 'TEXT' },
+  { table: 'runs', column: 'spec_snapshot', definition: 'TEXT' },
+  { table: 'runs', column: 'drain_requested', definition: 'INTEGER NOT NULL DEFAULT 0' },
+  { table: 'context', column: 'consumed_at', definition: 'TEXT' },
+  { table: 'loops', column: 'last_error_fingerprint', definition: 'TEXT' },
+  { table: 'loops', column: 'error_history', definition: "TEXT NOT NULL DEFAULT '[]'" },
+  { table: 'loops', column: 'recovery_attempts', definition: 'INTEGER NOT NULL DEFAULT 0' },
+  { table: 'loops', column: 'model_tier', definition: 'TEXT' },
+  { table: 'loops', column: 'passed_task_ids', definition: "TEXT NOT NULL DEFAULT '[]'" },
+  { table: 'tasks', column: 'model', definition: 'TEXT' },
+];
+
+function migrateColumns(database: Database.Database): void {
+  for (const { table, column, definition } of COLUMN_MIGRATIONS) {
+    const columns = database.prepare(`PRAGMA table_info(${table})`).all() as Array<{
+      name: string;
+    }>;
+    if (!columns.some((c) => c.name === column)) {
+      database.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+}
+
+/**
+ * CHECK constraints widened after a table was first released, keyed by a value
+ * the current constraint accepts. SQLite cannot alter a CHECK in place, so
+ * tables created without the value are rebuilt from schema.sql.
+ */
+const CHECK_MIGRATIONS: Array<{ table: string; value: string }> = [
+  { table: 'tasks', value: 'cancelled' },
+  { table: 'tasks', value: 'skipped' },
+  { table: 'context', value: 'hint' },
+  { table: 'loops', value: 'paused' },
+  { table: 'context', value: 'integration_check' },
+  { table: 'tasks', value: 'superseded' },
+];
+
+function migrateChecks(database: Database.Database, schema: string): boolean {
+  let rebuilt = false;
+  for (const { table, value } of CHECK_MIGRATIONS) {
+    const row = database
+      .prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?")
+      .get(table) as { sql: string } | undefined;
+    if (!row || row.sql.includes(`'${value}'`)) continue;
+
+    const createMatch = schema.match(
+      new RegExp(`CREATE TABLE IF NOT EXISTS ${table} \\(([\\s\\S]*?)\\n\\);`)
+    );
+    if (!createMatch) {
+      throw new Error(`Table ${table} not found in schema.sql`);
+    }
+    const columns = (
+      database.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>
+    )
+      .map((c) => c.name)
+      .join(', ');
+
+    // Follows SQLite's documented procedure for schema changes: build the new table
+    // under a temporary name, copy, drop, then rename so references by name stay valid
+    database.pragma('foreign_keys = OFF');
+    try {
+      database.transaction(() => {
+        database.exec(`CREATE TABLE ${table}_migrated (${createMatch[1]}\n)`);
+        database.exec(`INSERT INTO ${table}_migrated (${columns}) SELECT ${columns} FROM ${table}`);
+        database.exec(`DROP TABLE ${table}`);
+        database.exec(`ALTER TABLE ${table}_migrated RENAME TO ${table}`);
+      })();
+    } finally {
+      database.pragma('foreign_keys = ON');
+    }
+    rebuilt = true;
+  }
+  return rebuilt;
+}
+
+/**
+ * Open the state database, creating and migrating its schema as needed. A
+ * read-only open skips the schema and migrations entirely so it never writes
+ * to a database another process may be running against.
+ */
+export function createDatabase(
+  dbPath: string,
+  options: { readonly?: boolean } = {}
+): Database.Database {
+  if (options.readonly) {
+    db = new Database(dbPath, { readonly: true, fileMustExist: true });
+    return db;
+  }
+
   db = new Database(dbPath);
   db.pragma('journal_mode = WAL');
   db.pragma('foreign_keys = ON');
@@ -15,6 +109,11 @@ export function createDatabase(dbPath: string): Database.Database {
   // Run schema
   const schema = readFileSync(join(__dirname, 'schema.sql'), 'utf-8');
   db.exec(schema);
+  migrateColumns(db);
+  if (migrateChecks(db, schema)) {
+    // Rebuilt tables lose their indexes; re-running the schema recreates them
+    db.exec(schema);
+  }
 
   return db;
 }
@@ -0,0 +1,150 @@
+import assert from 'node:assert';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import type { Database } from 'better-sqlite3';
+import { LoopManager } from '../loops/manager.js';
+import { syncPausedLoops } from '../orchestrator/phases/build.js';
+import { closeDatabase, createDatabase } from './index.js';
+import {
+  getBuildHistoryFromDb,
+  getLoopStatusesFromDb,
+  pauseLoopInDb,
+  resolveLoopFromDb,
+  resumeLoopInDb,
+} from './loops.js';
+
+describe('Loop controls', () => {
+  let tempDir: string;
+  let db: Database;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'sq-loops-test-'));
+    db = createDatabase(join(tempDir, 'state.db'));
+    db.prepare(
+      "INSERT INTO runs (id, spec_path, effort) VALUES ('run-1', 'spec.md', 'medium')"
+    ).run();
+    for (const [id, status] of [
+      ['loop-a1', 'running'],
+      ['loop-a2', 'completed'],
+      ['loop-b1', 'interrupted'],
+    ]) {
+      db.prepare(`
+        INSERT INTO loops (id, run_id, task_ids, max_iterations, review_interval, status)
+        VALUES (?, 'run-1', '["task-1"]', 20, 5, ?)
+      `).run(id, status);
+    }
+  });
+
+  afterEach(() => {
+    closeDatabase();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('resolveLoopFromDb accepts IDs and unique prefixes', () => {
+    assert.strictEqual(resolveLoopFromDb(db, 'run-1', 'loop-a1').id, 'loop-a1');
+    assert.strictEqual(resolveLoopFromDb(db, 'run-1', 'loop-b').id, 'loop-b1');
+    assert.throws(() => resolveLoopFromDb(db, 'run-1', 'loop-a'), /ambiguous/);
+    assert.throws(() => resolveLoopFromDb(db, 'run-1', 'nope'), /No loop matches/);
+  });
+
+  test('pauseLoopInDb and resumeLoopInDb only change unfinished loops', () => {
+    assert.strictEqual(pauseLoopInDb(db, 'loop-a1'), true);
+    assert.strictEqual(pauseLoopInDb(db, 'loop-a1'), false);
+    assert.strictEqual(pauseLoopInDb(db, 'loop-a2'), false);
+    assert.strictEqual(pauseLoopInDb(db, 'loop-b1'), true);
+
+    assert.strictEqual(resumeLoopInDb(db, 'loop-a1'), true);
+    assert.strictEqual(resumeLoopInDb(db, 'loop-a2'), false);
+
+    const statuses = getLoopStatusesFromDb(db, 'run-1');
+    assert.strictEqual(statuses.get('loop-a1'), 'running');
+    assert.strictEqual(statuses.get('loop-a2'), 'completed');
+    assert.strictEqual(statuses.get('loop-b1'), 'paused');
+  });
+
+  test('syncPausedLoops applies pause and resume requests to the loop manager', async () => {
+    const manager = new LoopManager({ maxLoops: 4, maxIterations: 20, reviewInterval: 5 });
+    for (const loopId of ['loop-a1', 'loop-a2']) {
+      const loop = await manager.createLoop(['task-1'], []);
+      manager.restoreLoop({ ...loop, loopId, status: 'running' });
+    }
+
+    pauseLoopInDb(db, 'loop-a1');
+    const paused = syncPausedLoops('run-1', manager);
+    assert.deepStrictEqual(
+      paused.map((l) => l.loopId),
+      ['loop-a1']
+    );
+    assert.strictEqual(manager.getLoop('loop-a1')?.status, 'paused');
+    assert.deepStrictEqual(
+      manager.getActiveLoops().map((l) => l.loopId),
+      ['loop-a2']
+    );
+
+    resumeLoopInDb(db, 'loop-a1');
+    syncPausedLoops('run-1', manager);
+    assert.strictEqual(manager.getLoop('loop-a1')?.status, 'running');
+  });
+});
+
+describe('getBuildHistoryFromDb', () => {
+  let tempDir: string;
+  let db: Database;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'sq-loops-test-'));
+    db = createDatabase(join(tempDir, 'state.db'));
+    for (const [id, effort, phase] of [
+      ['run-1', 'medium', 'complete'],
+      ['run-2', 'medium', 'build'],
+      ['run-3', 'high', 'complete'],
+      ['current', 'medium', 'plan'],
+    ]) {
+      db.prepare('INSERT INTO runs (id, spec_path, effort, phase) VALUES (?, ?, ?, ?)').run(
+        id,
+        'spec.md',
+        effort,
+        phase
+      );
+      db.prepare(
+        "INSERT INTO tasks (id, run_id, title, description) VALUES (?, ?, 'Task', 'Do it')"
+      ).run(`${id}-task`, id);
+      db.prepare("INSERT INTO phase_costs (run_id, phase, cost_usd) VALUES (?, 'review', 0.5)").run(
+        id
+      );
+    }
+    const createdAt = '2024-01-01 00:00:00';
+    const startMs = Date.parse('2024-01-01T00:00:00Z');
+    for (const [id, runId, iteration, costUsd, seconds] of [
+      ['loop-1', 'run-1', 10, 4, 600],
+      ['loop-2', 'run-2', 5, 1, 300],
+      ['loop-3', 'run-2', 0, 0, 0],
+      ['loop-4', 'run-3', 10, 50, 600],
+      ['loop-5', 'current', 3, 2, 100],
+    ] as const) {
+      db.prepare(`
+        INSERT INTO loops (id, run_id, task_ids, iteration, max_iterations, review_interval,
+          cost_usd, created_at, last_activity_at)
+        VALUES (?, ?, '[]', ?, 20, 5, ?, ?, ?)
+      `).run(id, runId, iteration, costUsd, createdAt, startMs + seconds * 1000);
+    }
+  });
+
+  afterEach(() => {
+    closeDatabase();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('totals build loops of other runs at the same effort', () => {
+    assert.deepStrictEqual(getBuildHistoryFromDb(db, 'current', 'medium'), {
+      runs: 2,
+      iterations: 15,
+      costUsd: 5,
+      seconds: 900,
+      reviewedTasks: 1,
+      reviewCostUsd: 0.5,
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import type { Database } from 'better-sqlite3';
+import type { LoopState } from '../types/index.js';
+
+export interface LoopRow {
+  id: string;
+  task_ids: string;
+  status: LoopState['status'];
+}
+
+/**
+ * Loops of the run whose ID starts with the given prefix, so operators can use
+ * the shortened IDs shown by `ralphs status` and the TUI.
+ */
+export function findLoopsByPrefixFromDb(db: Database, runId: string, prefix: string): LoopRow[] {
+  return db
+    .prepare(
+      'SELECT id, task_ids, status FROM loops WHERE run_id = ? AND substr(id, 1, length(?)) = ?'
+    )
+    .all(runId, prefix, prefix) as LoopRow[];
+}
+
+/**
+ * Resolve a loop ID or unique ID prefix. Throws if nothing or more than one loop matches.
+ */
+export function resolveLoopFromDb(db: Database, runId: string, idOrPrefix: string): LoopRow {
+  const loops = findLoopsByPrefixFromDb(db, runId, idOrPrefix);
+  const loop = loops.find((l) => l.id === idOrPrefix) ?? (loops.length === 1 ? loops[0] : null);
+  if (loop) return loop;
+  if (loops.length > 1) {
+    throw new Error(`Loop ID prefix "${idOrPrefix}" is ambiguous`);
+  }
+  throw new Error(`No loop matches "${idOrPrefix}"`);
+}
+
+/**
+ * Mark an unfinished loop as paused. The running orchestrator picks the change
+ * up at its next build iteration. Returns false if the loop cannot be paused.
+ */
+export function pauseLoopInDb(db: Database, loopId: string): boolean {
+  const result = db
+    .prepare(
+      "UPDATE loops SET status = 'paused' WHERE id = ? AND status IN ('pending', 'running', 'interrupted')"
+    )
+    .run(loopId);
+  return result.changes > 0;
+}
+
+/**
+ * Return a paused loop to running. Returns false if the loop was not paused.
+ */
+export function resumeLoopInDb(db: Database, loopId: string): boolean {
+  const result = db
+    .prepare("UPDATE loops SET status = 'running' WHERE id = ? AND status = 'paused'")
+    .run(loopId);
+  return result.changes > 0;
+}
+
+/**
+ * Current status of every loop in the run, keyed by loop ID.
+ */
+export function getLoopStatusesFromDb(
+  db: Database,
+  runId: string
+): Map<string, LoopState['status']> {
+  const rows = db.prepare('SELECT id, status FROM loops WHERE run_id = ?').all(runId) as Array<{
+    id: string;
+    status: LoopState['status'];
+  }>;
+  return new Map(rows.map((r) => [r.id, r.status]));
+}
+
+export interface BuildHistory {
+  /** Earlier runs that contributed build loops */
+  runs: number;
+  iterations: number;
+  /** Loop costs, which include the loops' own per-task and checkpoint reviews */
+  costUsd: number;
+  /** Time from loop creation to its last activity, summed over loops */
+  seconds: number;
+  /** Tasks of earlier completed runs, and what their REVIEW phases cost */
+  reviewedTasks: number;
+  reviewCostUsd: number;
+}
+
+/**
+ * Build loop and REVIEW phase totals of the other runs in the database with
+ * the given effort level, for forecasting a run's remaining cost.
+ */
+export function getBuildHistoryFromDb(
+  db: Database,
+  excludeRunId: string,
+  effort: string
+): BuildHistory {
+  const loops = db
+    .prepare(`
+    SELECT
+      COUNT(DISTINCT l.run_id) AS runs,
+      COALESCE(SUM(l.iteration), 0) AS iterations,
+      COALESCE(SUM(l.cost_usd), 0) AS cost_usd,
+      COALESCE(SUM(MAX(0, l.last_activity_at / 1000.0 - strftime('%s', l.created_at))), 0) AS seconds
+    FROM loops l JOIN runs r ON r.id = l.run_id
+    WHERE l.run_id != ? AND r.effort = ? AND l.phase = 'build' AND l.iteration > 0
+  `)
+    .get(excludeRunId, effort) as {
+    runs: number;
+    iterations: number;
+    cost_usd: number;
+    seconds: number;
+  };
+  const reviews = db
+    .prepare(`
+    SELECT
+      COALESCE(SUM((SELECT COUNT(*) FROM tasks t WHERE t.run_id = r.id)), 0) AS tasks,
+      COALESCE(SUM((SELECT SUM(pc.cost_usd) FROM phase_costs pc WHERE pc.run_id = r.id AND pc.phase = 'review')), 0)
+        AS cost_usd
+    FROM runs r
+    WHERE r.id != ? AND r.effort = ? AND r.phase = 'complete'
+  `)
+    .get(excludeRunId, effort) as { tasks: number; cost_usd: number };
+
+  return {
+    runs: loops.runs,
+    iterations: loops.iterations,
+    costUsd: loops.cost_usd,
+    seconds: loops.seconds,
+    reviewedTasks: reviews.tasks,
+    reviewCostUsd: reviews.cost_usd,
+  };
+}
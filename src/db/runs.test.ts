@@ -0,0 +1,135 @@
+import assert from 'node:assert';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import type { Database } from 'better-sqlite3';
+import { writeContextToDb } from './context.js';
+import { closeDatabase, createDatabase } from './index.js';
+import {
+  clearDrainRequestInDb,
+  deleteRunFromDb,
+  isDrainRequestedInDb,
+  listRunsFromDb,
+  requestDrainInDb,
+} from './runs.js';
+
+describe('Run history', () => {
+  let tempDir: string;
+  let db: Database;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'sq-runs-test-'));
+    db = createDatabase(join(tempDir, 'state.db'));
+  });
+
+  afterEach(() => {
+    closeDatabase();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function seedRun(runId: string, createdAt: string) {
+    db.prepare(`
+      INSERT INTO runs (id, spec_path, effort, phase, total_cost_usd, created_at, updated_at)
+      VALUES (?, ?, 'medium', 'build', 2.5, ?, datetime(?, '+90 seconds'))
+    `).run(runId, `/specs/${runId}.md`, createdAt, createdAt);
+    db.prepare(
+      `INSERT INTO tasks (id, run_id, title, description, status) VALUES (?, ?, 'T', 'D', 'completed')`
+    ).run(`${runId}-task-1`, runId);
+    db.prepare(`INSERT INTO tasks (id, run_id, title, description) VALUES (?, ?, 'T', 'D')`).run(
+      `${runId}-task-2`,
+      runId
+    );
+    db.prepare(`
+      INSERT INTO loops (id, run_id, task_ids, max_iterations, review_interval)
+      VALUES (?, ?, '[]', 20, 5)
+    `).run(`${runId}-loop`, runId);
+    db.prepare(`
+      INSERT INTO loop_reviews (id, run_id, loop_id, passed) VALUES (?, ?, ?, 1)
+    `).run(`${runId}-review`, runId, `${runId}-loop`);
+    db.prepare(`
+      INSERT INTO plan_groups (run_id, group_index, task_ids) VALUES (?, 0, '[]')
+    `).run(runId);
+    db.prepare(`
+      INSERT INTO phase_history (run_id, phase, success, summary) VALUES (?, 'plan', 1, 'ok')
+    `).run(runId);
+    db.prepare(`
+      INSERT INTO phase_costs (run_id, phase, cost_usd) VALUES (?, 'build', 1.0)
+    `).run(runId);
+    db.prepare(`
+      INSERT INTO pending_conflicts (run_id, loop_id, task_id, conflict_files) VALUES (?, ?, ?, '[]')
+    `).run(runId, `${runId}-loop`, `${runId}-task-1`);
+    writeContextToDb(db, { runId, type: 'discovery', content: `found in ${runId}` });
+  }
+
+  function countRows(table: string, runId: string): number {
+    return (
+      db.prepare(`SELECT COUNT(*) as count FROM ${table} WHERE run_id = ?`).get(runId) as {
+        count: number;
+      }
+    ).count;
+  }
+
+  test('listRunsFromDb returns every run newest first with task counts and duration', () => {
+    seedRun('run-old', '2026-01-01 10:00:00');
+    seedRun('run-new', '2026-01-02 10:00:00');
+
+    const runs = listRunsFromDb(db);
+
+    assert.deepStrictEqual(
+      runs.map((r) => r.id),
+      ['run-new', 'run-old']
+    );
+    assert.strictEqual(runs[0].spec_path, '/specs/run-new.md');
+    assert.strictEqual(runs[0].phase, 'build');
+    assert.strictEqual(runs[0].total_cost_usd, 2.5);
+    assert.strictEqual(runs[0].duration_seconds, 90);
+    assert.strictEqual(runs[0].task_count, 2);
+    assert.strictEqual(runs[0].completed_task_count, 1);
+  });
+
+  test('deleteRunFromDb removes the run and its dependent rows only', () => {
+    seedRun('run-a', '2026-01-01 10:00:00');
+    seedRun('run-b', '2026-01-02 10:00:00');
+
+    assert.strictEqual(deleteRunFromDb(db, 'run-a'), true);
+
+    for (const table of [
+      'tasks',
+      'loops',
+      'context',
+      'loop_reviews',
+      'phase_costs',
+      'phase_history',
+      'plan_groups',
+      'pending_conflicts',
+    ]) {
+      assert.strictEqual(countRows(table, 'run-a'), 0, `${table} rows for run-a remain`);
+      assert.ok(countRows(table, 'run-b') > 0, `${table} rows for run-b were deleted`);
+    }
+    assert.deepStrictEqual(
+      listRunsFromDb(db).map((r) => r.id),
+      ['run-b']
+    );
+  });
+
+  test('deleteRunFromDb returns false for an unknown run', () => {
+    seedRun('run-a', '2026-01-01 10:00:00');
+    assert.strictEqual(deleteRunFromDb(db, 'missing'), false);
+    assert.strictEqual(listRunsFromDb(db).length, 1);
+  });
+
+  test('drain requests are set and cleared per run', () => {
+    seedRun('run-a', '2026-01-01 10:00:00');
+    seedRun('run-b', '2026-01-02 10:00:00');
+
+    assert.strictEqual(isDrainRequestedInDb(db, 'run-a'), false);
+    assert.strictEqual(requestDrainInDb(db, 'run-a'), true);
+    assert.strictEqual(isDrainRequestedInDb(db, 'run-a'), true);
+    assert.strictEqual(isDrainRequestedInDb(db, 'run-b'), false);
+
+    clearDrainRequestInDb(db, 'run-a');
+    assert.strictEqual(isDrainRequestedInDb(db, 'run-a'), false);
+    assert.strictEqual(requestDrainInDb(db, 'missing'), false);
+  });
+});
@@ -0,0 +1,91 @@
+import type { Database } from 'better-sqlite3';
+
+export interface RunSummary {
+  id: string;
+  spec_path: string;
+  effort: string;
+  phase: string;
+  total_cost_usd: number;
+  created_at: string;
+  updated_at: string;
+  duration_seconds: number;
+  task_count: number;
+  completed_task_count: number;
+}
+
+/**
+ * List every run in the database, newest first.
+ */
+export function listRunsFromDb(db: Database): RunSummary[] {
+  return db
+    .prepare(`
+    SELECT
+      r.id, r.spec_path, r.effort, r.phase, r.total_cost_usd, r.created_at, r.updated_at,
+      CAST(ROUND((julianday(r.updated_at) - julianday(r.created_at)) * 86400) AS INTEGER)
+        AS duration_seconds,
+      (SELECT COUNT(*) FROM tasks t WHERE t.run_id = r.id) AS task_count,
+      (SELECT COUNT(*) FROM tasks t WHERE t.run_id = r.id AND t.status = 'completed')
+        AS completed_task_count
+    FROM runs r
+    ORDER BY r.created_at DESC, r.rowid DESC
+  `)
+    .all() as RunSummary[];
+}
+
+/**
+ * Tables holding per-run rows, in an order that satisfies foreign keys
+ * (loop_reviews references loops, everything references runs).
+ */
+const RUN_DEPENDENT_TABLES = [
+  'token_usage',
+  'loop_reviews',
+  'context',
+  'pending_conflicts',
+  'phase_costs',
+  'phase_history',
+  'plan_groups',
+  'task_chains',
+  'loops',
+  'tasks',
+] as const;
+
+/**
+ * Delete a run and all of its dependent rows, leaving other runs untouched.
+ * Returns false if the run does not exist.
+ */
+export function deleteRunFromDb(db: Database, runId: string): boolean {
+  const exists = db.prepare('SELECT id FROM runs WHERE id = ?').get(runId);
+  if (!exists) return false;
+
+  const deleteTransaction = db.transaction(() => {
+    for (const table of RUN_DEPENDENT_TABLES) {
+      db.prepare(`DELETE FROM ${table} WHERE run_id = ?`).run(runId);
+    }
+    db.prepare('DELETE FROM runs WHERE id = ?').run(runId);
+  });
+  deleteTransaction();
+
+  return true;
+}
+
+/**
+ * Ask a run to drain: stop spawning loops, let in-flight iterations finish,
+ * save and exit. Returns false if the run does not exist.
+ */
+export function requestDrainInDb(db: Database, runId: string): boolean {
+  return db.prepare('UPDATE runs SET drain_requested = 1 WHERE id = ?').run(runId).changes > 0;
+}
+
+export function isDrainRequestedInDb(db: Database, runId: string): boolean {
+  const row = db.prepare('SELECT drain_requested FROM runs WHERE id = ?').get(runId) as
+    | { drain_requested: number }
+    | undefined;
+  return row?.drain_requested === 1;
+}
+
+/**
+ * Clear a drain request so a resumed run schedules loops again.
+ */
+export function clearDrainRequestInDb(db: Database, runId: string): void {
+  db.prepare('UPDATE runs SET drain_requested = 0 WHERE id = ?').run(runId);
+}
@@ -17,7 +17,10 @@ CREATE TABLE IF NOT EXISTS runs (
   interpreted_intent TEXT,
   intent_satisfied INTEGER,
   was_empty_project INTEGER,  -- NULL means not yet checked, 0 = false, 1 = true
-  codebase_analysis TEXT      -- JSON blob for backwards compatibility (canonical source is context table)
+  codebase_analysis TEXT,     -- JSON blob for backwards compatibility (canonical source is context table)
+  spec_hash TEXT,             -- sha256 of the spec file content the run is working from
+  spec_snapshot TEXT,         -- spec content as of the last ENUMERATE, diffed on resume
+  drain_requested INTEGER NOT NULL DEFAULT 0  -- 1 = stop spawning, finish in-flight iterations, exit
 );
 
 -- Tasks table: enumerated tasks for a run
@@ -26,10 +29,11 @@ CREATE TABLE IF NOT EXISTS tasks (
   run_id TEXT NOT NULL REFERENCES runs(id),
   title TEXT NOT NULL,
   description TEXT NOT NULL,
-  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'in_progress', 'completed', 'failed')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'in_progress', 'completed', 'failed', 'cancelled', 'skipped', 'superseded')),
   dependencies TEXT NOT NULL DEFAULT '[]', -- JSON array of task IDs
   estimated_iterations INTEGER NOT NULL DEFAULT 10,
   assigned_loop_id TEXT,
+  model TEXT, -- Build model hint from write_task (NULL = preset's build model)
   created_at TEXT NOT NULL DEFAULT (datetime('now'))
 );
 
@@ -42,24 +46,38 @@ CREATE TABLE IF NOT EXISTS plan_groups (
   UNIQUE(run_id, group_index)
 );
 
+-- Task chains: linear runs of dependent tasks one loop works through in order
+CREATE TABLE IF NOT EXISTS task_chains (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  run_id TEXT NOT NULL REFERENCES runs(id),
+  chain_index INTEGER NOT NULL,
+  task_ids TEXT NOT NULL, -- JSON array of task IDs, in execution order
+  UNIQUE(run_id, chain_index)
+);
+
 -- Loops table: parallel execution loops
 CREATE TABLE IF NOT EXISTS loops (
   id TEXT PRIMARY KEY,
   run_id TEXT NOT NULL REFERENCES runs(id),
   task_ids TEXT NOT NULL, -- JSON array
+  passed_task_ids TEXT NOT NULL DEFAULT '[]', -- JSON array of chain tasks awaiting the loop's merge
   iteration INTEGER NOT NULL DEFAULT 0,
   max_iterations INTEGER NOT NULL,
   review_interval INTEGER NOT NULL,
   last_review_at INTEGER NOT NULL DEFAULT 0,
-  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'stuck', 'completed', 'failed', 'interrupted')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'stuck', 'completed', 'failed', 'interrupted', 'paused')),
   same_error_count INTEGER NOT NULL DEFAULT 0,
   no_progress_count INTEGER NOT NULL DEFAULT 0,
   last_error TEXT,
+  last_error_fingerprint TEXT,
+  error_history TEXT NOT NULL DEFAULT '[]', -- JSON array of recent error fingerprints (null = no error)
   last_file_change_iteration INTEGER NOT NULL DEFAULT 0,
   last_activity_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now') * 1000),
   cost_usd REAL NOT NULL DEFAULT 0,
   worktree_path TEXT,
   phase TEXT NOT NULL DEFAULT 'build', -- Phase that created this loop
+  recovery_attempts INTEGER NOT NULL DEFAULT 0, -- Stuck recovery ladder steps used
+  model_tier TEXT, -- Build model escalated by stuck recovery (NULL = preset's)
   created_at TEXT NOT NULL DEFAULT (datetime('now'))
 );
 
@@ -78,13 +96,14 @@ CREATE TABLE IF NOT EXISTS phase_history (
 CREATE TABLE IF NOT EXISTS context (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
   run_id TEXT NOT NULL REFERENCES runs(id),
-  type TEXT NOT NULL CHECK (type IN ('discovery', 'error', 'decision', 'review_issue', 'scratchpad', 'codebase_analysis')),
+  type TEXT NOT NULL CHECK (type IN ('discovery', 'error', 'decision', 'review_issue', 'scratchpad', 'codebase_analysis', 'hint', 'integration_check')),
   content TEXT NOT NULL,
   task_id TEXT,
   loop_id TEXT,
   file TEXT,
   line INTEGER,
-  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  consumed_at TEXT  -- hints only: when the hint was delivered to a build loop
 );
 
 -- Indexes for common query patterns
@@ -142,6 +161,22 @@ CREATE TABLE IF NOT EXISTS pending_conflicts (
   created_at TEXT NOT NULL DEFAULT (datetime('now'))
 );
 
+-- Token usage: one row per agent call that reported its token usage
+CREATE TABLE IF NOT EXISTS token_usage (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  run_id TEXT NOT NULL REFERENCES runs(id),
+  phase TEXT NOT NULL,
+  loop_id TEXT,                           -- null outside build loops
+  iteration INTEGER,                      -- loop iteration the call belongs to
+  model TEXT,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+  cache_write_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd REAL NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
 -- Indexes
 CREATE INDEX IF NOT EXISTS idx_tasks_run ON tasks(run_id);
 CREATE INDEX IF NOT EXISTS idx_loops_run ON loops(run_id);
@@ -150,3 +185,4 @@ CREATE INDEX IF NOT EXISTS idx_phase_costs_run ON phase_costs(run_id);
 CREATE INDEX IF NOT EXISTS idx_loop_reviews_run ON loop_reviews(run_id);
 CREATE INDEX IF NOT EXISTS idx_loop_reviews_loop ON loop_reviews(loop_id);
 CREATE INDEX IF NOT EXISTS idx_pending_conflicts_run ON pending_conflicts(run_id);
+CREATE INDEX IF NOT EXISTS idx_token_usage_run ON token_usage(run_id, phase);
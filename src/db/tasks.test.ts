@@ -0,0 +1,77 @@
+import assert from 'node:assert';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import type { Database } from 'better-sqlite3';
+import { closeDatabase, createDatabase } from './index.js';
+import {
+  getTaskFromDb,
+  getTaskLoopsFromDb,
+  resetTaskInDb,
+  updateTaskDescriptionInDb,
+} from './tasks.js';
+
+describe('Task controls', () => {
+  let tempDir: string;
+  let db: Database;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'sq-tasks-test-'));
+    db = createDatabase(join(tempDir, 'state.db'));
+    db.prepare(
+      "INSERT INTO runs (id, spec_path, effort) VALUES ('run-1', 'spec.md', 'medium')"
+    ).run();
+    db.prepare(
+      "INSERT INTO tasks (id, run_id, title, description, status, assigned_loop_id) VALUES ('task-1', 'run-1', 'T', 'D', 'failed', 'loop-b')"
+    ).run();
+    for (const [id, taskIds, status] of [
+      ['loop-a', '["task-1"]', 'failed'],
+      ['loop-b', '["task-1"]', 'stuck'],
+      ['loop-c', '["task-10"]', 'running'],
+    ]) {
+      db.prepare(`
+        INSERT INTO loops (id, run_id, task_ids, max_iterations, review_interval, status)
+        VALUES (?, 'run-1', ?, 20, 5, ?)
+      `).run(id, taskIds, status);
+    }
+  });
+
+  afterEach(() => {
+    closeDatabase();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function loopStatus(loopId: string): string {
+    return (db.prepare('SELECT status FROM loops WHERE id = ?').get(loopId) as { status: string })
+      .status;
+  }
+
+  test('getTaskLoopsFromDb matches task IDs exactly', () => {
+    assert.deepStrictEqual(
+      getTaskLoopsFromDb(db, 'run-1', 'task-1').map((l) => l.id),
+      ['loop-a', 'loop-b']
+    );
+  });
+
+  test('resetTaskInDb requeues the task and fails its unfinished loops', () => {
+    const stopped = resetTaskInDb(db, 'run-1', 'task-1', 'pending');
+
+    assert.deepStrictEqual(stopped, ['loop-b']);
+    assert.strictEqual(loopStatus('loop-b'), 'failed');
+    assert.strictEqual(loopStatus('loop-c'), 'running');
+    const task = getTaskFromDb(db, 'run-1', 'task-1');
+    assert.strictEqual(task?.status, 'pending');
+    assert.strictEqual(task?.assigned_loop_id, null);
+  });
+
+  test('resetTaskInDb can mark a task skipped', () => {
+    resetTaskInDb(db, 'run-1', 'task-1', 'skipped');
+    assert.strictEqual(getTaskFromDb(db, 'run-1', 'task-1')?.status, 'skipped');
+  });
+
+  test('updateTaskDescriptionInDb replaces the description', () => {
+    updateTaskDescriptionInDb(db, 'run-1', 'task-1', 'Use vitest, not jest');
+    assert.strictEqual(getTaskFromDb(db, 'run-1', 'task-1')?.description, 'Use vitest, not jest');
+  });
+});
@@ -0,0 +1,172 @@
+import type { Database } from 'better-sqlite3';
+import type { LoopState, ModelTier, Task } from '../types/index.js';
+
+export interface TaskRow {
+  id: string;
+  title: string;
+  description: string;
+  status: Task['status'];
+  assigned_loop_id: string | null;
+}
+
+export interface TaskLoopRow {
+  id: string;
+  status: LoopState['status'];
+  worktree_path: string | null;
+}
+
+export function getTaskFromDb(db: Database, runId: string, taskId: string): TaskRow | undefined {
+  return db
+    .prepare(
+      'SELECT id, title, description, status, assigned_loop_id FROM tasks WHERE run_id = ? AND id = ?'
+    )
+    .get(runId, taskId) as TaskRow | undefined;
+}
+
+/**
+ * Every loop of the run that was assigned the task, in creation order.
+ */
+export function getTaskLoopsFromDb(db: Database, runId: string, taskId: string): TaskLoopRow[] {
+  return db
+    .prepare(`
+    SELECT l.id, l.status, l.worktree_path
+    FROM loops l, json_each(l.task_ids) t
+    WHERE l.run_id = ? AND t.value = ?
+    ORDER BY l.created_at, l.rowid
+  `)
+    .all(runId, taskId) as TaskLoopRow[];
+}
+
+/**
+ * Set a task's status and fail any unfinished loop still holding it, so a
+ * resumed run neither restores the old loop nor treats the task as taken.
+ * Returns the IDs of the loops that were failed.
+ */
+export function resetTaskInDb(
+  db: Database,
+  runId: string,
+  taskId: string,
+  status: 'pending' | 'skipped'
+): string[] {
+  const openLoops = getTaskLoopsFromDb(db, runId, taskId).filter(
+    (l) => l.status !== 'completed' && l.status !== 'failed'
+  );
+
+  db.transaction(() => {
+    for (const loop of openLoops) {
+      db.prepare("UPDATE loops SET status = 'failed' WHERE id = ?").run(loop.id);
+    }
+    db.prepare(
+      'UPDATE tasks SET status = ?, assigned_loop_id = NULL WHERE run_id = ? AND id = ?'
+    ).run(status, runId, taskId);
+  })();
+
+  return openLoops.map((l) => l.id);
+}
+
+export function updateTaskDescriptionInDb(
+  db: Database,
+  runId: string,
+  taskId: string,
+  description: string
+): void {
+  db.prepare('UPDATE tasks SET description = ? WHERE run_id = ? AND id = ?').run(
+    description,
+    runId,
+    taskId
+  );
+}
+
+export function insertTaskToDb(
+  db: Database,
+  runId: string,
+  task: Pick<
+    Task,
+    'id' | 'title' | 'description' | 'dependencies' | 'estimatedIterations' | 'model'
+  >
+): void {
+  db.prepare(`
+    INSERT INTO tasks (id, run_id, title, description, dependencies, estimated_iterations, model)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    task.id,
+    runId,
+    task.title,
+    task.description,
+    JSON.stringify(task.dependencies),
+    task.estimatedIterations,
+    task.model ?? null
+  );
+}
+
+/**
+ * Remove tasks that never made it into the run, e.g. subtasks of a split that
+ * was rejected.
+ */
+export function deleteTasksFromDb(db: Database, runId: string, taskIds: string[]): void {
+  const remove = db.prepare('DELETE FROM tasks WHERE run_id = ? AND id = ?');
+  db.transaction(() => {
+    for (const taskId of taskIds) remove.run(runId, taskId);
+  })();
+}
+
+export function listTasksFromDb(db: Database, runId: string): Task[] {
+  const rows = db
+    .prepare(
+      'SELECT id, title, description, status, dependencies, estimated_iterations, assigned_loop_id, model FROM tasks WHERE run_id = ? ORDER BY rowid'
+    )
+    .all(runId) as Array<
+    TaskRow & { dependencies: string; estimated_iterations: number; model: ModelTier | null }
+  >;
+  return rows.map((row) => ({
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    status: row.status,
+    dependencies: JSON.parse(row.dependencies),
+    estimatedIterations: row.estimated_iterations,
+    assignedLoopId: row.assigned_loop_id,
+    ...(row.model ? { model: row.model } : {}),
+  }));
+}
+
+export function updateTaskDependenciesInDb(
+  db: Database,
+  runId: string,
+  taskId: string,
+  dependencies: string[]
+): void {
+  db.prepare('UPDATE tasks SET dependencies = ? WHERE run_id = ? AND id = ?').run(
+    JSON.stringify(dependencies),
+    runId,
+    taskId
+  );
+}
+
+/**
+ * Replace a run's plan groups and task chains, e.g. after a task was split
+ * into subtasks mid-build.
+ */
+export function saveTaskGraphToDb(
+  db: Database,
+  runId: string,
+  parallelGroups: string[][],
+  chains: string[][]
+): void {
+  db.transaction(() => {
+    db.prepare('DELETE FROM plan_groups WHERE run_id = ?').run(runId);
+    db.prepare('DELETE FROM task_chains WHERE run_id = ?').run(runId);
+    const insertGroup = db.prepare(
+      'INSERT INTO plan_groups (run_id, group_index, task_ids) VALUES (?, ?, ?)'
+    );
+    parallelGroups.forEach((taskIds, i) => {
+      insertGroup.run(runId, i, JSON.stringify(taskIds));
+    });
+    const insertChain = db.prepare(
+      'INSERT INTO task_chains (run_id, chain_index, task_ids) VALUES (?, ?, ?)'
+    );
+    chains.forEach((taskIds, i) => {
+      insertChain.run(runId, i, JSON.stringify(taskIds));
+    });
+  })();
+}
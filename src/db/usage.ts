@@ -0,0 +1,60 @@
+import type { Database } from 'better-sqlite3';
+import type { TokenUsage } from '../types/index.js';
+
+export interface RecordTokenUsageOptions {
+  runId: string;
+  phase: string;
+  loopId?: string;
+  iteration?: number;
+  model?: string;
+  usage: TokenUsage;
+  costUsd: number;
+}
+
+export function recordTokenUsageInDb(db: Database, entry: RecordTokenUsageOptions): void {
+  db.prepare(`
+    INSERT INTO token_usage (
+      run_id, phase, loop_id, iteration, model,
+      input_tokens, output_tokens, cache_read_tokens, cache_write_tokens, cost_usd
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    entry.runId,
+    entry.phase,
+    entry.loopId ?? null,
+    entry.iteration ?? null,
+    entry.model ?? null,
+    entry.usage.inputTokens,
+    entry.usage.outputTokens,
+    entry.usage.cacheReadTokens,
+    entry.usage.cacheWriteTokens,
+    entry.costUsd
+  );
+}
+
+export interface PhaseTokenUsage extends TokenUsage {
+  phase: string;
+  calls: number;
+  costUsd: number;
+}
+
+/**
+ * Token usage of a run summed per phase, in the order phases first used tokens.
+ */
+export function getPhaseTokenUsageFromDb(db: Database, runId: string): PhaseTokenUsage[] {
+  return db
+    .prepare(`
+    SELECT
+      phase,
+      COUNT(*) AS calls,
+      SUM(input_tokens) AS inputTokens,
+      SUM(output_tokens) AS outputTokens,
+      SUM(cache_read_tokens) AS cacheReadTokens,
+      SUM(cache_write_tokens) AS cacheWriteTokens,
+      SUM(cost_usd) AS costUsd
+    FROM token_usage
+    WHERE run_id = ?
+    GROUP BY phase
+    ORDER BY MIN(id)
+  `)
+    .all(runId) as PhaseTokenUsage[];
+}
@@ -1,3 +1,4 @@
+import { execSync } from 'node:child_process';
 import { mkdirSync } from 'node:fs';
 import { appendFile, readFile, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
@@ -12,6 +13,14 @@ import type {
   TraceFile,
 } from './types.js';
 
+function getHeadCommit(): string | undefined {
+  try {
+    return execSync('git rev-parse HEAD', { stdio: 'pipe', encoding: 'utf-8' }).trim();
+  } catch {
+    return undefined;
+  }
+}
+
 class FileAgentCallWriter implements AgentCallWriter {
   private tracer: FileTracer;
   private phase: Phase;
@@ -98,6 +107,8 @@ class FileTracer implements DebugTracer {
       runId,
       specPath,
       effort,
+      cwd: process.cwd(),
+      headCommit: getHeadCommit(),
       startedAt: new Date().toISOString(),
       completedAt: null,
       events: [],
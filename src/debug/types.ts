@@ -47,7 +47,14 @@ export interface DecisionEvent extends TraceEvent {
   reason: string;
 }
 
-export type LoopStatus = 'pending' | 'running' | 'stuck' | 'completed' | 'failed' | 'interrupted';
+export type LoopStatus =
+  | 'pending'
+  | 'running'
+  | 'stuck'
+  | 'completed'
+  | 'failed'
+  | 'interrupted'
+  | 'paused';
 
 export interface LoopEvent extends TraceEvent {
   type: 'loop_created' | 'loop_iteration' | 'loop_status_change';
@@ -58,7 +65,14 @@ export interface LoopEvent extends TraceEvent {
   worktreePath?: string | null;
 }
 
-export type TaskStatus = 'pending' | 'in_progress' | 'completed' | 'failed';
+export type TaskStatus =
+  | 'pending'
+  | 'in_progress'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+  | 'skipped'
+  | 'superseded';
 
 export interface TaskEvent extends TraceEvent {
   type: 'task_status_change';
@@ -110,6 +124,9 @@ export interface TraceFile {
   runId: string;
   specPath: string;
   effort: string;
+  /** Working directory and git HEAD when the run started; absent in older traces */
+  cwd?: string;
+  headCommit?: string;
   startedAt: string;
   completedAt: string | null;
   events: DebugEvent[];
@@ -3,15 +3,67 @@ import { execSync } from 'node:child_process';
 import { existsSync, readdirSync, rmSync } from 'node:fs';
 import { access } from 'node:fs/promises';
 import { join, resolve } from 'node:path';
-import { createCLI } from './cli.js';
-import { presetToEffortConfig } from './config/effort.js';
-import { getPreset, loadConfig } from './config/loader.js';
-import { closeDatabase, createDatabase } from './db/index.js';
+import { createInterface } from 'node:readline/promises';
+import { createAgentBackend, setAgentBackend } from './agents/backend.js';
+import {
+  createCLI,
+  createCostsCLI,
+  createDrainCLI,
+  createHintCLI,
+  createLoopCLI,
+  createReplayCLI,
+  createRunsCLI,
+  createStatusCLI,
+  createTaskCLI,
+} from './cli.js';
+import { runCostsCommand } from './commands/costs.js';
+import { runDrainCommand } from './commands/drain.js';
+import { runHintCommand } from './commands/hint.js';
+import { runLoopCommand } from './commands/loop.js';
+import { runReplayCommand } from './commands/replay.js';
+import { runRunsCommand } from './commands/runs.js';
+import { runStatusCommand } from './commands/status.js';
+import { runTaskCommand } from './commands/task.js';
+import { MODEL_TIER_ORDER, presetToEffortConfig } from './config/effort.js';
+import {
+  getBudgetConfig,
+  getPreset,
+  getTaskRules,
+  getVerifyConfig,
+  loadConfig,
+} from './config/loader.js';
+import { loadSpecTaskRules } from './config/task-rules.js';
+import {
+  type BudgetStatus,
+  capRunLimitToBudget,
+  checkBudget,
+  closeLedger,
+  formatBudgetStatus,
+  getExhaustedBudgets,
+  getLedgerPath,
+  getRepositoryKey,
+  openLedger,
+  withOverdraft,
+} from './costs/index.js';
+import { closeDatabase, createDatabase, getDatabase } from './db/index.js';
+import { clearDrainRequestInDb, isDrainRequestedInDb, requestDrainInDb } from './db/runs.js';
 import { createTracer } from './debug/index.js';
-import { getExitCode, runOrchestrator } from './orchestrator/index.js';
+import {
+  type CostForecast,
+  exceedsRunBudget,
+  forecastRunCost,
+  formatForecast,
+} from './orchestrator/forecast.js';
+import { DRAINED_EXIT_CODE, getExitCode, runOrchestrator } from './orchestrator/index.js';
 import { printDryRunSummary } from './orchestrator/summary.js';
-import { initializeState, loadState, saveRun } from './state/index.js';
-import type { OrchestratorState } from './types/index.js';
+import {
+  checkResume,
+  initializeState,
+  loadState,
+  reenumerateOnSpecChange,
+  saveRun,
+} from './state/index.js';
+import type { CostLimits, OrchestratorState } from './types/index.js';
 
 async function cleanWorktrees(runId?: string) {
   const worktreeDir = join(process.cwd(), '.ralphs', 'worktrees');
@@ -86,6 +138,25 @@ async function cleanWorktrees(runId?: string) {
   console.log('Worktree cleanup complete');
 }
 
+/**
+ * Show an over-budget forecast and ask whether to start BUILD anyway. Without
+ * a terminal to ask on, the answer is no.
+ */
+async function confirmBudget(forecast: CostForecast, limits: CostLimits): Promise<boolean> {
+  for (const line of formatForecast(forecast, limits)) console.log(line);
+  if (!process.stdin.isTTY) {
+    console.error('--confirm-budget needs an interactive terminal to ask for confirmation');
+    return false;
+  }
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = await rl.question('Start BUILD anyway? [y/N] ');
+    return /^y(es)?$/i.test(answer.trim());
+  } finally {
+    rl.close();
+  }
+}
+
 async function main() {
   const args = process.argv.slice(2);
 
@@ -96,16 +167,115 @@ async function main() {
     return;
   }
 
+  // Handle status subcommand (read-only, never runs a phase)
+  if (args[0] === 'status') {
+    const statusOpts = createStatusCLI().parse(args.slice(1), { from: 'user' }).opts();
+    process.exit(
+      runStatusCommand({
+        stateDir: resolve(statusOpts.stateDir),
+        run: statusOpts.run,
+        json: statusOpts.json,
+      })
+    );
+  }
+
+  // Handle costs subcommand (cost breakdown of a run, or two runs side by side)
+  if (args[0] === 'costs') {
+    const costsOpts = createCostsCLI().parse(args.slice(1), { from: 'user' }).opts();
+    process.exit(
+      runCostsCommand({
+        stateDir: resolve(costsOpts.stateDir),
+        run: costsOpts.run,
+        compare: costsOpts.compare,
+        format: costsOpts.json ? 'json' : costsOpts.format,
+        top: Number(costsOpts.top),
+      })
+    );
+  }
+
+  // Handle runs subcommand (run history: list, show, delete)
+  if (args[0] === 'runs') {
+    const runsCli = createRunsCLI().parse(args.slice(1), { from: 'user' });
+    const [action, runId] = runsCli.args;
+    const runsOpts = runsCli.opts();
+    process.exit(
+      runRunsCommand(action, runId, { stateDir: resolve(runsOpts.stateDir), json: runsOpts.json })
+    );
+  }
+
+  // Handle task subcommand (manual recovery: retry, skip, edit)
+  if (args[0] === 'task') {
+    const taskCli = createTaskCLI().parse(args.slice(1), { from: 'user' });
+    const [action, taskId] = taskCli.args;
+    const taskOpts = taskCli.opts();
+    process.exit(
+      await runTaskCommand(action, taskId, {
+        stateDir: resolve(taskOpts.stateDir),
+        run: taskOpts.run,
+        description: taskOpts.description,
+      })
+    );
+  }
+
+  // Handle hint subcommand (operator guidance for a running loop)
+  if (args[0] === 'hint') {
+    const hintCli = createHintCLI().parse(args.slice(1), { from: 'user' });
+    const [target, text] = hintCli.args;
+    const hintOpts = hintCli.opts();
+    process.exit(
+      runHintCommand(target, text, { stateDir: resolve(hintOpts.stateDir), run: hintOpts.run })
+    );
+  }
+
+  if (args[0] === 'drain') {
+    const drainOpts = createDrainCLI().parse(args.slice(1), { from: 'user' }).opts();
+    process.exit(runDrainCommand({ stateDir: resolve(drainOpts.stateDir), run: drainOpts.run }));
+  }
+
+  if (args[0] === 'loop') {
+    const loopCli = createLoopCLI().parse(args.slice(1), { from: 'user' });
+    const [action, loopId] = loopCli.args;
+    const loopOpts = loopCli.opts();
+    process.exit(
+      runLoopCommand(action, loopId, { stateDir: resolve(loopOpts.stateDir), run: loopOpts.run })
+    );
+  }
+
+  // Handle replay subcommand (re-run a recorded trace without a model)
+  if (args[0] === 'replay') {
+    const replayCli = createReplayCLI().parse(args.slice(1), { from: 'user' });
+    const replayOpts = replayCli.opts();
+    process.exit(
+      runReplayCommand(replayCli.args[0], {
+        stateDir: resolve(replayOpts.stateDir),
+        sandbox: replayOpts.sandbox,
+      })
+    );
+  }
+
   const program = createCLI();
   program.parse();
   const opts = program.opts();
 
+  try {
+    setAgentBackend(createAgentBackend(opts.agentBackend));
+  } catch (err) {
+    console.error(`Error: ${(err as Error).message}`);
+    process.exit(1);
+  }
+
   // Load config file and get preset
   let effortConfig;
+  let verify;
+  let configTaskRules;
+  let budget;
   try {
     const config = loadConfig(opts.config);
     const preset = getPreset(config, opts.effort);
     effortConfig = presetToEffortConfig(preset);
+    verify = getVerifyConfig(config);
+    configTaskRules = getTaskRules(config);
+    budget = getBudgetConfig(config);
   } catch (err) {
     console.error(`Error: ${(err as Error).message}`);
     process.exit(1);
@@ -120,6 +290,63 @@ async function main() {
     process.exit(1);
   }
 
+  let specTaskRules;
+  try {
+    specTaskRules = loadSpecTaskRules(specPath);
+  } catch (err) {
+    console.error(`Error: Invalid spec front-matter: ${(err as Error).message}`);
+    process.exit(1);
+  }
+
+  // Cross-run ledger: saved runs add their new spend, and budgets count it across runs
+  let budgetStatuses: BudgetStatus[] = [];
+  let downgradeForBudget = false;
+  try {
+    openLedger(getLedgerPath(), getRepositoryKey());
+  } catch (err) {
+    if (budget) {
+      console.error(
+        `Error: Cannot open the cost ledger to check the budget: ${(err as Error).message}`
+      );
+      process.exit(1);
+    }
+    console.warn(
+      `Warning: Cost ledger unavailable, spend is not recorded: ${(err as Error).message}`
+    );
+  }
+  if (budget) {
+    budgetStatuses = checkBudget(budget);
+    for (const status of budgetStatuses) {
+      console.log(formatBudgetStatus(status));
+    }
+    const exhausted = getExhaustedBudgets(budgetStatuses);
+    if (exhausted.length > 0) {
+      const periods = exhausted.map((status) => status.period).join(' and ');
+      if (budget.onExhausted === 'downgrade') {
+        // Downgraded runs may overspend each budget by its overdraft, and no further
+        const overdraftStatuses = withOverdraft(budgetStatuses, budget.overdraftRatio);
+        const overdrawn = getExhaustedBudgets(overdraftStatuses);
+        if (overdrawn.length > 0) {
+          const overdrawnPeriods = overdrawn.map((status) => status.period).join(' and ');
+          console.error(
+            `Error: The ${overdrawnPeriods} budget and its overdraft are exhausted; not starting the run`
+          );
+          closeLedger();
+          process.exit(1);
+        }
+        downgradeForBudget = true;
+        budgetStatuses = overdraftStatuses;
+        console.warn(
+          `Warning: The ${periods} budget is exhausted; running every agent with ${MODEL_TIER_ORDER[0]} within the ${Math.round(budget.overdraftRatio * 100)}% overdraft`
+        );
+      } else {
+        console.error(`Error: The ${periods} budget is exhausted; not starting the run`);
+        closeLedger();
+        process.exit(1);
+      }
+    }
+  }
+
   const stateDir = resolve(opts.stateDir);
 
   // Handle --reset flag: clear existing state before starting fresh
@@ -134,15 +361,45 @@ async function main() {
 
   // Try to resume existing run if --resume flag is set
   if (opts.resume) {
-    const loadedState = loadState(stateDir);
+    // --resume alone picks the latest run; --resume <runId> picks a specific one
+    const resumeRunId = typeof opts.resume === 'string' ? opts.resume : undefined;
+    const loadedState = loadState(stateDir, resumeRunId);
     if (loadedState) {
       state = loadedState;
-      console.log(`Resuming run: ${state.runId}`);
-      console.log(`Current phase: ${state.phase}`);
     } else {
-      console.error('Error: --resume specified but no existing run found');
+      console.error(
+        resumeRunId
+          ? `Error: Run not found: ${resumeRunId}`
+          : 'Error: --resume specified but no existing run found'
+      );
       process.exit(1);
     }
+
+    const resumeCheck = checkResume(state, specPath);
+    if (resumeCheck.specPathMismatch) {
+      if (!opts.force) {
+        console.error(
+          `Error: Run ${state.runId} was started with spec ${state.specPath}, not ${specPath}`
+        );
+        console.error('Use --force to resume it anyway');
+        closeDatabase();
+        process.exit(1);
+      }
+      console.warn(`Warning: --spec differs from the run spec (${state.specPath}); continuing`);
+    }
+    if (resumeCheck.specChanged) {
+      if (reenumerateOnSpecChange(state)) {
+        console.log('Spec file content has changed; re-enumerating remaining tasks');
+      } else {
+        console.warn('Warning: Spec file content has changed since this run started');
+      }
+    }
+
+    // A drain request applies to the process that was stopped, not to the resumed run
+    clearDrainRequestInDb(getDatabase(), state.runId);
+
+    console.log(`Resuming run: ${state.runId}`);
+    console.log(`Current phase: ${state.phase}`);
   } else {
     // Initialize fresh state
     state = initializeState({
@@ -154,6 +411,8 @@ async function main() {
       maxIterations: Number.parseInt(opts.maxIterations, 10),
       useWorktrees: !opts.noWorktrees,
       debug: opts.debug,
+      verify,
+      taskRules: [...configTaskRules, ...specTaskRules],
     });
 
     // Initialize database and save the new run
@@ -200,6 +459,17 @@ async function main() {
     console.log(`Initialized new run: ${state.runId}`);
   }
 
+  // Stop the run (or wind it down, with a soft limit) before it overspends a
+  // budget, or past an exhausted one, before it uses up the overdraft
+  state.costLimits = capRunLimitToBudget(
+    state.costLimits,
+    state.costs.totalCostUsd,
+    budgetStatuses
+  );
+  if (downgradeForBudget) {
+    state.costLimits = { ...state.costLimits, maxModelTier: MODEL_TIER_ORDER[0] };
+  }
+
   // Initialize debug tracer
   const tracer = createTracer(opts.debug, stateDir);
   if (opts.debug) {
@@ -247,10 +517,41 @@ async function main() {
     }
 
     // Print dry-run summary
-    printDryRunSummary(state);
+    printDryRunSummary(state, forecastRunCost(state));
     return;
   }
 
+  // Finish planning before the TUI takes over the terminal, so an over-budget
+  // forecast can be confirmed before BUILD spends anything
+  if (opts.confirmBudget) {
+    while (state.phase !== 'build' && state.phase !== 'complete') {
+      state = await runOrchestrator(state, {
+        onPhaseStart: (phase) => console.log(`Starting phase: ${phase}`),
+        onPhaseComplete: (phase, success) =>
+          console.log(`Phase ${phase} ${success ? 'completed' : 'failed'}`),
+        onOutput: (text) => process.stdout.write(text),
+        tracer,
+      });
+      saveRun(state);
+
+      if (state.context.errors.length > 0) {
+        console.error(`Errors during ${state.phase.toUpperCase()}:`, state.context.errors);
+        closeDatabase();
+        process.exit(1);
+      }
+    }
+
+    const forecast = state.phase === 'build' ? forecastRunCost(state) : null;
+    if (forecast && exceedsRunBudget(forecast, state.costLimits)) {
+      if (!(await confirmBudget(forecast, state.costLimits))) {
+        console.log('BUILD not started');
+        console.log(`Resume with: ralphs --spec ${state.specPath} --resume ${state.runId}`);
+        closeDatabase();
+        process.exit(1);
+      }
+    }
+  }
+
   if (state.phase === 'complete') {
     console.log('Run already complete!');
     process.exit(0);
@@ -270,6 +571,7 @@ async function main() {
 
   // Set up signal handlers for graceful shutdown (non-TUI mode)
   let shuttingDown = false;
+  let draining = false;
   const handleShutdown = () => {
     if (shuttingDown) return; // Prevent double-handling
     shuttingDown = true;
@@ -303,7 +605,25 @@ async function main() {
     process.exit(130); // Standard exit code for SIGINT
   };
 
-  process.on('SIGINT', handleShutdown);
+  // First Ctrl-C drains: no new loops start, in-flight iterations finish and are saved.
+  // A second Ctrl-C falls through to the immediate shutdown above.
+  const handleInterrupt = () => {
+    if (draining) {
+      handleShutdown();
+      return;
+    }
+    draining = true;
+    console.log('\nDraining - finishing in-flight iterations (Ctrl-C again to stop now)...');
+    try {
+      requestDrainInDb(getDatabase(), state.runId);
+      tracer.logDecision('drain', { phase: state.phase }, 'drain_requested', 'SIGINT received');
+    } catch {
+      // Fall back to an immediate stop if the request cannot be recorded
+      handleShutdown();
+    }
+  };
+
+  process.on('SIGINT', handleInterrupt);
   process.on('SIGTERM', handleShutdown);
 
   // Run phases until complete or error
@@ -339,6 +659,12 @@ async function main() {
     // Save state after each phase for resume support
     saveRun(state);
 
+    // Stop once in-flight work is saved if a drain was requested (Ctrl-C or `ralphs drain`)
+    if (isDrainRequestedInDb(getDatabase(), state.runId)) {
+      draining = true;
+      break;
+    }
+
     // Break if stuck or errored
     const exitCode = getExitCode(state);
     if (exitCode !== 0) {
@@ -353,13 +679,17 @@ async function main() {
   }
 
   // Clean up signal handlers before normal exit
-  process.off('SIGINT', handleShutdown);
+  process.off('SIGINT', handleInterrupt);
   process.off('SIGTERM', handleShutdown);
 
-  const exitCode = getExitCode(state);
+  let exitCode = getExitCode(state);
 
   if (state.phase === 'complete') {
     console.log('\n✓ All tasks completed successfully!');
+  } else if (draining) {
+    exitCode = DRAINED_EXIT_CODE;
+    console.log('\nDrained - in-flight iterations finished and state saved');
+    console.log(`Resume with: ralphs --spec ${state.specPath} --resume ${state.runId}`);
   } else if (exitCode === 2) {
     console.log('\n⚠ Loop stuck - needs intervention');
   } else {
@@ -31,6 +31,15 @@ describe('Loop Manager', () => {
     assert.strictEqual(loop.iteration, 0);
   });
 
+  test('createLoop scales the iteration budget for task chains', async () => {
+    const manager = new LoopManager({ maxLoops: 4, maxIterations: 20, reviewInterval: 5 });
+
+    const loop = await manager.createLoop(['t1', 't2', 't3'], []);
+
+    assert.deepStrictEqual(loop.taskIds, ['t1', 't2', 't3']);
+    assert.strictEqual(loop.maxIterations, 60);
+  });
+
   test('canSpawnMore respects maxLoops', async () => {
     const manager = new LoopManager({ maxLoops: 2, maxIterations: 20, reviewInterval: 5 });
 
@@ -55,12 +64,32 @@ describe('Loop Manager', () => {
     assert.strictEqual(active[0].loopId, loop1.loopId);
   });
 
+  test('paused loops are not active but keep their slot', async () => {
+    const manager = new LoopManager({ maxLoops: 2, maxIterations: 20, reviewInterval: 5 });
+
+    const loop1 = await manager.createLoop(['t1'], []);
+    const loop2 = await manager.createLoop(['t2'], []);
+    manager.updateLoopStatus(loop1.loopId, 'running');
+    manager.updateLoopStatus(loop2.loopId, 'paused');
+
+    assert.deepStrictEqual(
+      manager.getActiveLoops().map((l) => l.loopId),
+      [loop1.loopId]
+    );
+    assert.deepStrictEqual(
+      manager.getPausedLoops().map((l) => l.loopId),
+      [loop2.loopId]
+    );
+    assert.strictEqual(manager.canSpawnMore(), false);
+  });
+
   test('restoreLoop restores loop from persisted state', () => {
     const manager = new LoopManager({ maxLoops: 4, maxIterations: 20, reviewInterval: 5 });
 
     const persistedLoop = {
       loopId: 'restored-loop-123',
       taskIds: ['t1', 't2'],
+      passedTaskIds: [],
       iteration: 5,
       maxIterations: 20,
       reviewInterval: 5,
@@ -70,6 +99,8 @@ describe('Loop Manager', () => {
         sameErrorCount: 1,
         noProgressCount: 0,
         lastError: 'some error',
+        lastErrorFingerprint: null,
+        errorHistory: [],
         lastFileChangeIteration: 4,
         lastActivityAt: Date.now(),
       },
@@ -80,6 +111,8 @@ describe('Loop Manager', () => {
       lastReviewId: null,
       revisionAttempts: 0,
       lastCheckpointReviewAt: 0,
+      recoveryAttempts: 0,
+      modelTier: null,
     };
 
     manager.restoreLoop(persistedLoop);
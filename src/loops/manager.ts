@@ -38,8 +38,10 @@ export class LoopManager {
     const loop: LoopState = {
       loopId,
       taskIds,
+      passedTaskIds: [],
       iteration: 0,
-      maxIterations: this.config.maxIterations,
+      // A loop owning a task chain gets the iteration budget of each of its tasks
+      maxIterations: this.config.maxIterations * Math.max(1, taskIds.length),
       reviewInterval: this.config.reviewInterval,
       lastReviewAt: 0,
       status: 'pending',
@@ -47,6 +49,8 @@ export class LoopManager {
         sameErrorCount: 0,
         noProgressCount: 0,
         lastError: null,
+        lastErrorFingerprint: null,
+        errorHistory: [],
         lastFileChangeIteration: 0,
         lastActivityAt: Date.now(),
       },
@@ -58,6 +62,8 @@ export class LoopManager {
       lastReviewId: null,
       revisionAttempts: 0,
       lastCheckpointReviewAt: 0,
+      recoveryAttempts: 0,
+      modelTier: null,
     };
 
     this.loops.set(loopId, loop);
@@ -79,11 +85,13 @@ export class LoopManager {
   }
 
   canSpawnMore(): boolean {
-    // Count running, pending, and interrupted loops (interrupted will be restarted)
+    // Count running, pending, and interrupted loops (interrupted will be restarted).
+    // Paused loops keep their slot so resuming one never exceeds maxLoops.
     const activeCount =
       this.getActiveLoops().length +
       this.getPendingLoops().length +
-      this.getInterruptedLoops().length;
+      this.getInterruptedLoops().length +
+      this.getPausedLoops().length;
     return activeCount < this.config.maxLoops;
   }
 
@@ -135,6 +143,10 @@ export class LoopManager {
     return this.getAllLoops().filter((l) => l.status === 'interrupted');
   }
 
+  getPausedLoops(): LoopState[] {
+    return this.getAllLoops().filter((l) => l.status === 'paused');
+  }
+
   updateLoopStatus(loopId: string, status: LoopState['status']): void {
     const loop = this.loops.get(loopId);
     if (loop) {
@@ -1,12 +1,19 @@
 import assert from 'node:assert';
 import { describe, test } from 'node:test';
 import type { LoopState } from '../types/index.js';
-import { StuckReason, detectStuck } from './stuck-detection.js';
+import {
+  StuckReason,
+  detectStuck,
+  fingerprintError,
+  normalizeError,
+  updateStuckIndicators,
+} from './stuck-detection.js';
 
 describe('Stuck Detection', () => {
   const baseLoop: LoopState = {
     loopId: 'test',
     taskIds: ['t1'],
+    passedTaskIds: [],
     iteration: 10,
     maxIterations: 20,
     reviewInterval: 5,
@@ -16,6 +23,8 @@ describe('Stuck Detection', () => {
       sameErrorCount: 0,
       noProgressCount: 0,
       lastError: null,
+      lastErrorFingerprint: null,
+      errorHistory: [],
       lastFileChangeIteration: 10,
       lastActivityAt: Date.now(),
     },
@@ -26,6 +35,8 @@ describe('Stuck Detection', () => {
     lastReviewId: null,
     revisionAttempts: 0,
     lastCheckpointReviewAt: 0,
+    recoveryAttempts: 0,
+    modelTier: null,
   };
 
   test('returns null when not stuck', () => {
@@ -64,6 +75,61 @@ describe('Stuck Detection', () => {
     assert.strictEqual(result?.reason, StuckReason.NO_PROGRESS);
   });
 
+  test('normalizes away paths, numbers, ANSI codes and durations', () => {
+    const a =
+      '\x1b[31mFAIL\x1b[0m /tmp/wt-1/src/app.test.ts:12:5 expected 3 to equal 4 (125ms) at 2026-01-01T10:00:00Z';
+    const b =
+      '\x1b[31mFAIL\x1b[0m /home/u/.ralphs/worktrees/abc/src/app.test.ts:48:9 expected 7 to equal 8 (2.5s) at 2026-03-04T11:22:33Z';
+
+    assert.strictEqual(
+      normalizeError(a),
+      'FAIL <path>:N:N expected N to equal N (<duration>) at <time>'
+    );
+    assert.strictEqual(fingerprintError(a), fingerprintError(b));
+    assert.notStrictEqual(fingerprintError(a), fingerprintError('TypeError: x is undefined'));
+  });
+
+  test('counts the same failure with different details as repeated', () => {
+    const loop = structuredClone(baseLoop);
+
+    updateStuckIndicators(loop, 'Test failed at src/a.ts:10 after 1.2s', false);
+    updateStuckIndicators(loop, 'Test failed at src/a.ts:14 after 0.8s', false);
+    updateStuckIndicators(loop, 'Test failed at src/a.ts:14 after 0.9s', true);
+
+    assert.strictEqual(loop.stuckIndicators.sameErrorCount, 3);
+    assert.strictEqual(loop.stuckIndicators.lastError, 'Test failed at src/a.ts:14 after 0.9s');
+    assert.strictEqual(loop.stuckIndicators.errorHistory.length, 3);
+    assert.strictEqual(
+      detectStuck(loop, { stuckThreshold: 3 })?.reason,
+      StuckReason.REPEATED_ERROR
+    );
+
+    updateStuckIndicators(loop, null, true);
+    assert.strictEqual(loop.stuckIndicators.sameErrorCount, 0);
+    assert.strictEqual(loop.stuckIndicators.lastErrorFingerprint, null);
+  });
+
+  test('detects two errors taking turns', () => {
+    const loop = structuredClone(baseLoop);
+    const errors = [
+      'Test a.test.ts failed',
+      'Build failed: missing export',
+      'Test a.test.ts failed',
+    ];
+
+    for (const error of errors) updateStuckIndicators(loop, error, true);
+    assert.strictEqual(detectStuck(loop, { stuckThreshold: 3 }), null);
+
+    updateStuckIndicators(loop, 'Build failed: missing export', true);
+    const result = detectStuck(loop, { stuckThreshold: 3 });
+    assert.strictEqual(result?.reason, StuckReason.OSCILLATING);
+    assert.strictEqual(loop.stuckIndicators.sameErrorCount, 1);
+
+    // A third error breaks the pattern
+    updateStuckIndicators(loop, 'Lint failed', true);
+    assert.strictEqual(detectStuck(loop, { stuckThreshold: 3 }), null);
+  });
+
   test('detects max iterations exceeded', () => {
     const loop = {
       ...baseLoop,
@@ -1,8 +1,10 @@
+import { createHash } from 'node:crypto';
 import type { DebugTracer } from '../debug/index.js';
 import type { LoopState } from '../types/index.js';
 
 export enum StuckReason {
   REPEATED_ERROR = 'repeated_error',
+  OSCILLATING = 'oscillating',
   NO_PROGRESS = 'no_progress',
   MAX_ITERATIONS = 'max_iterations',
   IDLE_TIMEOUT = 'idle_timeout',
@@ -18,6 +20,55 @@ export interface StuckConfig {
   stuckThreshold: number;
 }
 
+/** Recent iterations checked for two errors taking turns (A/B/A/B) */
+export const OSCILLATION_WINDOW = 4;
+// Error fingerprints kept per loop, newest last
+const ERROR_HISTORY_SIZE = OSCILLATION_WINDOW * 2;
+
+/**
+ * Reduce an error message to the part that identifies the failure: ANSI
+ * codes, timestamps, durations, paths, hex IDs and numbers are replaced by
+ * placeholders, so the same failure seen at another line, in another worktree
+ * or with another timing normalizes to the same text.
+ */
+export function normalizeError(error: string): string {
+  return (
+    error
+      // biome-ignore lint/suspicious/noControlCharactersInRegex: ANSI escape sequences
+      .replace(/\x1b\[[0-9;?]*[A-Za-z]/g, '')
+      .replace(
+        /\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?/g,
+        '<time>'
+      )
+      .replace(/\b\d+(?:\.\d+)?\s?(?:ms|s|sec|seconds|m|min|minutes|h)\b/g, '<duration>')
+      .replace(/(?:[A-Za-z]:)?[\w.@~-]*(?:[/\\][\w.@-]+)+/g, '<path>')
+      .replace(/\b0x[0-9a-fA-F]+\b/g, '<hex>')
+      .replace(/\d+/g, 'N')
+      .replace(/\s+/g, ' ')
+      .trim()
+  );
+}
+
+/**
+ * Short stable hash of the normalized error, used to tell repeated failures
+ * apart from new ones.
+ */
+export function fingerprintError(error: string): string {
+  return createHash('sha256').update(normalizeError(error)).digest('hex').slice(0, 12);
+}
+
+/**
+ * True when the last OSCILLATION_WINDOW iterations alternated between two
+ * different errors, e.g. fixing one test breaks another and back again.
+ */
+export function isOscillating(errorHistory: Array<string | null>): boolean {
+  if (errorHistory.length < OSCILLATION_WINDOW) return false;
+  const window = errorHistory.slice(-OSCILLATION_WINDOW);
+  const [a, b] = window;
+  if (a === null || b === null || a === b) return false;
+  return window.every((fingerprint, i) => fingerprint === (i % 2 === 0 ? a : b));
+}
+
 export function detectStuck(
   loop: LoopState,
   config: StuckConfig,
@@ -69,6 +120,27 @@ export function detectStuck(
     return result;
   }
 
+  if (isOscillating(stuckIndicators.errorHistory)) {
+    const result = {
+      reason: StuckReason.OSCILLATING,
+      details: `Alternated between two errors for the last ${OSCILLATION_WINDOW} iterations; latest: ${stuckIndicators.lastError}`,
+      suggestion: 'Fixing one error reintroduces the other; address both together',
+    };
+    tracer?.logDecision(
+      'stuck_detection',
+      {
+        iteration,
+        maxIterations,
+        errorHistory: stuckIndicators.errorHistory,
+        threshold: config.stuckThreshold,
+      },
+      result.reason,
+      result.details,
+      loop.loopId
+    );
+    return result;
+  }
+
   const iterationsSinceChange = iteration - stuckIndicators.lastFileChangeIteration;
   if (
     stuckIndicators.noProgressCount >= config.stuckThreshold ||
@@ -117,17 +189,21 @@ export function updateStuckIndicators(
   error: string | null,
   filesChanged: boolean
 ): void {
-  if (error) {
-    if (error === loop.stuckIndicators.lastError) {
+  const fingerprint = error ? fingerprintError(error) : null;
+  if (fingerprint) {
+    if (fingerprint === loop.stuckIndicators.lastErrorFingerprint) {
       loop.stuckIndicators.sameErrorCount++;
     } else {
       loop.stuckIndicators.sameErrorCount = 1;
-      loop.stuckIndicators.lastError = error;
     }
   } else {
     loop.stuckIndicators.sameErrorCount = 0;
-    loop.stuckIndicators.lastError = null;
   }
+  loop.stuckIndicators.lastError = error;
+  loop.stuckIndicators.lastErrorFingerprint = fingerprint;
+  loop.stuckIndicators.errorHistory = [...loop.stuckIndicators.errorHistory, fingerprint].slice(
+    -ERROR_HISTORY_SIZE
+  );
 
   if (filesChanged) {
     loop.stuckIndicators.lastFileChangeIteration = loop.iteration;
@@ -5,8 +5,11 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
 import { readContextFromDb, writeContextToDb } from '../db/context.js';
 import { getDatabase } from '../db/index.js';
+import { insertTaskToDb } from '../db/tasks.js';
 import {
   AddPlanGroupSchema,
+  AddTaskChainSchema,
+  CancelTaskSchema,
   CompleteTaskSchema,
   CreateLoopSchema,
   FailTaskSchema,
@@ -102,6 +105,11 @@ export function createMCPServer(runId: string, dbPath: string) {
               type: 'number',
               description: 'Estimated iterations to complete',
             },
+            model: {
+              type: 'string',
+              enum: ['haiku', 'sonnet', 'opus'],
+              description: 'Model tier hint for building this task',
+            },
           },
           required: ['id', 'title', 'description'],
         },
@@ -129,6 +137,18 @@ export function createMCPServer(runId: string, dbPath: string) {
           required: ['taskId', 'reason'],
         },
       },
+      {
+        name: 'cancel_task',
+        description: 'Cancel a pending task that the spec no longer requires',
+        inputSchema: {
+          type: 'object' as const,
+          properties: {
+            taskId: { type: 'string', description: 'ID of pending task to cancel' },
+            reason: { type: 'string', description: 'Why the task is no longer needed' },
+          },
+          required: ['taskId', 'reason'],
+        },
+      },
       {
         name: 'add_plan_group',
         description: 'Add a parallel execution group to the plan',
@@ -145,6 +165,23 @@ export function createMCPServer(runId: string, dbPath: string) {
           required: ['groupIndex', 'taskIds'],
         },
       },
+      {
+        name: 'add_task_chain',
+        description:
+          'Bundle a linear chain of small dependent tasks so one loop builds them in order in the same worktree',
+        inputSchema: {
+          type: 'object' as const,
+          properties: {
+            taskIds: {
+              type: 'array',
+              items: { type: 'string' },
+              description:
+                'Task IDs in execution order; each task must depend on the one before it',
+            },
+          },
+          required: ['taskIds'],
+        },
+      },
       {
         name: 'update_loop_status',
         description: 'Update the status of an execution loop',
@@ -154,7 +191,7 @@ export function createMCPServer(runId: string, dbPath: string) {
             loopId: { type: 'string', description: 'Loop ID' },
             status: {
               type: 'string',
-              enum: ['running', 'stuck', 'completed', 'failed'],
+              enum: ['running', 'stuck', 'completed', 'failed', 'paused'],
               description: 'New status',
             },
             error: { type: 'string', description: 'Error message if failed/stuck' },
@@ -408,17 +445,7 @@ export function createMCPServer(runId: string, dbPath: string) {
       switch (name) {
         case 'write_task': {
           const task = WriteTaskSchema.parse(args);
-          db.prepare(`
-          INSERT INTO tasks (id, run_id, title, description, dependencies, estimated_iterations)
-          VALUES (?, ?, ?, ?, ?, ?)
-        `).run(
-            task.id,
-            runId,
-            task.title,
-            task.description,
-            JSON.stringify(task.dependencies),
-            task.estimatedIterations
-          );
+          insertTaskToDb(db, runId, task);
           result = { content: [{ type: 'text', text: `Task ${task.id} created` }] };
           break;
         }
@@ -446,6 +473,25 @@ export function createMCPServer(runId: string, dbPath: string) {
           break;
         }
 
+        case 'cancel_task': {
+          const { taskId, reason } = CancelTaskSchema.parse(args);
+          // Only pending work can be cancelled - completed tasks stay untouched
+          const update = db
+            .prepare(`
+          UPDATE tasks SET status = 'cancelled' WHERE id = ? AND run_id = ? AND status = 'pending'
+        `)
+            .run(taskId, runId);
+          if (update.changes === 0) {
+            throw new Error(`Task ${taskId} is not a pending task of this run`);
+          }
+          db.prepare(`
+          INSERT INTO context (run_id, type, content)
+          VALUES (?, 'decision', ?)
+        `).run(runId, `Task ${taskId} cancelled: ${reason}`);
+          result = { content: [{ type: 'text', text: `Task ${taskId} cancelled` }] };
+          break;
+        }
+
         case 'add_plan_group': {
           const group = AddPlanGroupSchema.parse(args);
           db.prepare(`
@@ -456,6 +502,43 @@ export function createMCPServer(runId: string, dbPath: string) {
           break;
         }
 
+        case 'add_task_chain': {
+          const { taskIds } = AddTaskChainSchema.parse(args);
+          const chained = new Set(
+            (
+              db.prepare('SELECT task_ids FROM task_chains WHERE run_id = ?').all(runId) as Array<{
+                task_ids: string;
+              }>
+            ).flatMap((row) => JSON.parse(row.task_ids) as string[])
+          );
+          let previous: string | null = null;
+          for (const taskId of taskIds) {
+            const task = db
+              .prepare('SELECT dependencies FROM tasks WHERE id = ? AND run_id = ?')
+              .get(taskId, runId) as { dependencies: string } | undefined;
+            if (!task) {
+              throw new Error(`Task ${taskId} is not a task of this run`);
+            }
+            if (chained.has(taskId) || taskIds.indexOf(taskId) !== taskIds.lastIndexOf(taskId)) {
+              throw new Error(`Task ${taskId} is already part of a chain`);
+            }
+            if (previous && !(JSON.parse(task.dependencies) as string[]).includes(previous)) {
+              throw new Error(
+                `Task ${taskId} does not depend on ${previous}, so it cannot follow it`
+              );
+            }
+            previous = taskId;
+          }
+          db.prepare(`
+          INSERT INTO task_chains (run_id, chain_index, task_ids)
+          VALUES (?, (SELECT COALESCE(MAX(chain_index) + 1, 0) FROM task_chains WHERE run_id = ?), ?)
+        `).run(runId, runId, JSON.stringify(taskIds));
+          result = {
+            content: [{ type: 'text', text: `Task chain added: ${taskIds.join(' -> ')}` }],
+          };
+          break;
+        }
+
         case 'update_loop_status': {
           const update = UpdateLoopStatusSchema.parse(args);
           db.prepare(`
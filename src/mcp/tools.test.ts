@@ -2,6 +2,7 @@ import assert from 'node:assert';
 import { describe, test } from 'node:test';
 import {
   AddPlanGroupSchema,
+  AddTaskChainSchema,
   CompleteTaskSchema,
   CreateLoopSchema,
   FailTaskSchema,
@@ -101,6 +102,18 @@ describe('MCP Tool Schemas', () => {
     });
   });
 
+  describe('AddTaskChainSchema', () => {
+    test('accepts a chain of task IDs', () => {
+      const result = AddTaskChainSchema.parse({ taskIds: ['task-1', 'task-2'] });
+
+      assert.deepStrictEqual(result.taskIds, ['task-1', 'task-2']);
+    });
+
+    test('rejects chains shorter than two tasks', () => {
+      assert.throws(() => AddTaskChainSchema.parse({ taskIds: ['task-1'] }));
+    });
+  });
+
   describe('UpdateLoopStatusSchema', () => {
     test('accepts valid status update', () => {
       const result = UpdateLoopStatusSchema.parse({
@@ -133,7 +146,7 @@ describe('MCP Tool Schemas', () => {
     });
 
     test('accepts all valid statuses', () => {
-      const statuses = ['running', 'stuck', 'completed', 'failed'];
+      const statuses = ['running', 'stuck', 'completed', 'failed', 'paused'];
       for (const status of statuses) {
         const result = UpdateLoopStatusSchema.parse({
           loopId: 'loop-1',
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { ModelTierSchema } from '../config/schema.js';
 
 // Tool schemas for MCP
 export const WriteTaskSchema = z.object({
@@ -7,6 +8,7 @@ export const WriteTaskSchema = z.object({
   description: z.string().describe('Detailed task description'),
   dependencies: z.array(z.string()).default([]).describe('IDs of tasks this depends on'),
   estimatedIterations: z.number().default(10).describe('Estimated iterations to complete'),
+  model: ModelTierSchema.optional().describe('Model tier hint for building this task'),
 });
 
 export const CompleteTaskSchema = z.object({
@@ -18,14 +20,26 @@ export const FailTaskSchema = z.object({
   reason: z.string().describe('Why the task failed'),
 });
 
+export const CancelTaskSchema = z.object({
+  taskId: z.string().describe('ID of pending task to cancel'),
+  reason: z.string().describe('Why the task is no longer needed'),
+});
+
 export const AddPlanGroupSchema = z.object({
   groupIndex: z.number().describe('Order of this group (0 = first)'),
   taskIds: z.array(z.string()).describe('Task IDs that can run in parallel'),
 });
 
+export const AddTaskChainSchema = z.object({
+  taskIds: z
+    .array(z.string())
+    .min(2)
+    .describe('Task IDs in execution order; each task must depend on the one before it'),
+});
+
 export const UpdateLoopStatusSchema = z.object({
   loopId: z.string().describe('Loop ID'),
-  status: z.enum(['running', 'stuck', 'completed', 'failed']).describe('New status'),
+  status: z.enum(['running', 'stuck', 'completed', 'failed', 'paused']).describe('New status'),
   error: z.string().optional().describe('Error message if failed/stuck'),
 });
 
@@ -162,6 +176,7 @@ export type WriteTask = z.infer<typeof WriteTaskSchema>;
 export type CompleteTask = z.infer<typeof CompleteTaskSchema>;
 export type FailTask = z.infer<typeof FailTaskSchema>;
 export type AddPlanGroup = z.infer<typeof AddPlanGroupSchema>;
+export type AddTaskChain = z.infer<typeof AddTaskChainSchema>;
 export type UpdateLoopStatus = z.infer<typeof UpdateLoopStatusSchema>;
 export type RecordCost = z.infer<typeof RecordCostSchema>;
 export type CreateLoop = z.infer<typeof CreateLoopSchema>;
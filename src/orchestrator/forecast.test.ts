@@ -0,0 +1,133 @@
+import assert from 'node:assert';
+import { describe, test } from 'node:test';
+import type { BuildHistory } from '../db/loops.js';
+import type { OrchestratorState, Task } from '../types/index.js';
+import { exceedsRunBudget, forecastCost, formatForecast } from './forecast.js';
+
+const NO_HISTORY: BuildHistory = {
+  runs: 0,
+  iterations: 0,
+  costUsd: 0,
+  seconds: 0,
+  reviewedTasks: 0,
+  reviewCostUsd: 0,
+};
+
+function createTask(id: string, dependencies: string[], estimatedIterations: number): Task {
+  return {
+    id,
+    title: `Task ${id}`,
+    description: `Build ${id}`,
+    status: 'pending',
+    dependencies,
+    estimatedIterations,
+    assignedLoopId: null,
+  };
+}
+
+function createState(tasks: Task[], overrides: Partial<OrchestratorState> = {}): OrchestratorState {
+  return {
+    runId: 'run-1',
+    specPath: 'spec.md',
+    specHash: null,
+    specSnapshot: null,
+    effort: 'medium',
+    phase: 'build',
+    phaseHistory: [],
+    tasks,
+    taskGraph: { tasks, parallelGroups: [tasks.map((t) => t.id)], chains: [] },
+    activeLoops: [],
+    completedTasks: [],
+    pendingReview: false,
+    reviewType: null,
+    revisionCount: 0,
+    context: { discoveries: [], errors: [], decisions: [], reviewIssues: [] },
+    costs: {
+      totalCostUsd: 2,
+      phaseCosts: {
+        analyze: 0,
+        enumerate: 1,
+        plan: 1,
+        build: 0,
+        review: 0,
+        revise: 0,
+        conflict: 0,
+        complete: 0,
+      },
+      loopCosts: {},
+    },
+    costLimits: { perRunMaxUsd: 20, perPhaseMaxUsd: 10, perLoopMaxUsd: 5 },
+    maxLoops: 2,
+    maxIterations: 20,
+    stateDir: '.ralphs',
+    verify: { commands: [], timeoutSeconds: 600 },
+    recoveryLadder: [],
+    taskRules: [],
+    baseBranch: null,
+    useWorktrees: false,
+    debug: false,
+    pendingConflicts: [],
+    wasEmptyProject: null,
+    codebaseAnalysis: null,
+    ...overrides,
+  };
+}
+
+describe('forecastCost', () => {
+  test('uses built-in rates for the preset models without history', () => {
+    const tasks = [createTask('a', [], 4), createTask('b', ['a'], 6), createTask('c', [], 2)];
+    const forecast = forecastCost(createState(tasks), NO_HISTORY);
+
+    assert.strictEqual(forecast.iterations, 12);
+    assert.strictEqual(forecast.buildCostUsd, 15);
+    assert.strictEqual(forecast.reviewCostUsd, 0.18);
+    assert.strictEqual(forecast.projectedRunCostUsd, 17.18);
+    assert.strictEqual(forecast.makespanIterations, 10);
+    assert.strictEqual(forecast.wallClockSeconds, 11 * 90);
+    assert.strictEqual(forecast.historyRuns, 0);
+  });
+
+  test('uses earlier runs for rates and skips finished tasks', () => {
+    const tasks = [createTask('a', [], 4), createTask('b', ['a'], 6)];
+    const state = createState(tasks, { completedTasks: ['a'] });
+    const forecast = forecastCost(state, {
+      runs: 3,
+      iterations: 50,
+      costUsd: 25,
+      seconds: 6000,
+      reviewedTasks: 10,
+      reviewCostUsd: 2,
+    });
+
+    assert.strictEqual(forecast.iterations, 6);
+    assert.strictEqual(forecast.buildCostUsd, 3);
+    assert.strictEqual(forecast.reviewCostUsd, 0.2);
+    assert.strictEqual(forecast.wallClockSeconds, 7 * 120);
+    assert.strictEqual(forecast.historyRuns, 3);
+  });
+
+  test('scales the rate for tasks built with another model tier', () => {
+    const task = { ...createTask('docs', [], 10), model: 'sonnet' as const };
+    const state = createState([task], { taskRules: [{ match: 'docs', model: 'haiku' }] });
+
+    assert.strictEqual(forecastCost(state, NO_HISTORY).buildCostUsd, 0.8);
+  });
+});
+
+describe('formatForecast', () => {
+  test('flags a projection over the per-run limit', () => {
+    const state = createState([createTask('a', [], 20)]);
+    const forecast = forecastCost(state, NO_HISTORY);
+    const lines = formatForecast(forecast, state.costLimits);
+
+    assert.strictEqual(exceedsRunBudget(forecast, state.costLimits), true);
+    assert.deepStrictEqual(lines, [
+      'Cost forecast (built-in rates):',
+      '  BUILD: 20 iterations, ~$25.00',
+      '  REVIEW: ~$0.06',
+      '  Projected run total: ~$27.06 (limit $20.00)',
+      '  Wall-clock: ~31m 30s (20 iterations deep)',
+      '  Warning: the projected run total exceeds the per-run cost limit',
+    ]);
+  });
+});
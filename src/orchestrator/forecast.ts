@@ -0,0 +1,128 @@
+import { formatDuration } from '../commands/runs.js';
+import { capModelTier, getEffortConfig } from '../config/effort.js';
+import { resolveTaskOverrides } from '../config/task-rules.js';
+import { getDatabase } from '../db/index.js';
+import { type BuildHistory, getBuildHistoryFromDb } from '../db/loops.js';
+import type { CostLimits, ModelTier, OrchestratorState } from '../types/index.js';
+import { getRemainingTasks } from './phases/plan.js';
+import { estimateMakespan } from './schedule.js';
+
+/**
+ * Cost of one build iteration, including its share of per-loop reviews, when
+ * no earlier run has loop costs. The ratios follow the tiers' relative prices
+ * and also scale historical rates for tasks built with another tier.
+ */
+const DEFAULT_ITERATION_COST_USD: Record<ModelTier, number> = {
+  haiku: 0.08,
+  sonnet: 0.25,
+  opus: 1.25,
+};
+
+/** REVIEW phase cost per task by review model, when no earlier run completed */
+const DEFAULT_REVIEW_COST_PER_TASK_USD: Record<ModelTier, number> = {
+  haiku: 0.02,
+  sonnet: 0.06,
+  opus: 0.3,
+};
+
+const DEFAULT_ITERATION_SECONDS = 90;
+
+export interface CostForecast {
+  /** Estimated iterations of the unfinished tasks */
+  iterations: number;
+  buildCostUsd: number;
+  reviewCostUsd: number;
+  /** What the run has spent so far plus the BUILD and REVIEW forecasts */
+  projectedRunCostUsd: number;
+  /** Iterations until the last task finishes with the run's loop limit */
+  makespanIterations: number;
+  /** BUILD makespan plus the final review, which takes about one more iteration */
+  wallClockSeconds: number;
+  /** Earlier runs the per-iteration rates came from (0 = built-in rates) */
+  historyRuns: number;
+}
+
+/**
+ * Project the cost and wall-clock time of the run's remaining BUILD and
+ * REVIEW work from the unfinished tasks' estimated iterations. Per-iteration
+ * cost and time come from earlier runs at the same effort level when there
+ * are any, and from built-in rates for the preset's models otherwise.
+ */
+export function forecastCost(state: OrchestratorState, history: BuildHistory): CostForecast {
+  const effortConfig = getEffortConfig(state.effort);
+  const buildTier = effortConfig.models.build;
+  const remaining = getRemainingTasks(state.tasks, state.completedTasks);
+
+  const hasHistory = history.iterations > 0;
+  const iterationCostUsd = hasHistory
+    ? history.costUsd / history.iterations
+    : DEFAULT_ITERATION_COST_USD[buildTier];
+  const iterationSeconds = hasHistory
+    ? history.seconds / history.iterations
+    : DEFAULT_ITERATION_SECONDS;
+  const reviewCostPerTaskUsd =
+    history.reviewedTasks > 0
+      ? history.reviewCostUsd / history.reviewedTasks
+      : DEFAULT_REVIEW_COST_PER_TASK_USD[
+          capModelTier(effortConfig.models.review, state.costLimits.maxModelTier)
+        ];
+
+  let iterations = 0;
+  let buildCostUsd = 0;
+  for (const task of remaining) {
+    const tier = capModelTier(
+      resolveTaskOverrides(task, state.taskRules).model ?? buildTier,
+      state.costLimits.maxModelTier
+    );
+    const tierRatio = DEFAULT_ITERATION_COST_USD[tier] / DEFAULT_ITERATION_COST_USD[buildTier];
+    iterations += task.estimatedIterations;
+    buildCostUsd += task.estimatedIterations * iterationCostUsd * tierRatio;
+  }
+  const reviewCostUsd = remaining.length * reviewCostPerTaskUsd;
+  const makespanIterations = estimateMakespan(state.tasks, state.maxLoops, state.completedTasks);
+
+  return {
+    iterations,
+    buildCostUsd,
+    reviewCostUsd,
+    projectedRunCostUsd: state.costs.totalCostUsd + buildCostUsd + reviewCostUsd,
+    makespanIterations,
+    wallClockSeconds: remaining.length > 0 ? (makespanIterations + 1) * iterationSeconds : 0,
+    historyRuns: hasHistory ? history.runs : 0,
+  };
+}
+
+/**
+ * Forecast a run's remaining cost from the history in its state database.
+ */
+export function forecastRunCost(state: OrchestratorState): CostForecast {
+  return forecastCost(state, getBuildHistoryFromDb(getDatabase(), state.runId, state.effort));
+}
+
+/**
+ * Whether the projected run cost is over the per-run cost limit.
+ */
+export function exceedsRunBudget(forecast: CostForecast, limits: CostLimits): boolean {
+  return forecast.projectedRunCostUsd > limits.perRunMaxUsd;
+}
+
+/**
+ * Format a forecast as report lines, flagging a projection over the run limit.
+ */
+export function formatForecast(forecast: CostForecast, limits: CostLimits): string[] {
+  const source =
+    forecast.historyRuns > 0
+      ? `rates from ${forecast.historyRuns} earlier run${forecast.historyRuns === 1 ? '' : 's'}`
+      : 'built-in rates';
+  const lines = [
+    `Cost forecast (${source}):`,
+    `  BUILD: ${forecast.iterations} iterations, ~$${forecast.buildCostUsd.toFixed(2)}`,
+    `  REVIEW: ~$${forecast.reviewCostUsd.toFixed(2)}`,
+    `  Projected run total: ~$${forecast.projectedRunCostUsd.toFixed(2)} (limit $${limits.perRunMaxUsd.toFixed(2)})`,
+    `  Wall-clock: ~${formatDuration(forecast.wallClockSeconds)} (${forecast.makespanIterations} iterations deep)`,
+  ];
+  if (exceedsRunBudget(forecast, limits)) {
+    lines.push('  Warning: the projected run total exceeds the per-run cost limit');
+  }
+  return lines;
+}
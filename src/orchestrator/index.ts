@@ -1,15 +1,27 @@
 import { join } from 'node:path';
 import { getEffortConfig } from '../config/effort.js';
-import { checkRunCostLimit, formatCostExceededError } from '../costs/index.js';
+import {
+  checkRunCostLimit,
+  checkSoftCostLimits,
+  formatCostExceededError,
+  formatSoftLimitWarning,
+} from '../costs/index.js';
 import type { DebugTracer, StateSnapshotEvent } from '../debug/index.js';
 import { LoopManager } from '../loops/manager.js';
+import { hashSpecContent } from '../state/spec.js';
 import type { CostTracking, LoopState, OrchestratorState, Phase } from '../types/index.js';
 import { WorktreeManager } from '../worktrees/manager.js';
+import { exceedsRunBudget, forecastRunCost, formatForecast } from './forecast.js';
 import { executeAnalyze } from './phases/analyze.js';
-import { executeBuildIteration, getNextParallelGroup } from './phases/build.js';
+import {
+  type IntegrationCheckResult,
+  checkIntegration,
+  executeBuildIteration,
+  failRevertedTasks,
+} from './phases/build.js';
 import { resolveConflict } from './phases/conflict.js';
 import { executeEnumerate } from './phases/enumerate.js';
-import { executePlan } from './phases/plan.js';
+import { executePlan, getRemainingTasks } from './phases/plan.js';
 import { executeReview } from './phases/review.js';
 import { executeRevise } from './phases/revise.js';
 
@@ -59,6 +71,39 @@ export function buildStateSnapshot(state: OrchestratorState): StateSnapshotEvent
   };
 }
 
+/**
+ * Stop loops whose tasks were all cancelled by an incremental ENUMERATE.
+ * Their worktrees hold work the spec no longer wants, so they are discarded.
+ */
+async function retireCancelledLoops(
+  state: OrchestratorState,
+  cancelledTaskIds: Set<string>,
+  tracer?: DebugTracer
+): Promise<void> {
+  for (const loop of state.activeLoops) {
+    if (loop.status === 'completed' || loop.status === 'failed') continue;
+    if (!loop.taskIds.every((id) => cancelledTaskIds.has(id))) continue;
+
+    loop.status = 'failed';
+    tracer?.logLoopStatusChange(loop.loopId, 'failed', loop.taskIds);
+
+    if (state.useWorktrees && state.baseBranch && loop.worktreePath) {
+      const worktreeManager = new WorktreeManager({
+        repoDir: process.cwd(),
+        worktreeBaseDir: join(state.stateDir, 'worktrees'),
+        baseBranch: state.baseBranch,
+        runId: state.runId,
+      });
+      try {
+        await worktreeManager.cleanup(loop.loopId);
+      } catch (e) {
+        // Log but don't fail - worktree cleanup is best-effort
+        tracer?.logError(`Failed to cleanup worktree for loop ${loop.loopId}: ${e}`, 'enumerate');
+      }
+    }
+  }
+}
+
 export interface OrchestratorCallbacks {
   onPhaseStart?: (phase: Phase) => void;
   onPhaseComplete?: (phase: Phase, success: boolean) => void;
@@ -69,6 +114,42 @@ export interface OrchestratorCallbacks {
   tracer?: DebugTracer;
 }
 
+/**
+ * Warn once about each soft cost limit this build iteration's costs crossed.
+ * The build phase winds down from its next iteration on.
+ */
+function warnOnSoftLimits(
+  state: OrchestratorState,
+  costsBefore: CostTracking,
+  loopIds: string[],
+  callbacks: OrchestratorCallbacks
+): void {
+  const reachedBefore = checkSoftCostLimits(costsBefore, state.costLimits, 'build', loopIds);
+  for (const reached of checkSoftCostLimits(state.costs, state.costLimits, 'build', loopIds)) {
+    if (reachedBefore.some((r) => r.type === reached.type && r.loopId === reached.loopId)) {
+      continue;
+    }
+
+    const consequences =
+      reached.type === 'loop' ? [] : ['no new loops start; in-flight tasks finish'];
+    if (state.costLimits.downgradeAtSoftLimit) {
+      consequences.push('remaining iterations build one model tier down');
+    }
+    const warning = [`Warning: ${formatSoftLimitWarning(reached)}`, ...consequences].join('; ');
+    callbacks.onOutput?.(`${warning}\n`);
+    for (const loopId of reached.loopId ? [reached.loopId] : loopIds) {
+      callbacks.onLoopOutput?.(loopId, `[cost] ${warning}\n`);
+    }
+    callbacks.tracer?.logDecision(
+      'cost_soft_limit',
+      { type: reached.type, current: reached.current, threshold: reached.threshold },
+      'warned',
+      warning,
+      reached.loopId
+    );
+  }
+}
+
 export async function runOrchestrator(
   state: OrchestratorState,
   callbacks: OrchestratorCallbacks = {}
@@ -135,14 +216,33 @@ export async function runOrchestrator(
       }
 
       case 'enumerate': {
+        // A stored snapshot means the spec changed after enumeration (see reenumerateOnSpecChange)
+        const incremental = state.specSnapshot !== null;
+        const previousStatus = new Map(state.tasks.map((t) => [t.id, t.status]));
+
         const result = await executeEnumerate(state, callbacks.onOutput, callbacks.tracer);
         state.tasks = result.tasks;
+        state.specSnapshot = result.specSnapshot;
+        state.specHash = hashSpecContent(result.specSnapshot);
         updateCosts(state.costs, 'enumerate', result.costUsd);
+
+        let summary = `Enumerated ${result.tasks.length} tasks`;
+        if (incremental) {
+          const added = result.tasks.filter((t) => !previousStatus.has(t.id)).length;
+          const cancelled = new Set(
+            result.tasks
+              .filter((t) => t.status === 'cancelled' && previousStatus.get(t.id) !== 'cancelled')
+              .map((t) => t.id)
+          );
+          summary = `Re-enumerated after spec change: ${added} added, ${cancelled.size} cancelled`;
+          await retireCancelledLoops(state, cancelled, callbacks.tracer);
+        }
+
         state.phaseHistory.push({
           phase: 'enumerate',
           success: true,
           timestamp: new Date().toISOString(),
-          summary: `Enumerated ${result.tasks.length} tasks`,
+          summary,
           costUsd: result.costUsd,
         });
 
@@ -175,6 +275,20 @@ export async function runOrchestrator(
           costUsd: result.costUsd,
         });
 
+        const forecast = forecastRunCost(state);
+        callbacks.onOutput?.(`\n${formatForecast(forecast, state.costLimits).join('\n')}\n`);
+        callbacks.tracer?.logDecision(
+          'cost_forecast',
+          {
+            iterations: forecast.iterations,
+            buildCostUsd: forecast.buildCostUsd,
+            reviewCostUsd: forecast.reviewCostUsd,
+            historyRuns: forecast.historyRuns,
+          },
+          exceedsRunBudget(forecast, state.costLimits) ? 'over_budget' : 'within_budget',
+          `Projected run total $${forecast.projectedRunCostUsd.toFixed(2)} of $${state.costLimits.perRunMaxUsd.toFixed(2)}`
+        );
+
         if (effortConfig.reviewAfterPlan) {
           callbacks.tracer?.logDecision(
             'review_trigger',
@@ -231,9 +345,11 @@ export async function runOrchestrator(
         state.activeLoops = result.activeLoops;
 
         // Track costs from each loop in this iteration
+        const costsBefore = structuredClone(state.costs);
         for (const [loopId, costUsd] of Object.entries(result.loopCosts)) {
           updateCosts(state.costs, 'build', costUsd, loopId);
         }
+        warnOnSoftLimits(state, costsBefore, Object.keys(result.loopCosts), callbacks);
 
         if (result.pendingConflicts.length > 0) {
           // Merge conflicts detected - add to pending and transition to conflict phase
@@ -247,7 +363,7 @@ export async function runOrchestrator(
             'Loop stuck, transitioning to revise phase'
           );
           state.phase = 'revise';
-        } else if (!getNextParallelGroup(state.taskGraph!, state.completedTasks)) {
+        } else if (getRemainingTasks(state.taskGraph!.tasks, state.completedTasks).length === 0) {
           // All tasks complete
           callbacks.tracer?.logDecision(
             'review_trigger',
@@ -302,7 +418,7 @@ export async function runOrchestrator(
               break;
             case 'build':
               // Check if all tasks complete
-              if (state.completedTasks.length === state.tasks.length) {
+              if (getRemainingTasks(state.tasks, state.completedTasks).length === 0) {
                 state.phase = 'complete';
               } else {
                 state.phase = 'build';
@@ -405,7 +521,8 @@ export async function runOrchestrator(
           state.stateDir,
           state.effort,
           callbacks.onOutput,
-          callbacks.tracer
+          callbacks.tracer,
+          state.costLimits.maxModelTier
         );
         updateCosts(state.costs, 'conflict', result.costUsd, loopId);
 
@@ -422,35 +539,76 @@ export async function runOrchestrator(
         // Remove the processed conflict from the queue
         state.pendingConflicts.shift();
 
+        const worktreeManager =
+          state.useWorktrees && state.baseBranch && loop?.worktreePath
+            ? new WorktreeManager({
+                repoDir,
+                worktreeBaseDir: join(state.stateDir, 'worktrees'),
+                baseBranch: state.baseBranch,
+                runId: state.runId,
+              })
+            : null;
+
+        // The resolver's commit finishes the merge, so it gets the same
+        // after-merge check a clean merge gets
+        let integration: IntegrationCheckResult | null = null;
+        if (
+          result.resolved &&
+          worktreeManager &&
+          loop &&
+          state.verify.afterMerge?.commands.length
+        ) {
+          callbacks.onOutput?.('[verify] Running after-merge commands...\n');
+          integration = await checkIntegration(
+            state,
+            worktreeManager,
+            loop,
+            task,
+            await worktreeManager.baseHead(),
+            callbacks.tracer
+          );
+        }
+
         if (result.resolved) {
-          // Mark the loop as completed and remove from activeLoops
-          // This prevents the completed loop from being restored in the next BUILD phase
-          // and potentially triggering incorrect stuck detection
-          if (loop) {
-            loop.status = 'completed';
-            // Remove the completed loop from activeLoops to keep state clean
+          if (loop && integration?.action === 'reverted') {
+            // The resolved merge broke the base branch and was reverted
+            loop.status = 'failed';
             state.activeLoops = state.activeLoops.filter((l) => l.loopId !== loopId);
-          }
+            const errorMsg = failRevertedTasks(state, loop, task, integration.error!);
+            callbacks.onOutput?.(`[verify] ${errorMsg}\n`);
+            callbacks.tracer?.logError(`Loop ${loopId}: ${errorMsg}`, 'conflict');
+          } else {
+            // Mark the loop as completed and remove from activeLoops
+            // This prevents the completed loop from being restored in the next BUILD phase
+            // and potentially triggering incorrect stuck detection
+            if (loop) {
+              loop.status = 'completed';
+              // Remove the completed loop from activeLoops to keep state clean
+              state.activeLoops = state.activeLoops.filter((l) => l.loopId !== loopId);
+            }
 
-          // Add the task to completedTasks if not already there
-          if (!state.completedTasks.includes(taskId)) {
-            state.completedTasks.push(taskId);
-          }
+            // Add the task, and any chain tasks the loop passed before it, to completedTasks
+            for (const id of [...(loop?.passedTaskIds ?? []), taskId]) {
+              if (!state.completedTasks.includes(id)) {
+                state.completedTasks.push(id);
+              }
 
-          // Also update the task status in state.tasks for consistency
-          const taskToUpdate = state.tasks.find((t) => t.id === taskId);
-          if (taskToUpdate) {
-            taskToUpdate.status = 'completed';
+              // Also update the task status in state.tasks for consistency
+              const taskToUpdate = state.tasks.find((t) => t.id === id);
+              if (taskToUpdate) {
+                taskToUpdate.status = 'completed';
+              }
+            }
+
+            if (integration?.action === 'fix_task') {
+              callbacks.onOutput?.(
+                `[verify] ${integration.error}; opened task ${integration.fixTaskId}\n`
+              );
+            }
           }
 
           // Clean up the worktree now that merge is complete
-          if (state.useWorktrees && state.baseBranch && loop?.worktreePath) {
-            const worktreeManager = new WorktreeManager({
-              repoDir,
-              worktreeBaseDir: join(state.stateDir, 'worktrees'),
-              baseBranch: state.baseBranch,
-              runId: state.runId,
-            });
+          if (worktreeManager) {
             try {
               await worktreeManager.cleanup(loopId);
             } catch (e) {
@@ -529,6 +687,12 @@ export async function runOrchestrator(
   return state;
 }
 
+/**
+ * Exit code when a run stopped after a drain request (first Ctrl-C or
+ * `ralphs drain`): nothing failed, and the run can be resumed as-is.
+ */
+export const DRAINED_EXIT_CODE = 3;
+
 export function getExitCode(state: OrchestratorState): number {
   if (state.phase === 'complete') return 0;
   if (state.activeLoops.some((l) => l.status === 'stuck')) return 2;
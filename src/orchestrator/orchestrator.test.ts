@@ -8,6 +8,8 @@ function createTestState(overrides: Partial<OrchestratorState> = {}): Orchestrat
   return {
     runId: 'test-run',
     specPath: '/path/to/spec.md',
+    specHash: null,
+    specSnapshot: null,
     effort: 'medium',
     phase: 'enumerate',
     phaseHistory: [],
@@ -46,6 +48,9 @@ function createTestState(overrides: Partial<OrchestratorState> = {}): Orchestrat
     maxLoops: 4,
     maxIterations: 20,
     stateDir: '.sq',
+    verify: { commands: [], timeoutSeconds: 600 },
+    recoveryLadder: [],
+    taskRules: [],
     baseBranch: 'main',
     useWorktrees: false,
     debug: false,
@@ -61,6 +66,7 @@ function createTestLoop(overrides: Partial<LoopState> = {}): LoopState {
   return {
     loopId: 'loop-1',
     taskIds: ['task-1'],
+    passedTaskIds: [],
     iteration: 0,
     maxIterations: 20,
     reviewInterval: 5,
@@ -70,6 +76,8 @@ function createTestLoop(overrides: Partial<LoopState> = {}): LoopState {
       sameErrorCount: 0,
       noProgressCount: 0,
       lastError: null,
+      lastErrorFingerprint: null,
+      errorHistory: [],
       lastFileChangeIteration: 0,
       lastActivityAt: Date.now(),
     },
@@ -80,6 +88,8 @@ function createTestLoop(overrides: Partial<LoopState> = {}): LoopState {
     lastReviewId: null,
     revisionAttempts: 0,
     lastCheckpointReviewAt: 0,
+    recoveryAttempts: 0,
+    modelTier: null,
     ...overrides,
   };
 }
@@ -1,12 +1,32 @@
 import assert from 'node:assert';
-import { describe, test } from 'node:test';
+import { execSync } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { type AgentBackend, getAgentBackend, setAgentBackend } from '../../agents/backend.js';
 import { BUILD_PROMPT } from '../../agents/prompts.js';
-import type { ReviewIssue, Task, TaskGraph } from '../../types/index.js';
+import { getModelId } from '../../config/effort.js';
+import { closeDatabase, createDatabase, getDatabase } from '../../db/index.js';
+import { isDrainRequestedInDb } from '../../db/runs.js';
+import { LoopManager } from '../../loops/manager.js';
+import { persistLoop } from '../../state/index.js';
+import type {
+  LoopState,
+  OrchestratorState,
+  ReviewIssue,
+  Task,
+  TaskGraph,
+} from '../../types/index.js';
+import { WorktreeManager } from '../../worktrees/manager.js';
 import {
   buildIterationPrompt,
   buildPromptWithFeedback,
   canStartGroup,
-  getNextParallelGroup,
+  executeBuildIteration,
+  getCurrentTaskId,
+  getLoopTaskIds,
+  getReadyTasks,
 } from './build.js';
 
 // Helper to simulate the issue replacement logic used in executeBuildIteration
@@ -58,27 +78,43 @@ describe('Build Phase', () => {
   const graph: TaskGraph = {
     tasks,
     parallelGroups: [['t1', 't2'], ['t3']],
+    chains: [],
   };
 
-  test('getNextParallelGroup returns first incomplete group', () => {
-    const completedTasks: string[] = [];
-    const group = getNextParallelGroup(graph, completedTasks);
+  test('getReadyTasks returns tasks whose dependencies are met', () => {
+    assert.deepStrictEqual(getReadyTasks(graph, []), ['t1', 't2']);
+    assert.deepStrictEqual(getReadyTasks(graph, ['t1']), ['t2']);
+    assert.deepStrictEqual(getReadyTasks(graph, ['t1', 't2']), ['t3']);
+  });
 
-    assert.deepStrictEqual(group, ['t1', 't2']);
+  test('getReadyTasks returns nothing when all complete', () => {
+    assert.deepStrictEqual(getReadyTasks(graph, ['t1', 't2', 't3']), []);
   });
 
-  test('getNextParallelGroup returns second group when first complete', () => {
-    const completedTasks = ['t1', 't2'];
-    const group = getNextParallelGroup(graph, completedTasks);
+  test('getReadyTasks does not wait on unrelated tasks in earlier groups', () => {
+    const t4: Task = { ...tasks[0], id: 't4', title: 'Task 4', dependencies: ['t1'] };
+    const wideGraph: TaskGraph = {
+      tasks: [...tasks, t4],
+      parallelGroups: [
+        ['t1', 't2'],
+        ['t3', 't4'],
+      ],
+      chains: [],
+    };
 
-    assert.deepStrictEqual(group, ['t3']);
+    // t2 is still running, but t4 only depends on t1
+    assert.deepStrictEqual(getReadyTasks(wideGraph, ['t1']), ['t2', 't4']);
   });
 
-  test('getNextParallelGroup returns null when all complete', () => {
-    const completedTasks = ['t1', 't2', 't3'];
-    const group = getNextParallelGroup(graph, completedTasks);
+  test('getReadyTasks orders by plan group, then tasks outside any group', () => {
+    const unplanned: Task = { ...tasks[0], id: 't0', title: 'Unplanned' };
+    const orderedGraph: TaskGraph = {
+      tasks: [unplanned, ...tasks],
+      parallelGroups: [['t2'], ['t1'], ['t3']],
+      chains: [],
+    };
 
-    assert.strictEqual(group, null);
+    assert.deepStrictEqual(getReadyTasks(orderedGraph, []), ['t2', 't1', 't0']);
   });
 
   test('canStartGroup checks dependencies are met', () => {
@@ -87,6 +123,77 @@ describe('Build Phase', () => {
     assert.strictEqual(canStartGroup(['t3'], ['t1', 't2'], tasks), true);
   });
 
+  test('getReadyTasks starts the head of the longest remaining chain first', () => {
+    const chainTasks: Task[] = [
+      { ...tasks[0], id: 'quick', estimatedIterations: 3 },
+      { ...tasks[0], id: 'head', estimatedIterations: 2 },
+      { ...tasks[0], id: 'tail', estimatedIterations: 4, dependencies: ['head'] },
+    ];
+    const chainGraph: TaskGraph = {
+      tasks: chainTasks,
+      parallelGroups: [['quick', 'head'], ['tail']],
+      chains: [],
+    };
+
+    assert.deepStrictEqual(getReadyTasks(chainGraph, []), ['head', 'quick']);
+  });
+
+  test('getLoopTaskIds gives a chained task the unfinished rest of its chain', () => {
+    const chainTasks: Task[] = [
+      { ...tasks[0], id: 'c1' },
+      { ...tasks[0], id: 'c2', dependencies: ['c1'] },
+      { ...tasks[0], id: 'c3', dependencies: ['c2', 'outside'] },
+      { ...tasks[0], id: 'outside' },
+    ];
+    const chainGraph: TaskGraph = {
+      tasks: chainTasks,
+      parallelGroups: [['c1', 'outside'], ['c2'], ['c3']],
+      chains: [['c1', 'c2', 'c3']],
+    };
+
+    // c3 still waits on a task outside the chain, so the loop stops before it
+    assert.deepStrictEqual(getLoopTaskIds(chainGraph, 'c1', []), ['c1', 'c2']);
+    assert.deepStrictEqual(getLoopTaskIds(chainGraph, 'c1', ['outside']), ['c1', 'c2', 'c3']);
+    assert.deepStrictEqual(getLoopTaskIds(chainGraph, 'c2', ['c1', 'outside']), ['c2', 'c3']);
+    assert.deepStrictEqual(getLoopTaskIds(chainGraph, 'outside', []), ['outside']);
+  });
+
+  test('getCurrentTaskId returns the first unfinished task of a loop', () => {
+    const loop = { taskIds: ['t1', 't2', 't3'], passedTaskIds: [] as string[] } as LoopState;
+
+    assert.strictEqual(getCurrentTaskId(loop, [], tasks), 't1');
+    assert.strictEqual(getCurrentTaskId(loop, ['t1'], tasks), 't2');
+    assert.strictEqual(getCurrentTaskId(loop, ['t1', 't2', 't3'], tasks), 't3');
+
+    // Chain tasks that passed review are done for the loop before they are merged
+    loop.passedTaskIds = ['t1'];
+    assert.strictEqual(getCurrentTaskId(loop, [], tasks), 't2');
+  });
+
+  test('getReadyTasks treats skipped tasks as done', () => {
+    const withSkipped = tasks.map((t) =>
+      t.id === 't2' ? { ...t, status: 'skipped' as const } : t
+    );
+
+    assert.deepStrictEqual(getReadyTasks({ ...graph, tasks: withSkipped }, ['t1']), ['t3']);
+    assert.strictEqual(canStartGroup(['t3'], ['t1'], withSkipped), true);
+  });
+
+  test('canStartGroup treats cancelled dependencies as satisfied', () => {
+    const withCancelled = tasks.map((t) =>
+      t.id === 't2' ? { ...t, status: 'cancelled' as const } : t
+    );
+    assert.strictEqual(canStartGroup(['t3'], ['t1'], withCancelled), true);
+    assert.strictEqual(canStartGroup(['t3'], [], withCancelled), false);
+  });
+
+  test('getReadyTasks treats superseded tasks as done', () => {
+    const withSuperseded = tasks.map((t) =>
+      t.id === 't2' ? { ...t, status: 'superseded' as const } : t
+    );
+    assert.deepStrictEqual(getReadyTasks({ ...graph, tasks: withSuperseded }, ['t1']), ['t3']);
+  });
+
   test('buildPromptWithFeedback includes review issues for task', () => {
     const task: Task = {
       id: 't1',
@@ -411,4 +518,288 @@ describe('buildIterationPrompt', () => {
     const prompt = buildIterationPrompt(mockTask, null, 5, 10, []);
     assert.ok(prompt.includes('5/10'));
   });
+
+  test('renders operator hints in an Operator Guidance section', () => {
+    assert.ok(!buildIterationPrompt(mockTask, null, 1, 10, []).includes('Operator Guidance'));
+
+    const prompt = buildIterationPrompt(
+      mockTask,
+      null,
+      3,
+      10,
+      [],
+      ['The test runner is vitest, not jest']
+    );
+    assert.ok(prompt.includes('## Operator Guidance'));
+    assert.ok(prompt.includes('- The test runner is vitest, not jest'));
+  });
+
+  test('lists the task chain with the current task marked', () => {
+    assert.ok(!buildIterationPrompt(mockTask, null, 1, 10, [], [], [mockTask]).includes('Chain'));
+
+    const before = { ...mockTask, id: 'task-0', title: 'Schema' };
+    const after = { ...mockTask, id: 'task-2', title: 'Endpoint' };
+    const prompt = buildIterationPrompt(mockTask, null, 1, 10, [], [], [before, mockTask, after]);
+
+    assert.ok(prompt.includes('## Task Chain'));
+    assert.ok(prompt.includes('- [done] task-0: Schema'));
+    assert.ok(prompt.includes(`- [current] ${mockTask.id}: ${mockTask.title}`));
+    assert.ok(prompt.includes('- [next] task-2: Endpoint'));
+  });
+});
+
+describe('executeBuildIteration', () => {
+  let tempDir: string;
+  let previousBackend: AgentBackend;
+  let loopManager: LoopManager;
+
+  const createTask = (id: string): Task => ({
+    id,
+    title: `Task ${id}`,
+    description: `Build ${id}`,
+    status: 'pending',
+    dependencies: [],
+    estimatedIterations: 5,
+    assignedLoopId: null,
+  });
+
+  const createState = (tasks: Task[], totalCostUsd: number): OrchestratorState => ({
+    runId: 'run-1',
+    specPath: 'spec.md',
+    specHash: null,
+    specSnapshot: null,
+    effort: 'medium',
+    phase: 'build',
+    phaseHistory: [],
+    tasks,
+    taskGraph: { tasks, parallelGroups: [tasks.map((t) => t.id)], chains: [] },
+    activeLoops: [],
+    completedTasks: [],
+    pendingReview: false,
+    reviewType: null,
+    revisionCount: 0,
+    context: { discoveries: [], errors: [], decisions: [], reviewIssues: [] },
+    costs: {
+      totalCostUsd,
+      phaseCosts: {
+        analyze: 0,
+        enumerate: 0,
+        plan: 0,
+        build: 0,
+        review: 0,
+        revise: 0,
+        conflict: 0,
+        complete: 0,
+      },
+      loopCosts: {},
+    },
+    costLimits: {
+      perRunMaxUsd: 10,
+      perPhaseMaxUsd: 10,
+      perLoopMaxUsd: 10,
+      softLimitRatio: 0.8,
+      downgradeAtSoftLimit: true,
+    },
+    maxLoops: 4,
+    maxIterations: 20,
+    stateDir: tempDir,
+    verify: { commands: [], timeoutSeconds: 600 },
+    recoveryLadder: [],
+    taskRules: [],
+    baseBranch: null,
+    useWorktrees: false,
+    debug: false,
+    pendingConflicts: [],
+    wasEmptyProject: null,
+    codebaseAnalysis: null,
+  });
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'sq-build-test-'));
+    createDatabase(join(tempDir, 'state.db'));
+    getDatabase()
+      .prepare('INSERT INTO runs (id, spec_path, effort) VALUES (?, ?, ?)')
+      .run('run-1', 'spec.md', 'medium');
+    previousBackend = getAgentBackend();
+    loopManager = new LoopManager({ maxLoops: 4, maxIterations: 20, reviewInterval: 5 });
+  });
+
+  afterEach(() => {
+    setAgentBackend(previousBackend);
+    closeDatabase();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('starts no loops past a soft limit and stops once nothing is in flight', async () => {
+    const state = createState([createTask('t1')], 8);
+
+    await executeBuildIteration(state, loopManager);
+
+    assert.strictEqual(loopManager.getAllLoops().length, 0);
+    assert.strictEqual(isDrainRequestedInDb(getDatabase(), 'run-1'), true);
+  });
+
+  test('finishes in-flight loops one model tier down', async () => {
+    const [inFlight, waiting] = [createTask('t1'), createTask('t2')];
+    const state = createState([inFlight, waiting], 8.5);
+    const loop = await loopManager.createLoop([inFlight.id], state.tasks);
+    loopManager.updateLoopStatus(loop.loopId, 'running');
+    loop.worktreePath = tempDir;
+
+    const models: string[] = [];
+    setAgentBackend({
+      name: 'fake',
+      async *run(_prompt, config) {
+        models.push(config.model ?? '');
+        yield { type: 'text', text: 'Added the parser' };
+        yield { type: 'done' };
+      },
+    });
+
+    await executeBuildIteration(state, loopManager);
+
+    assert.deepStrictEqual(models, [getModelId('sonnet')]);
+    assert.strictEqual(loop.modelTier, 'sonnet');
+    assert.deepStrictEqual(
+      loopManager.getAllLoops().map((l) => l.taskIds),
+      [[inFlight.id]]
+    );
+    assert.strictEqual(isDrainRequestedInDb(getDatabase(), 'run-1'), false);
+  });
+
+  test('keeps escalated loops and their reviews under the model ceiling', async () => {
+    const task = createTask('t1');
+    const state = createState([task], 0);
+    state.costLimits.maxModelTier = 'haiku';
+    const loop = await loopManager.createLoop([task.id], state.tasks);
+    loopManager.updateLoopStatus(loop.loopId, 'running');
+    loop.worktreePath = tempDir;
+    loop.modelTier = 'opus';
+
+    const models: string[] = [];
+    setAgentBackend({
+      name: 'fake',
+      async *run(_prompt, config) {
+        models.push(`${config.phase}:${config.model}`);
+        if (config.phase === 'build') yield { type: 'text', text: 'TASK_COMPLETE' };
+        yield { type: 'done' };
+      },
+    });
+
+    await executeBuildIteration(state, loopManager);
+
+    assert.deepStrictEqual(
+      [...new Set(models)],
+      [`build:${getModelId('haiku')}`, `review:${getModelId('haiku')}`]
+    );
+  });
+
+  test('completes chained tasks only once the loop finishes the chain', async () => {
+    const [first, second, outside] = [createTask('c1'), createTask('c2'), createTask('o1')];
+    second.dependencies = ['c1'];
+    outside.dependencies = ['c1'];
+    const state = createState([first, second, outside], 0);
+    state.taskGraph!.chains = [['c1', 'c2']];
+    const loop = await loopManager.createLoop(['c1', 'c2'], state.tasks);
+    loopManager.updateLoopStatus(loop.loopId, 'running');
+    loop.worktreePath = tempDir;
+    persistLoop(state.runId, loop);
+
+    let builtTaskId = '';
+    let reviews = 0;
+    setAgentBackend({
+      name: 'fake',
+      async *run(prompt, config) {
+        if (config.phase === 'build') {
+          builtTaskId = prompt.match(/\*\*ID:\*\* (\S+)/)![1];
+          yield { type: 'text', text: 'TASK_COMPLETE' };
+        } else {
+          getDatabase()
+            .prepare(
+              'INSERT INTO loop_reviews (id, run_id, loop_id, task_id, passed) VALUES (?, ?, ?, ?, 1)'
+            )
+            .run(`review-${++reviews}`, state.runId, loop.loopId, builtTaskId);
+        }
+        yield { type: 'done' };
+      },
+    });
+
+    const afterFirst = await executeBuildIteration(state, loopManager);
+
+    // c1 passed review but is not merged yet, so its outside dependent must not start
+    assert.deepStrictEqual(afterFirst.completedTasks, []);
+    assert.deepStrictEqual(loop.passedTaskIds, ['c1']);
+    assert.ok(!getReadyTasks(state.taskGraph!, afterFirst.completedTasks).includes('o1'));
+
+    state.completedTasks = afterFirst.completedTasks;
+    const afterSecond = await executeBuildIteration(state, loopManager);
+
+    assert.strictEqual(builtTaskId, 'c2');
+    assert.deepStrictEqual(
+      loopManager.getAllLoops().map((l) => l.taskIds),
+      [['c1', 'c2']]
+    );
+    assert.deepStrictEqual(afterSecond.completedTasks, ['c1', 'c2']);
+    assert.deepStrictEqual(getReadyTasks(state.taskGraph!, afterSecond.completedTasks), ['o1']);
+  });
+
+  test('fails every chained task when the integration check reverts the merge', async () => {
+    const repoDir = join(tempDir, 'repo');
+    execSync(
+      `git init -q -b main "${repoDir}" && git -C "${repoDir}" commit -q --allow-empty -m init`
+    );
+    const worktreeManager = new WorktreeManager({
+      repoDir,
+      worktreeBaseDir: join(tempDir, 'worktrees'),
+      baseBranch: 'main',
+      runId: 'run-1',
+    });
+    loopManager = new LoopManager(
+      { maxLoops: 4, maxIterations: 20, reviewInterval: 5 },
+      worktreeManager
+    );
+    const [first, second] = [createTask('c1'), createTask('c2')];
+    second.dependencies = ['c1'];
+    const state = createState([first, second], 0);
+    state.taskGraph!.chains = [['c1', 'c2']];
+    state.verify.afterMerge = { commands: ['false'], onFailure: 'revert' };
+    const loop = await loopManager.createLoop(['c1', 'c2'], state.tasks);
+    loopManager.updateLoopStatus(loop.loopId, 'running');
+    persistLoop(state.runId, loop);
+
+    let builtTaskId = '';
+    let reviews = 0;
+    setAgentBackend({
+      name: 'fake',
+      async *run(prompt, config) {
+        if (config.phase === 'build') {
+          builtTaskId = prompt.match(/\*\*ID:\*\* (\S+)/)![1];
+          writeFileSync(join(config.cwd, `${builtTaskId}.txt`), 'done\n');
+          yield { type: 'text', text: 'TASK_COMPLETE' };
+        } else {
+          getDatabase()
+            .prepare(
+              'INSERT INTO loop_reviews (id, run_id, loop_id, task_id, passed) VALUES (?, ?, ?, ?, 1)'
+            )
+            .run(`review-${++reviews}`, state.runId, loop.loopId, builtTaskId);
+        }
+        yield { type: 'done' };
+      },
+    });
+
+    await executeBuildIteration(state, loopManager);
+    const result = await executeBuildIteration(state, loopManager);
+
+    assert.deepStrictEqual(result.completedTasks, []);
+    assert.strictEqual(loop.status, 'failed');
+    assert.deepStrictEqual(
+      state.tasks.map((t) => t.status),
+      ['failed', 'failed']
+    );
+    assert.match(state.context.errors[0], /after merging tasks c1, c2:/);
+    const check = getDatabase()
+      .prepare("SELECT content FROM context WHERE type = 'integration_check'")
+      .get() as { content: string };
+    assert.deepStrictEqual(JSON.parse(check.content).taskIds, ['c1', 'c2']);
+  });
 });
@@ -2,60 +2,57 @@ import { exec } from 'node:child_process';
 import { existsSync, readFileSync } from 'node:fs';
 import { join } from 'node:path';
 import { promisify } from 'node:util';
-import { query } from '@anthropic-ai/claude-agent-sdk';
 
 const execAsync = promisify(exec);
+import { getAgentBackend } from '../../agents/backend.js';
 import { BUILD_PROMPT } from '../../agents/prompts.js';
 import { createAgentConfig } from '../../agents/spawn.js';
-import { getEffortConfig, getModelId } from '../../config/effort.js';
+import { MODEL_TIER_ORDER, getEffortConfig, getModelId } from '../../config/effort.js';
+import { resolveLoopMaxIterations, resolveTaskOverrides } from '../../config/task-rules.js';
 import {
   checkLoopCostLimit,
   checkPhaseCostLimit,
+  checkSoftCostLimits,
   formatCostExceededError,
 } from '../../costs/index.js';
+import {
+  markHintsConsumedInDb,
+  readPendingHintsFromDb,
+  writeContextToDb,
+} from '../../db/context.js';
+import { getDatabase } from '../../db/index.js';
+import { getLoopStatusesFromDb } from '../../db/loops.js';
+import { isDrainRequestedInDb, requestDrainInDb } from '../../db/runs.js';
+import { insertTaskToDb } from '../../db/tasks.js';
 import type { DebugTracer } from '../../debug/index.js';
 import { IdleTimeoutError, createIdleMonitor } from '../../loops/idle-timeout.js';
 import type { LoopManager } from '../../loops/manager.js';
 import { detectStuck, updateStuckIndicators } from '../../loops/stuck-detection.js';
-import { MCP_SERVER_PATH } from '../../paths.js';
 import { persistLoop } from '../../state/index.js';
 import { formatToolInput, formatToolOutput } from '../../tui/tool-formatting.js';
 import type {
   LoopState,
+  ModelTier,
   OrchestratorState,
   ReviewIssue,
   Task,
   TaskGraph,
+  TokenUsage,
 } from '../../types/index.js';
+import type { WorktreeManager } from '../../worktrees/manager.js';
+import { recoverStuckLoop } from '../recovery.js';
+import { computeCriticalPathLengths } from '../schedule.js';
+import { getOverrunIteration, splitOverrunTask } from '../split.js';
 import {
-  type StreamEvent,
-  extractInputJsonDelta,
-  extractToolUseStart,
-  isContentBlockStop,
-  isInputJsonDelta,
-  isResultMessage,
-  isStreamEventMessage,
-  isToolUseStart,
-} from '../../types/index.js';
+  INTEGRATION_FIX_TASK_PREFIX,
+  createIntegrationFixTask,
+  describeVerifyFailure,
+  runVerifyCommands,
+  verifyFailureToIssue,
+} from '../verify.js';
+import { getRemainingTasks } from './plan.js';
 import { executeLoopReview } from './review.js';
-
-/**
- * Pending tool call tracking for accumulating streamed input JSON.
- * Maps content block index to tool metadata and accumulated input.
- */
-interface PendingToolCall {
-  name: string;
-  toolId: string;
-  inputJson: string;
-}
-
-/**
- * Type for completed tool calls to look up by tool_use_id for result formatting.
- */
-interface CompletedToolCall {
-  name: string;
-  input: Record<string, unknown>;
-}
+import { recordAgentUsage } from './run-agent.js';
 
 /**
  * Gets a snapshot of the current git state for detecting file changes.
@@ -109,7 +106,9 @@ export function buildIterationPrompt(
   scratchpad: string | null,
   iteration: number,
   maxIterations: number,
-  reviewIssues: ReviewIssue[]
+  reviewIssues: ReviewIssue[],
+  hints: string[] = [],
+  chain: Task[] = []
 ): string {
   // Static content first for API-level prompt caching
   let prompt = BUILD_PROMPT;
@@ -140,6 +139,26 @@ ${scratchpad || 'First iteration - no previous work. Start by understanding the
     }
   }
 
+  if (chain.length > 1) {
+    const currentIndex = chain.findIndex((t) => t.id === task.id);
+    prompt += '\n\n## Task Chain\n';
+    prompt +=
+      'This loop builds these tasks in order, in the same worktree. Work only on the current task; the next one starts after TASK_COMPLETE passes review.\n\n';
+    chain.forEach((t, i) => {
+      const marker = i < currentIndex ? 'done' : i === currentIndex ? 'current' : 'next';
+      prompt += `- [${marker}] ${t.id}: ${t.title}\n`;
+    });
+  }
+
+  if (hints.length > 0) {
+    prompt += '\n\n## Operator Guidance\n';
+    prompt +=
+      'A human operator sent these notes about this task. Trust them over your own assumptions:\n\n';
+    for (const hint of hints) {
+      prompt += `- ${hint}\n`;
+    }
+  }
+
   return prompt;
 }
 
@@ -153,15 +172,62 @@ export function buildPromptWithFeedback(
   return buildIterationPrompt(task, null, iteration, maxIterations, reviewIssues);
 }
 
-export function getNextParallelGroup(graph: TaskGraph, completedTasks: string[]): string[] | null {
-  for (const group of graph.parallelGroups) {
-    const allComplete = group.every((id) => completedTasks.includes(id));
-    if (!allComplete) {
-      // Return tasks from this group that aren't complete
-      return group.filter((id) => !completedTasks.includes(id));
-    }
+/**
+ * A task stops blocking its group and its dependents once it is completed,
+ * skipped by the operator, cancelled by a spec change, or superseded by
+ * subtasks it was split into.
+ */
+export function isTaskSatisfied(
+  taskId: string,
+  completedTasks: string[],
+  allTasks: Task[]
+): boolean {
+  if (completedTasks.includes(taskId)) return true;
+  const status = allTasks.find((t) => t.id === taskId)?.status;
+  return status === 'skipped' || status === 'cancelled' || status === 'superseded';
+}
+
+/**
+ * The task a loop is working on: the first of its tasks that is not done yet
+ * and has not passed review in this loop. Single-task loops always get their
+ * only task.
+ */
+export function getCurrentTaskId(
+  loop: LoopState,
+  completedTasks: string[],
+  allTasks: Task[]
+): string {
+  return (
+    loop.taskIds.find(
+      (id) => !loop.passedTaskIds.includes(id) && !isTaskSatisfied(id, completedTasks, allTasks)
+    ) ?? loop.taskIds[loop.taskIds.length - 1]
+  );
+}
+
+/**
+ * Tasks a new loop for a ready task should own. For a chained task this is the
+ * unfinished rest of its chain, cut short before any task that still waits on
+ * work outside the chain (that task gets its own loop once it is ready).
+ */
+export function getLoopTaskIds(
+  graph: TaskGraph,
+  taskId: string,
+  completedTasks: string[]
+): string[] {
+  const chain = graph.chains.find((c) => c.includes(taskId));
+  if (!chain) return [taskId];
+
+  const taskIds = [taskId];
+  for (const nextId of chain.slice(chain.indexOf(taskId) + 1)) {
+    if (isTaskSatisfied(nextId, completedTasks, graph.tasks)) continue;
+    const next = graph.tasks.find((t) => t.id === nextId);
+    const waitsOutsideChain = next?.dependencies.some(
+      (dep) => !chain.includes(dep) && !isTaskSatisfied(dep, completedTasks, graph.tasks)
+    );
+    if (!next || waitsOutsideChain) break;
+    taskIds.push(nextId);
   }
-  return null;
+  return taskIds;
 }
 
 export function canStartGroup(
@@ -173,12 +239,203 @@ export function canStartGroup(
     const task = allTasks.find((t) => t.id === taskId);
     if (!task) continue;
 
-    const depsComplete = task.dependencies.every((dep) => completedTasks.includes(dep));
+    const depsComplete = task.dependencies.every((dep) =>
+      isTaskSatisfied(dep, completedTasks, allTasks)
+    );
     if (!depsComplete) return false;
   }
   return true;
 }
 
+/**
+ * Ready queue for the build phase: every unfinished task whose dependencies
+ * are satisfied, regardless of which plan group it sits in. Tasks heading the
+ * longest remaining dependency chain (by estimated iterations) come first;
+ * plan groups break ties (earlier groups first, tasks outside any group last).
+ */
+export function getReadyTasks(graph: TaskGraph, completedTasks: string[]): string[] {
+  const priority = new Map<string, number>();
+  graph.parallelGroups.forEach((group, groupIndex) => {
+    for (const taskId of group) {
+      if (!priority.has(taskId)) priority.set(taskId, groupIndex);
+    }
+  });
+  const rank = (taskId: string) => priority.get(taskId) ?? graph.parallelGroups.length;
+
+  const unfinished = graph.tasks.filter((t) => !isTaskSatisfied(t.id, completedTasks, graph.tasks));
+  const pathLengths = computeCriticalPathLengths(unfinished);
+
+  return unfinished
+    .filter((t) => canStartGroup([t.id], completedTasks, graph.tasks))
+    .map((t) => t.id)
+    .sort((a, b) => pathLengths.get(b)! - pathLengths.get(a)! || rank(a) - rank(b));
+}
+
+export interface IntegrationCheckResult {
+  action: 'none' | 'reverted' | 'fix_task';
+  error?: string;
+  fixTaskId?: string;
+}
+
+/**
+ * Run the after-merge commands on the base branch right after a loop's merge,
+ * while the merge queue is held (or, for a merge the conflict agent finished,
+ * once it has committed). On failure the merge is either reverted or
+ * followed up by an integration fix task (one at a time: while a fix task is
+ * unfinished, later failures of other tasks are left to it). Every check is recorded as an
+ * integration_check context entry.
+ */
+export async function checkIntegration(
+  state: OrchestratorState,
+  worktreeManager: WorktreeManager,
+  loop: LoopState,
+  task: Task,
+  mergeCommit: string,
+  tracer?: DebugTracer
+): Promise<IntegrationCheckResult> {
+  const afterMerge = state.verify.afterMerge!;
+  const failure = await runVerifyCommands(
+    { commands: afterMerge.commands, timeoutSeconds: state.verify.timeoutSeconds },
+    process.cwd()
+  );
+
+  let result: IntegrationCheckResult = { action: 'none' };
+  if (failure) {
+    const error = describeVerifyFailure(failure, state.verify);
+    if (afterMerge.onFailure === 'revert') {
+      await worktreeManager.revertMerge(mergeCommit);
+      result = { action: 'reverted', error };
+    } else {
+      // A fix task whose own merge fails cannot be left to itself
+      const openFixTask = state.tasks.find(
+        (t) =>
+          t.id !== task.id &&
+          t.id.startsWith(INTEGRATION_FIX_TASK_PREFIX) &&
+          t.status !== 'failed' &&
+          !isTaskSatisfied(t.id, state.completedTasks, state.tasks)
+      );
+      let fixTaskId = openFixTask?.id;
+      if (!fixTaskId) {
+        const count = state.tasks.filter((t) => t.id.startsWith(INTEGRATION_FIX_TASK_PREFIX));
+        const fixTask = createIntegrationFixTask(
+          `${INTEGRATION_FIX_TASK_PREFIX}${count.length + 1}`,
+          task.id,
+          failure,
+          state.verify
+        );
+        insertTaskToDb(getDatabase(), state.runId, fixTask);
+        // The task graph shares this array, so the scheduler picks the task up
+        state.tasks.push(fixTask);
+        fixTaskId = fixTask.id;
+      }
+      result = { action: 'fix_task', error, fixTaskId };
+    }
+  }
+
+  writeContextToDb(getDatabase(), {
+    runId: state.runId,
+    type: 'integration_check',
+    taskId: task.id,
+    loopId: loop.loopId,
+    content: JSON.stringify({
+      mergeCommit,
+      taskIds: [...loop.passedTaskIds, task.id],
+      passed: failure === null,
+      ...(failure && {
+        command: failure.command,
+        exitCode: failure.exitCode,
+        output: failure.output,
+      }),
+      action: result.action,
+      ...(result.fixTaskId && { fixTaskId: result.fixTaskId }),
+    }),
+  });
+  tracer?.logDecision(
+    'integration_check',
+    { taskId: task.id, mergeCommit, commands: afterMerge.commands },
+    failure ? result.action : 'passed',
+    result.error ?? 'All after-merge commands passed',
+    loop.loopId
+  );
+  return result;
+}
+
+/**
+ * Fail every task a reverted merge carried: the loop's last task and any chain
+ * tasks it passed before it, which would otherwise stay pending on a failed
+ * loop. Returns the error naming them.
+ */
+export function failRevertedTasks(
+  state: OrchestratorState,
+  loop: LoopState,
+  task: Task,
+  error: string
+): string {
+  const taskIds = [...loop.passedTaskIds, task.id];
+  for (const id of taskIds) {
+    const reverted = state.tasks.find((t) => t.id === id);
+    if (reverted) {
+      reverted.status = 'failed';
+    }
+  }
+  const errorMsg =
+    taskIds.length === 1
+      ? `Integration check failed after merging task ${task.id}: ${error}. The merge was reverted; retry with \`ralphs task retry ${task.id}\``
+      : `Integration check failed after merging tasks ${taskIds.join(', ')}: ${error}. The merge was reverted; retry each with \`ralphs task retry <id>\``;
+  state.context.errors.push(errorMsg);
+  return errorMsg;
+}
+
+/**
+ * How long to wait before re-checking the database when every unfinished loop
+ * is paused, so the run loop does not spin while nothing can make progress.
+ */
+const PAUSED_POLL_INTERVAL_MS = 2000;
+
+/**
+ * Apply pause/resume requests written to state.db by `ralphs loop` or the TUI.
+ * Loops paused in the database stop being scheduled; loops resumed there run
+ * again. Returns the loops whose status changed.
+ */
+export function syncPausedLoops(runId: string, loopManager: LoopManager): LoopState[] {
+  const statuses = getLoopStatusesFromDb(getDatabase(), runId);
+  const changed: LoopState[] = [];
+
+  for (const loop of loopManager.getAllLoops()) {
+    const dbStatus = statuses.get(loop.loopId);
+    if (dbStatus === 'paused' && ['running', 'pending', 'interrupted'].includes(loop.status)) {
+      loopManager.updateLoopStatus(loop.loopId, 'paused');
+      changed.push(loop);
+    } else if (dbStatus === 'running' && loop.status === 'paused') {
+      loopManager.updateLoopStatus(loop.loopId, 'running');
+      changed.push(loop);
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Move a loop one model tier below its task's build model for the iterations
+ * it has left. Returns the new tier, or null when the loop already builds on
+ * it or there is no cheaper tier.
+ */
+function downgradeLoopModel(
+  state: OrchestratorState,
+  loop: LoopState,
+  task: Task
+): ModelTier | null {
+  const base =
+    resolveTaskOverrides(task, state.taskRules).model ?? getEffortConfig(state.effort).models.build;
+  const target = MODEL_TIER_ORDER[MODEL_TIER_ORDER.indexOf(base) - 1];
+  const current = loop.modelTier ?? base;
+  if (!target || MODEL_TIER_ORDER.indexOf(current) <= MODEL_TIER_ORDER.indexOf(target)) {
+    return null;
+  }
+  loop.modelTier = target;
+  return target;
+}
+
 export interface BuildResult {
   completedTasks: string[];
   activeLoops: LoopState[];
@@ -203,6 +460,11 @@ export async function executeBuildIteration(
   const dbPath = join(state.stateDir, 'state.db');
   const effortConfig = getEffortConfig(state.effort);
 
+  // Pick up loops paused or resumed from another process before scheduling
+  for (const loop of syncPausedLoops(state.runId, loopManager)) {
+    onLoopStateChange?.(loop);
+  }
+
   // Check if build phase has exceeded its cost limit
   const phaseCostCheck = checkPhaseCostLimit('build', state.costs, state.costLimits);
   if (phaseCostCheck.exceeded) {
@@ -231,46 +493,146 @@ export async function executeBuildIteration(
     }
   }
 
-  // Check for stuck loops
+  // Costs of recovery and split agents run on a loop's behalf
+  const supervisionCosts: Record<string, number> = {};
+
+  // Check for stuck loops, trying the preset's recovery ladder before giving up
   for (const loop of loopManager.getActiveLoops()) {
     const stuckResult = detectStuck(loop, { stuckThreshold: effortConfig.stuckThreshold }, tracer);
     if (stuckResult) {
+      const task = state.tasks.find(
+        (t) => t.id === getCurrentTaskId(loop, state.completedTasks, state.tasks)
+      )!;
+      const recovery = await recoverStuckLoop(
+        state,
+        loop,
+        task,
+        stuckResult,
+        loopManager,
+        onLoopOutput,
+        tracer
+      );
+      if (recovery.costUsd > 0) supervisionCosts[loop.loopId] = recovery.costUsd;
+      if (recovery.recovered) {
+        onLoopStateChange?.(loop);
+        continue;
+      }
+
       loopManager.updateLoopStatus(loop.loopId, 'stuck');
       return {
         completedTasks: state.completedTasks,
         activeLoops: loopManager.getAllLoops(),
         stuck: true,
         pendingConflicts: [],
-        loopCosts: {},
+        loopCosts: supervisionCosts,
       };
     }
   }
 
+  // Split tasks that run well past their estimate; checked once, when the loop reaches that point
+  for (const loop of loopManager.getActiveLoops()) {
+    const task = state.tasks.find(
+      (t) => t.id === getCurrentTaskId(loop, state.completedTasks, state.tasks)
+    )!;
+    if (loop.iteration !== getOverrunIteration(loop, task, state.tasks)) continue;
+
+    const split = await splitOverrunTask(state, loop, task, loopManager, onLoopOutput, tracer);
+    supervisionCosts[loop.loopId] = (supervisionCosts[loop.loopId] ?? 0) + split.costUsd;
+    if (split.split) onLoopStateChange?.(loop);
+  }
+
+  // While draining, only loops already running get another iteration
+  let draining = isDrainRequestedInDb(getDatabase(), state.runId);
+  if (draining) {
+    tracer?.logDecision(
+      'drain',
+      { activeLoops: loopManager.getActiveLoops().length },
+      'spawn_skipped',
+      'Drain requested; not starting or restarting loops'
+    );
+  }
+
   // Restart interrupted loops (from previous process termination)
-  for (const loop of loopManager.getAllLoops()) {
+  for (const loop of draining ? [] : loopManager.getAllLoops()) {
     if (loop.status === 'interrupted') {
       tracer?.logLoopStatusChange(loop.loopId, 'running', loop.taskIds);
       loopManager.updateLoopStatus(loop.loopId, 'running');
     }
   }
 
-  // Spawn new loops for available tasks
-  const nextGroup = getNextParallelGroup(graph, state.completedTasks);
-  if (nextGroup && canStartGroup(nextGroup, state.completedTasks, state.tasks)) {
+  // Past a soft cost limit the build winds down: loops in flight finish their
+  // tasks, optionally on a cheaper model, but no new loops start
+  const softLimits = checkSoftCostLimits(
+    state.costs,
+    state.costLimits,
+    'build',
+    loopManager.getActiveLoops().map((l) => l.loopId)
+  );
+  const windingDown = softLimits.some((r) => r.type !== 'loop');
+  if (state.costLimits.downgradeAtSoftLimit) {
+    for (const loop of loopManager.getActiveLoops()) {
+      if (!windingDown && !softLimits.some((r) => r.loopId === loop.loopId)) continue;
+      const task = state.tasks.find(
+        (t) => t.id === getCurrentTaskId(loop, state.completedTasks, state.tasks)
+      )!;
+      const tier = downgradeLoopModel(state, loop, task);
+      if (!tier) continue;
+
+      const details = `Soft cost limit reached; building the rest of ${task.id} with ${tier}`;
+      onLoopOutput?.(loop.loopId, `[cost] ${details}\n`);
+      loopManager.appendOutput(loop.loopId, `[cost] ${details}`);
+      tracer?.logDecision(
+        'cost_soft_limit',
+        { taskId: task.id, limits: softLimits.map((r) => r.type) },
+        'model_downgraded',
+        details,
+        loop.loopId
+      );
+      onLoopStateChange?.(loop);
+    }
+  }
+  if (windingDown && !draining) {
+    tracer?.logDecision(
+      'cost_soft_limit',
+      { activeLoops: loopManager.getActiveLoops().length },
+      'spawn_skipped',
+      'Soft cost limit reached; not starting new loops'
+    );
+    // Once nothing is in flight, stop the way a drain does so a higher limit can resume the run
+    if (
+      loopManager.getActiveLoops().length === 0 &&
+      loopManager.getPausedLoops().length === 0 &&
+      getRemainingTasks(state.tasks, state.completedTasks).length > 0
+    ) {
+      requestDrainInDb(getDatabase(), state.runId);
+      draining = true;
+    }
+  }
+
+  // Spawn new loops for ready tasks, up to maxLoops
+  if (!draining && !windingDown) {
     // Get task IDs that already have loops (to avoid duplicates)
     // Include ALL loops regardless of status - stuck/failed loops should NOT trigger
     // new loops for the same task, as that causes duplicate scaffolding and work
     const tasksWithLoops = new Set(loopManager.getAllLoops().flatMap((l) => l.taskIds));
 
-    while (loopManager.canSpawnMore() && nextGroup.length > 0) {
-      const taskId = nextGroup.shift()!;
+    for (const taskId of getReadyTasks(graph, state.completedTasks)) {
+      if (!loopManager.canSpawnMore()) break;
 
       // Skip if task already has a loop (prevents duplicate scaffolding)
       if (tasksWithLoops.has(taskId)) {
         continue;
       }
 
-      const loop = await loopManager.createLoop([taskId], state.tasks);
+      const loopTaskIds = getLoopTaskIds(graph, taskId, state.completedTasks);
+      const loop = await loopManager.createLoop(loopTaskIds, state.tasks);
+      // Task rules can give a task more (or fewer) iterations than the preset default
+      loop.maxIterations = resolveLoopMaxIterations(
+        state.tasks.filter((t) => loopTaskIds.includes(t.id)),
+        state.taskRules,
+        state.maxIterations
+      );
+      for (const id of loopTaskIds) tasksWithLoops.add(id);
       loopManager.updateLoopStatus(loop.loopId, 'running');
       // Persist loop to database immediately so review agents can find it
       persistLoop(state.runId, loop);
@@ -280,7 +642,7 @@ export async function executeBuildIteration(
       // on bin/linkcheck") is invalid because that file doesn't exist in the new worktree.
       if (state.context.reviewIssues) {
         state.context.reviewIssues = state.context.reviewIssues.filter(
-          (issue) => issue.taskId !== taskId
+          (issue) => !issue.taskId || !loopTaskIds.includes(issue.taskId)
         );
       }
 
@@ -289,9 +651,20 @@ export async function executeBuildIteration(
     }
   }
 
+  // Nothing can run until an operator resumes a paused loop
+  if (
+    !draining &&
+    loopManager.getActiveLoops().length === 0 &&
+    loopManager.getPausedLoops().length > 0
+  ) {
+    await new Promise((resolve) => setTimeout(resolve, PAUSED_POLL_INTERVAL_MS));
+  }
+
   // Execute one iteration for each active loop
   const loopPromises = loopManager.getActiveLoops().map(async (loop) => {
-    const task = state.tasks.find((t) => t.id === loop.taskIds[0])!;
+    const task = state.tasks.find(
+      (t) => t.id === getCurrentTaskId(loop, state.completedTasks, state.tasks)
+    )!;
 
     // Use worktree path if available, otherwise fall back to process.cwd()
     const loopCwd = loop.worktreePath || process.cwd();
@@ -299,30 +672,50 @@ export async function executeBuildIteration(
     // Read scratchpad from previous iteration
     const scratchpad = readScratchpad(loopCwd, loop.loopId, state.stateDir);
 
+    // Operator hints are delivered once, on the first iteration after they were sent
+    const hints = readPendingHintsFromDb(getDatabase(), state.runId, loop.loopId, loop.taskIds);
+
     const prompt = buildIterationPrompt(
       task,
       scratchpad,
       loop.iteration + 1,
       loop.maxIterations,
-      state.context.reviewIssues ?? []
+      state.context.reviewIssues ?? [],
+      hints.map((h) => h.content),
+      loop.taskIds.map((id) => state.tasks.find((t) => t.id === id)).filter((t) => t !== undefined)
+    );
+
+    if (hints.length > 0) {
+      markHintsConsumedInDb(
+        getDatabase(),
+        hints.map((h) => h.id)
+      );
+      tracer?.logDecision(
+        'operator_hint',
+        { hints: hints.map((h) => h.content) },
+        'delivered',
+        `Delivered ${hints.length} operator hint(s) at iteration ${loop.iteration + 1}`,
+        loop.loopId
+      );
+    }
+    const model = getModelId(
+      loop.modelTier ??
+        resolveTaskOverrides(task, state.taskRules).model ??
+        effortConfig.models.build,
+      state.costLimits.maxModelTier
     );
-    const model = getModelId(effortConfig.models.build);
     const config = createAgentConfig('build', loopCwd, state.runId, dbPath, model);
 
     let output = '';
     let errorMessage: string | null = null;
     let costUsd = 0;
+    let usage: TokenUsage | undefined;
     const startTime = Date.now();
 
     // Buffers for accumulating partial lines from streaming output
     let lineBuffer = '';
     let thinkingLineBuffer = '';
 
-    // Pending tool calls map: index -> tool info with accumulated input JSON
-    const pendingToolCalls = new Map<number, PendingToolCall>();
-    // Completed tool calls map: toolId -> tool info with parsed input (for result formatting)
-    const completedToolCalls = new Map<string, CompletedToolCall>();
-
     // Start streaming writer
     const writer = tracer?.startAgentCall({
       phase: 'build',
@@ -331,6 +724,14 @@ export async function executeBuildIteration(
       prompt,
     });
 
+    const agentConfig = {
+      ...config,
+      maxTurns: 10_000, // Emergency backstop only; idle timeout is the real limit
+      loopId: loop.loopId,
+      taskIds: loop.taskIds,
+      iteration: loop.iteration + 1,
+    };
+
     // Create idle monitor to detect hung agents
     const idleMonitor = createIdleMonitor();
 
@@ -341,207 +742,60 @@ export async function executeBuildIteration(
       // Race the query loop against the idle timeout
       await Promise.race([
         (async () => {
-          for await (const message of query({
-            prompt,
-            options: {
-              cwd: loopCwd,
-              allowedTools: config.allowedTools,
-              maxTurns: 10_000, // Emergency backstop only; idle timeout is the real limit
-              model: config.model,
-              includePartialMessages: true,
-              mcpServers: {
-                'sq-db': {
-                  command: 'node',
-                  args: [MCP_SERVER_PATH, state.runId, dbPath],
-                },
-              },
-            },
-          })) {
-            // Record activity on any message to reset idle timeout
+          for await (const event of getAgentBackend().run(prompt, agentConfig)) {
+            // Record activity on any event to reset idle timeout
             idleMonitor.recordActivity();
             loopManager.updateLastActivity(loop.loopId);
 
-            // Handle streaming events for real-time thinking output and tool tracking
-            if (isStreamEventMessage(message)) {
-              const event = message.event as StreamEvent;
-
-              // Handle tool_use content block start - store in pending map
-              if (isToolUseStart(event)) {
-                const toolInfo = extractToolUseStart(event);
-                if (toolInfo) {
-                  pendingToolCalls.set(toolInfo.index, {
-                    name: toolInfo.toolName,
-                    toolId: toolInfo.toolId,
-                    inputJson: '',
-                  });
-                }
-              }
-
-              // Handle input_json_delta - accumulate JSON in pending map
-              if (isInputJsonDelta(event)) {
-                const deltaInfo = extractInputJsonDelta(event);
-                if (deltaInfo) {
-                  const pending = pendingToolCalls.get(deltaInfo.index);
-                  if (pending) {
-                    pending.inputJson += deltaInfo.partialJson;
-                  }
-                }
-              }
-
-              // Handle content_block_stop - parse input, display compact summary, move to completed
-              if (isContentBlockStop(event) && event.index !== undefined) {
-                const pending = pendingToolCalls.get(event.index);
-                if (pending) {
-                  // Try to parse the accumulated JSON
-                  let parsedInput: Record<string, unknown> = {};
-                  try {
-                    if (pending.inputJson) {
-                      parsedInput = JSON.parse(pending.inputJson);
-                    }
-                  } catch {
-                    // If JSON parsing fails, use empty object
-                    parsedInput = {};
-                  }
-
-                  // Store in completed map for result formatting
-                  completedToolCalls.set(pending.toolId, {
-                    name: pending.name,
-                    input: parsedInput,
-                  });
-
-                  // Format compact summary for TUI
-                  const toolText = formatToolInput(pending.name, parsedInput);
-                  loopManager.appendOutput(loop.loopId, toolText);
-
-                  // Write full details to agent log
-                  writer?.appendOutput(`\n${toolText}\n`);
-                  writer?.appendOutput(`Input: ${JSON.stringify(parsedInput, null, 2)}\n`);
-
-                  // Clean up pending entry
-                  pendingToolCalls.delete(event.index);
-                }
-              }
-
-              // Handle thinking delta events
-              if (event.type === 'content_block_delta' && event.delta?.type === 'thinking_delta') {
-                const thinkingText = event.delta.thinking || '';
-                if (thinkingText) {
-                  writer?.appendOutput(thinkingText);
-                  onLoopOutput?.(loop.loopId, `[thinking] ${thinkingText}`);
-
-                  // Buffer thinking text and only output complete lines to TUI
-                  thinkingLineBuffer += thinkingText;
-                  const lines = thinkingLineBuffer.split('\n');
-                  thinkingLineBuffer = lines.pop() || '';
-                  for (const line of lines) {
-                    loopManager.appendOutput(loop.loopId, `[thinking] ${line}`);
-                  }
+            switch (event.type) {
+              case 'text': {
+                output += event.text;
+                writer?.appendOutput(event.text);
+                onLoopOutput?.(loop.loopId, event.text);
+
+                // Buffer text and only output complete lines to TUI
+                lineBuffer += event.text;
+                const lines = lineBuffer.split('\n');
+                // Keep the last part (incomplete line) in the buffer
+                lineBuffer = lines.pop() || '';
+                for (const line of lines) {
+                  loopManager.appendOutput(loop.loopId, line);
                 }
+                break;
               }
-              // Handle text delta events
-              if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
-                const textDelta = event.delta.text || '';
-                if (textDelta) {
-                  output += textDelta;
-                  writer?.appendOutput(textDelta);
-                  onLoopOutput?.(loop.loopId, textDelta);
-
-                  // Buffer text and only output complete lines to TUI
-                  lineBuffer += textDelta;
-                  const lines = lineBuffer.split('\n');
-                  // Keep the last part (incomplete line) in the buffer
-                  lineBuffer = lines.pop() || '';
-                  // Output complete lines
-                  for (const line of lines) {
-                    loopManager.appendOutput(loop.loopId, line);
-                  }
+              case 'thinking': {
+                writer?.appendOutput(`\n[thinking] ${JSON.stringify(event.text)}\n`);
+                onLoopOutput?.(loop.loopId, `[thinking] ${event.text}`);
+
+                // Buffer thinking text and only output complete lines to TUI
+                thinkingLineBuffer += event.text;
+                const lines = thinkingLineBuffer.split('\n');
+                thinkingLineBuffer = lines.pop() || '';
+                for (const line of lines) {
+                  loopManager.appendOutput(loop.loopId, `[thinking] ${line}`);
                 }
+                break;
               }
-            }
-            if (message.type === 'assistant' && message.message?.content) {
-              for (const block of message.message.content) {
-                // Only handle text blocks that weren't already streamed
-                if ('text' in block && !output.includes(block.text)) {
-                  output += block.text;
-                  writer?.appendOutput(block.text);
-                  onLoopOutput?.(loop.loopId, block.text);
-                  loopManager.appendOutput(loop.loopId, block.text);
-                }
-                // Capture thinking blocks to show activity during extended thinking
-                if (
-                  'type' in block &&
-                  block.type === 'thinking' &&
-                  'thinking' in block &&
-                  typeof block.thinking === 'string'
-                ) {
-                  const thinkingText = `[thinking] ${block.thinking}\n`;
-                  writer?.appendOutput(thinkingText);
-                  onLoopOutput?.(loop.loopId, thinkingText);
-                  loopManager.appendOutput(loop.loopId, thinkingText);
-                }
+              case 'tool_start': {
+                // Compact summary for TUI, full details to agent log
+                const toolText = formatToolInput(event.name, event.input);
+                loopManager.appendOutput(loop.loopId, toolText);
+                writer?.appendOutput(`\n${toolText}\n`);
+                writer?.appendOutput(`Input: ${JSON.stringify(event.input, null, 2)}\n`);
+                break;
               }
-            }
-            // Handle user messages with tool_result blocks to display compact output summaries
-            if (message.type === 'user' && message.message?.content) {
-              const content = message.message.content;
-              // Content can be array of blocks
-              if (Array.isArray(content)) {
-                for (const block of content) {
-                  if (
-                    typeof block === 'object' &&
-                    block !== null &&
-                    'type' in block &&
-                    block.type === 'tool_result' &&
-                    'tool_use_id' in block
-                  ) {
-                    const toolUseId = block.tool_use_id as string;
-                    const completedTool = completedToolCalls.get(toolUseId);
-                    if (completedTool) {
-                      // Extract the result content
-                      let resultContent: unknown = null;
-                      if ('content' in block) {
-                        // Content can be string or array of content blocks
-                        const blockContent = block.content;
-                        if (typeof blockContent === 'string') {
-                          resultContent = blockContent;
-                        } else if (Array.isArray(blockContent)) {
-                          // Try to extract text from content array
-                          const textParts = blockContent
-                            .filter(
-                              (c): c is { type: 'text'; text: string } =>
-                                typeof c === 'object' &&
-                                c !== null &&
-                                'type' in c &&
-                                c.type === 'text' &&
-                                'text' in c
-                            )
-                            .map((c) => c.text);
-                          resultContent = textParts.join('');
-                        }
-                      }
-
-                      // Format compact output summary for TUI
-                      const outputText = formatToolOutput(
-                        completedTool.name,
-                        completedTool.input,
-                        resultContent
-                      );
-                      if (outputText) {
-                        loopManager.appendOutput(loop.loopId, outputText);
-                      }
-
-                      // Write full result to agent log
-                      writer?.appendOutput(`Result: ${JSON.stringify(resultContent)}\n`);
-
-                      // Clean up completed tool entry
-                      completedToolCalls.delete(toolUseId);
-                    }
-                  }
+              case 'tool_result': {
+                const outputText = formatToolOutput(event.name, event.input, event.result);
+                if (outputText) {
+                  loopManager.appendOutput(loop.loopId, outputText);
                 }
+                writer?.appendOutput(`Result: ${JSON.stringify(event.result)}\n`);
+                break;
               }
-            }
-            if (isResultMessage(message)) {
-              costUsd = message.total_cost_usd || 0;
+              case 'cost':
+                costUsd = event.costUsd;
+                usage = event.usage;
+                break;
             }
           }
           // Flush any remaining buffered content
@@ -559,6 +813,7 @@ export async function executeBuildIteration(
 
       const durationMs = Date.now() - startTime;
       await writer?.complete(costUsd, durationMs);
+      recordAgentUsage(agentConfig, costUsd, usage);
 
       // Check for iteration progress signal (Ralph-style micro-iteration)
       if (output.includes('ITERATION_DONE')) {
@@ -580,6 +835,49 @@ export async function executeBuildIteration(
 
       // Check for completion signal
       if (output.includes('TASK_COMPLETE')) {
+        // Configured verify commands must pass before the task is worth a review
+        if (state.verify.commands.length > 0) {
+          onLoopOutput?.(loop.loopId, '[verify] Running verify commands...\n');
+          loopManager.appendOutput(loop.loopId, '[verify] Running verify commands...');
+          const verifyFailure = await runVerifyCommands(state.verify, loopCwd);
+          if (verifyFailure) {
+            const verifyError = describeVerifyFailure(verifyFailure, state.verify);
+            onLoopOutput?.(loop.loopId, `[verify] ${verifyError}\n`);
+            loopManager.appendOutput(loop.loopId, `[verify] ${verifyError}`);
+            tracer?.logDecision(
+              'verify',
+              { taskId: task.id, command: verifyFailure.command, exitCode: verifyFailure.exitCode },
+              'failed',
+              verifyError,
+              loop.loopId
+            );
+
+            // The failure replaces any earlier feedback for this task
+            state.context.reviewIssues = (state.context.reviewIssues || []).filter(
+              (i) => i.taskId !== task.id
+            );
+            state.context.reviewIssues.push(
+              verifyFailureToIssue(task.id, verifyFailure, state.verify)
+            );
+
+            const gitStateAfter = await getGitState(loopCwd);
+            loopManager.incrementIteration(loop.loopId);
+            updateStuckIndicators(
+              loop,
+              verifyError,
+              filesChangedBetweenStates(gitStateBefore, gitStateAfter)
+            );
+            return { loopId: loop.loopId, taskId: task.id, completed: false, costUsd };
+          }
+          tracer?.logDecision(
+            'verify',
+            { taskId: task.id, commands: state.verify.commands },
+            'passed',
+            'All verify commands passed',
+            loop.loopId
+          );
+        }
+
         // Run per-loop review before considering task complete
         loopManager.updateReviewStatus(loop.loopId, 'in_progress');
         // Notify TUI of review start
@@ -618,10 +916,59 @@ export async function executeBuildIteration(
             (i) => i.taskId !== task.id
           );
 
+          // A chained loop moves on to its next task in the same worktree and merges once at the end.
+          // The passed task only counts as completed once that merge lands on the base branch.
+          const nextTaskId = loop.taskIds
+            .slice(loop.taskIds.indexOf(task.id) + 1)
+            .find((id) => !isTaskSatisfied(id, state.completedTasks, state.tasks));
+          if (nextTaskId) {
+            try {
+              const commitMsg = `Complete task: ${task.title}`;
+              await execAsync(
+                `git add -A && git diff --cached --quiet || git commit -m "${commitMsg.replace(/"/g, '\\"')}"`,
+                { cwd: loopCwd }
+              );
+            } catch {
+              // Ignore - may have nothing to commit
+            }
+            onLoopOutput?.(loop.loopId, `[chain] Moving on to task ${nextTaskId}\n`);
+            loopManager.appendOutput(loop.loopId, `[chain] Moving on to task ${nextTaskId}`);
+            tracer?.logDecision(
+              'task_chain',
+              { completedTaskId: task.id, nextTaskId },
+              'advanced',
+              `Task ${task.id} passed review; continuing with ${nextTaskId} in the same worktree`,
+              loop.loopId
+            );
+            loop.passedTaskIds.push(task.id);
+            return { loopId: loop.loopId, taskId: task.id, completed: false, costUsd };
+          }
+
           // Merge worktree if using worktrees
           const worktreeManager = loopManager.getWorktreeManager();
           if (loop.worktreePath && worktreeManager) {
-            const mergeResult = await worktreeManager.merge(loop.loopId);
+            const afterMerge = state.verify.afterMerge;
+            let integration = null as IntegrationCheckResult | null;
+            const mergeResult = await worktreeManager.merge(
+              loop.loopId,
+              afterMerge?.commands.length
+                ? async (mergeCommit) => {
+                    onLoopOutput?.(loop.loopId, '[verify] Running after-merge commands...\n');
+                    loopManager.appendOutput(
+                      loop.loopId,
+                      '[verify] Running after-merge commands...'
+                    );
+                    integration = await checkIntegration(
+                      state,
+                      worktreeManager,
+                      loop,
+                      task,
+                      mergeCommit,
+                      tracer
+                    );
+                  }
+                : undefined
+            );
 
             if (mergeResult.status === 'conflict') {
               // Return conflict info for orchestrator to handle in conflict phase
@@ -661,6 +1008,26 @@ export async function executeBuildIteration(
 
             // Cleanup worktree on successful merge
             await worktreeManager.cleanup(loop.loopId);
+
+            if (integration?.action === 'reverted') {
+              const errorMsg = failRevertedTasks(state, loop, task, integration.error!);
+              onLoopOutput?.(loop.loopId, `[verify] ${errorMsg}\n`);
+              loopManager.appendOutput(loop.loopId, `[verify] ${errorMsg}`);
+              loopManager.updateLoopStatus(loop.loopId, 'failed');
+              loop.stuckIndicators.lastError = errorMsg;
+              tracer?.logError(`Loop ${loop.loopId}: ${errorMsg}`, 'build');
+              return { loopId: loop.loopId, taskId: task.id, completed: false, costUsd };
+            }
+            if (integration?.action === 'fix_task') {
+              onLoopOutput?.(
+                loop.loopId,
+                `[verify] ${integration.error}; opened task ${integration.fixTaskId}\n`
+              );
+              loopManager.appendOutput(
+                loop.loopId,
+                `[verify] ${integration.error}; opened task ${integration.fixTaskId}`
+              );
+            }
           } else {
             // Not using worktrees - auto-commit changes for this task
             // This ensures scaffolding and other tasks are properly committed
@@ -834,7 +1201,10 @@ export async function executeBuildIteration(
   });
 
   const results = await Promise.all(loopPromises);
-  const newlyCompleted = results.filter((r) => r.completed).map((r) => r.taskId);
+  // A finished loop completes its task along with the chain tasks it passed earlier
+  const newlyCompleted = results
+    .filter((r) => r.completed)
+    .flatMap((r) => [...(loopManager.getLoop(r.loopId)?.passedTaskIds ?? []), r.taskId]);
 
   // Aggregate loop costs from this iteration
   const loopCosts: Record<string, number> = {};
@@ -843,6 +1213,9 @@ export async function executeBuildIteration(
       loopCosts[result.loopId] = result.costUsd;
     }
   }
+  for (const [loopId, costUsd] of Object.entries(supervisionCosts)) {
+    loopCosts[loopId] = (loopCosts[loopId] ?? 0) + costUsd;
+  }
 
   // Collect ALL conflicts from parallel loops (not just the first one)
   const pendingConflicts = results
@@ -855,6 +1228,12 @@ export async function executeBuildIteration(
     )
     .map((r) => r.conflict);
 
+  // Apply pause requests made while this iteration ran, so saving the run does
+  // not overwrite them with the in-memory status
+  for (const loop of syncPausedLoops(state.runId, loopManager)) {
+    onLoopStateChange?.(loop);
+  }
+
   // If there are conflicts, prioritize resolving them before review/stuck checks
   if (pendingConflicts.length > 0) {
     return {
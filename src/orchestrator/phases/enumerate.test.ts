@@ -3,9 +3,11 @@ import { mkdir, rm, writeFile } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 import { describe, test } from 'node:test';
+import { initializeState } from '../../state/index.js';
 import { isEmptyProject } from './analyze.js';
 import {
   EnumerateIncompleteError,
+  buildEnumeratePrompt,
   formatCodebaseAnalysis,
   validateTaskGranularity,
 } from './enumerate.js';
@@ -108,6 +110,60 @@ describe('EnumerateIncompleteError', () => {
   });
 });
 
+describe('buildEnumeratePrompt', () => {
+  function createState() {
+    return initializeState({
+      specPath: '/path/to/spec.md',
+      effort: 'medium',
+      stateDir: '.sq',
+      maxLoops: 4,
+      maxIterations: 20,
+      useWorktrees: false,
+    });
+  }
+
+  test('enumerates from scratch when no spec snapshot is stored', () => {
+    const prompt = buildEnumeratePrompt(createState(), '# New spec');
+    assert.ok(prompt.startsWith('# ENUMERATE PHASE\n'));
+    assert.ok(prompt.includes('## Spec File Content:\n# New spec'));
+    assert.ok(!prompt.includes('cancel_task'));
+  });
+
+  test('diffs the stored snapshot against the new spec and lists existing tasks', () => {
+    const state = createState();
+    state.specSnapshot = '# Old spec';
+    state.tasks = [
+      {
+        id: 'task-1',
+        title: 'Build login',
+        description: 'Add the login form',
+        status: 'completed',
+        dependencies: [],
+        estimatedIterations: 5,
+        assignedLoopId: null,
+      },
+      {
+        id: 'task-2',
+        title: 'Build signup',
+        description: 'Add the signup form',
+        status: 'pending',
+        dependencies: ['task-1'],
+        estimatedIterations: 5,
+        assignedLoopId: null,
+      },
+    ];
+
+    const prompt = buildEnumeratePrompt(state, '# New spec');
+
+    assert.ok(prompt.includes('INCREMENTAL'));
+    assert.ok(prompt.includes('cancel_task'));
+    assert.ok(prompt.includes('## Previous Spec File Content:\n# Old spec'));
+    assert.ok(prompt.includes('## Current Spec File Content:\n# New spec'));
+    assert.ok(prompt.includes('- [completed] task-1: Build login'));
+    assert.ok(prompt.includes('- [pending] task-2: Build signup (depends on: task-1)'));
+  });
+});
+
 describe('Analyze → Enumerate Integration', () => {
   describe('formatCodebaseAnalysis', () => {
     test('returns EMPTY_PROJECT_ANALYSIS for null analysis', () => {
@@ -1,6 +1,12 @@
 import assert from 'node:assert';
 import { describe, test } from 'node:test';
-import { PlanIncompleteError, buildTaskGraph } from './plan.js';
+import {
+  PlanIncompleteError,
+  TaskGraphCycleError,
+  buildTaskGraph,
+  findDependencyCycle,
+  getRemainingTasks,
+} from './plan.js';
 
 describe('Plan Phase', () => {
   // NOTE: Plan group creation now happens via MCP tools (add_plan_group)
@@ -34,6 +40,76 @@ describe('Plan Phase', () => {
 
     assert.strictEqual(graph.tasks.length, 2);
     assert.deepStrictEqual(graph.parallelGroups, parallelGroups);
+    assert.deepStrictEqual(graph.chains, []);
+  });
+
+  test('buildTaskGraph rejects dependency cycles', () => {
+    const task = {
+      title: 'A',
+      description: '',
+      status: 'pending' as const,
+      estimatedIterations: 5,
+      assignedLoopId: null,
+    };
+    const tasks = [
+      { ...task, id: 'a', dependencies: [] },
+      { ...task, id: 'b', dependencies: ['a', 'd'] },
+      { ...task, id: 'c', dependencies: ['b'] },
+      { ...task, id: 'd', dependencies: ['c'] },
+    ];
+
+    assert.deepStrictEqual(findDependencyCycle(tasks), ['b', 'd', 'c', 'b']);
+    assert.throws(
+      () => buildTaskGraph(tasks, [['a'], ['b', 'c', 'd']]),
+      (err: unknown) =>
+        err instanceof TaskGraphCycleError && err.message.includes('b -> d -> c -> b')
+    );
+  });
+
+  test('findDependencyCycle ignores unknown dependencies and diamonds', () => {
+    const task = {
+      title: 'A',
+      description: '',
+      status: 'pending' as const,
+      estimatedIterations: 5,
+      assignedLoopId: null,
+    };
+    const tasks = [
+      { ...task, id: 'a', dependencies: ['elsewhere'] },
+      { ...task, id: 'b', dependencies: ['a'] },
+      { ...task, id: 'c', dependencies: ['a'] },
+      { ...task, id: 'd', dependencies: ['b', 'c'] },
+    ];
+
+    assert.strictEqual(findDependencyCycle(tasks), null);
+    assert.strictEqual(
+      findDependencyCycle([{ ...task, id: 'self', dependencies: ['self'] }])?.length,
+      2
+    );
+  });
+
+  test('getRemainingTasks drops completed and cancelled tasks', () => {
+    const task = {
+      title: 'A',
+      description: '',
+      dependencies: [],
+      estimatedIterations: 5,
+      assignedLoopId: null,
+    };
+    const tasks = [
+      { ...task, id: 'done', status: 'completed' as const },
+      { ...task, id: 'merged', status: 'pending' as const },
+      { ...task, id: 'dropped', status: 'cancelled' as const },
+      { ...task, id: 'todo', status: 'pending' as const },
+      { ...task, id: 'broken', status: 'failed' as const },
+    ];
+
+    const remaining = getRemainingTasks(tasks, ['merged']);
+
+    assert.deepStrictEqual(
+      remaining.map((t) => t.id),
+      ['todo', 'broken']
+    );
   });
 });
 
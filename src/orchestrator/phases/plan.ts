@@ -1,23 +1,11 @@
 import { join } from 'node:path';
-import { query } from '@anthropic-ai/claude-agent-sdk';
 import { PLAN_PROMPT, SCAFFOLD_SECTION_PLAN } from '../../agents/prompts.js';
 import { createAgentConfig } from '../../agents/spawn.js';
 import { getEffortConfig, getModelId } from '../../config/effort.js';
 import { getDatabase } from '../../db/index.js';
 import type { DebugTracer } from '../../debug/index.js';
-import { MCP_SERVER_PATH } from '../../paths.js';
-import { formatToolInput, formatToolOutput } from '../../tui/tool-formatting.js';
 import type { OrchestratorState, Task, TaskGraph } from '../../types/index.js';
-import {
-  type StreamEvent,
-  extractInputJsonDelta,
-  extractToolUseStart,
-  isContentBlockStop,
-  isInputJsonDelta,
-  isResultMessage,
-  isStreamEventMessage,
-  isToolUseStart,
-} from '../../types/index.js';
+import { runAgent } from './run-agent.js';
 // Note: We no longer import isEmptyProject here - we use state.wasEmptyProject
 // which was set during ENUMERATE phase to avoid race conditions
 
@@ -33,13 +21,98 @@ export function loadPlanGroupsFromDB(runId: string): string[][] {
   return planGroupRows.map((row) => JSON.parse(row.task_ids) as string[]);
 }
 
-export function buildTaskGraph(tasks: Task[], parallelGroups: string[][]): TaskGraph {
+/**
+ * Load task chains from database after agent has written them via MCP tools.
+ */
+export function loadTaskChainsFromDB(runId: string): string[][] {
+  const db = getDatabase();
+  const chainRows = db
+    .prepare('SELECT task_ids FROM task_chains WHERE run_id = ? ORDER BY chain_index')
+    .all(runId) as Array<{ task_ids: string }>;
+
+  return chainRows.map((row) => JSON.parse(row.task_ids) as string[]);
+}
+
+/**
+ * Error thrown when task dependencies form a cycle, so no task in it could ever start.
+ */
+export class TaskGraphCycleError extends Error {
+  constructor(public readonly cycle: string[]) {
+    super(`Task dependencies contain a cycle: ${cycle.join(' -> ')}`);
+    this.name = 'TaskGraphCycleError';
+  }
+}
+
+/**
+ * Find a dependency cycle among the tasks, returned as a path that starts and
+ * ends with the same task ID, or null if there is none. Dependencies on
+ * unknown task IDs are ignored here.
+ */
+export function findDependencyCycle(tasks: Task[]): string[] | null {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const visited = new Set<string>();
+  const onPath: string[] = [];
+
+  const visit = (taskId: string): string[] | null => {
+    const pathIndex = onPath.indexOf(taskId);
+    if (pathIndex !== -1) return [...onPath.slice(pathIndex), taskId];
+    if (visited.has(taskId)) return null;
+
+    visited.add(taskId);
+    onPath.push(taskId);
+    for (const dep of byId.get(taskId)?.dependencies ?? []) {
+      if (!byId.has(dep)) continue;
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    onPath.pop();
+    return null;
+  };
+
+  for (const task of tasks) {
+    const cycle = visit(task.id);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Build the task graph the build phase schedules from. Dependencies drive
+ * scheduling; parallelGroups from PLAN only order ready tasks, and chains
+ * bundle dependent tasks into a single loop.
+ * Throws TaskGraphCycleError if the dependencies can never all be satisfied.
+ */
+export function buildTaskGraph(
+  tasks: Task[],
+  parallelGroups: string[][],
+  chains: string[][] = []
+): TaskGraph {
+  const cycle = findDependencyCycle(tasks);
+  if (cycle) {
+    throw new TaskGraphCycleError(cycle);
+  }
+
   return {
     tasks,
     parallelGroups,
+    chains,
   };
 }
 
+/**
+ * Tasks that still need to be built: not completed, skipped, cancelled or superseded.
+ */
+export function getRemainingTasks(tasks: Task[], completedTasks: string[]): Task[] {
+  return tasks.filter(
+    (t) =>
+      t.status !== 'completed' &&
+      t.status !== 'skipped' &&
+      t.status !== 'cancelled' &&
+      t.status !== 'superseded' &&
+      !completedTasks.includes(t.id)
+  );
+}
+
 export interface PlanResult {
   taskGraph: TaskGraph;
   costUsd: number;
@@ -68,7 +141,7 @@ export async function executePlan(
   const dbPath = join(state.stateDir, 'state.db');
   const cwd = process.cwd();
   const effortConfig = getEffortConfig(state.effort);
-  const model = getModelId(effortConfig.models.plan);
+  const model = getModelId(effortConfig.models.plan, state.costLimits.maxModelTier);
   const config = createAgentConfig('plan', cwd, state.runId, dbPath, model);
 
   // Use persisted wasEmptyProject from ENUMERATE phase to avoid race conditions
@@ -77,205 +150,33 @@ export async function executePlan(
   const scaffoldSection = isEmpty ? SCAFFOLD_SECTION_PLAN : '';
   const basePrompt = PLAN_PROMPT.replace('{{SCAFFOLD_PLAN_SECTION}}', scaffoldSection);
 
-  const tasksJson = JSON.stringify(state.tasks, null, 2);
+  // A re-plan (e.g. after the spec changed on resume) replaces the previous groups and chains
+  getDatabase().prepare('DELETE FROM plan_groups WHERE run_id = ?').run(state.runId);
+  getDatabase().prepare('DELETE FROM task_chains WHERE run_id = ?').run(state.runId);
+
+  // Only outstanding work is planned; completed, skipped, cancelled and superseded tasks are settled
+  const tasksJson = JSON.stringify(getRemainingTasks(state.tasks, state.completedTasks), null, 2);
+  const completedTasks = state.tasks.filter(
+    (t) => t.status === 'completed' || state.completedTasks.includes(t.id)
+  );
+  const completedSection =
+    completedTasks.length > 0
+      ? `
+
+## Already Completed Tasks (dependencies on these are satisfied):
+${completedTasks.map((t) => `- ${t.id}: ${t.title}`).join('\n')}`
+      : '';
   const prompt = `${basePrompt}
 
 ## Tasks to Plan:
-${tasksJson}`;
-
-  let fullOutput = '';
-  let costUsd = 0;
-  const startTime = Date.now();
+${tasksJson}${completedSection}`;
 
   const writer = tracer?.startAgentCall({
     phase: 'plan',
     prompt,
   });
 
-  // Pending tool calls map: index -> tool info with accumulated input JSON
-  const pendingToolCalls = new Map<number, { name: string; toolId: string; inputJson: string }>();
-  // Completed tool calls map: toolId -> tool info with parsed input (for result formatting)
-  const completedToolCalls = new Map<string, { name: string; input: Record<string, unknown> }>();
-
-  for await (const message of query({
-    prompt,
-    options: {
-      cwd,
-      allowedTools: config.allowedTools,
-      maxTurns: config.maxTurns,
-      model: config.model,
-      includePartialMessages: true,
-      mcpServers: {
-        'sq-db': {
-          command: 'node',
-          args: [MCP_SERVER_PATH, state.runId, dbPath],
-        },
-      },
-    },
-  })) {
-    // Handle streaming events for real-time tool output and thinking
-    if (isStreamEventMessage(message)) {
-      const event = message.event as StreamEvent;
-
-      // Handle tool_use content block start - store in pending map
-      if (isToolUseStart(event)) {
-        const toolInfo = extractToolUseStart(event);
-        if (toolInfo) {
-          pendingToolCalls.set(toolInfo.index, {
-            name: toolInfo.toolName,
-            toolId: toolInfo.toolId,
-            inputJson: '',
-          });
-        }
-      }
-
-      // Handle input_json_delta - accumulate JSON in pending map
-      if (isInputJsonDelta(event)) {
-        const deltaInfo = extractInputJsonDelta(event);
-        if (deltaInfo) {
-          const pending = pendingToolCalls.get(deltaInfo.index);
-          if (pending) {
-            pending.inputJson += deltaInfo.partialJson;
-          }
-        }
-      }
-
-      // Handle content_block_stop - parse input, display compact summary, move to completed
-      if (isContentBlockStop(event) && event.index !== undefined) {
-        const pending = pendingToolCalls.get(event.index);
-        if (pending) {
-          // Try to parse the accumulated JSON
-          let parsedInput: Record<string, unknown> = {};
-          try {
-            if (pending.inputJson) {
-              parsedInput = JSON.parse(pending.inputJson);
-            }
-          } catch {
-            // If JSON parsing fails, use empty object
-            parsedInput = {};
-          }
-
-          // Store in completed map for result formatting
-          completedToolCalls.set(pending.toolId, {
-            name: pending.name,
-            input: parsedInput,
-          });
-
-          // Format compact summary for output
-          const toolText = formatToolInput(pending.name, parsedInput);
-          onOutput?.(`${toolText}\n`);
-
-          // Write full details to agent log
-          writer?.appendOutput(`\n${toolText}\n`);
-          writer?.appendOutput(`Input: ${JSON.stringify(parsedInput, null, 2)}\n`);
-
-          // Clean up pending entry
-          pendingToolCalls.delete(event.index);
-        }
-      }
-
-      // Handle thinking delta events
-      if (event.type === 'content_block_delta' && event.delta?.type === 'thinking_delta') {
-        const thinkingText = event.delta.thinking || '';
-        if (thinkingText) {
-          writer?.appendOutput(thinkingText);
-          onOutput?.(`[thinking] ${thinkingText}`);
-        }
-      }
-      // Handle text delta events
-      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
-        const textDelta = event.delta.text || '';
-        if (textDelta) {
-          fullOutput += textDelta;
-          writer?.appendOutput(textDelta);
-          onOutput?.(textDelta);
-        }
-      }
-    }
-    // Handle user messages with tool_result blocks to display compact output summaries
-    if (message.type === 'user' && message.message?.content) {
-      const content = message.message.content;
-      if (Array.isArray(content)) {
-        for (const block of content) {
-          if (
-            typeof block === 'object' &&
-            block !== null &&
-            'type' in block &&
-            block.type === 'tool_result' &&
-            'tool_use_id' in block
-          ) {
-            const toolUseId = block.tool_use_id as string;
-            const completedTool = completedToolCalls.get(toolUseId);
-            if (completedTool) {
-              // Extract the result content
-              let resultContent: unknown = null;
-              if ('content' in block) {
-                const blockContent = block.content;
-                if (typeof blockContent === 'string') {
-                  resultContent = blockContent;
-                } else if (Array.isArray(blockContent)) {
-                  const textParts = blockContent
-                    .filter(
-                      (c): c is { type: 'text'; text: string } =>
-                        typeof c === 'object' &&
-                        c !== null &&
-                        'type' in c &&
-                        c.type === 'text' &&
-                        'text' in c
-                    )
-                    .map((c) => c.text);
-                  resultContent = textParts.join('');
-                }
-              }
-
-              // Format compact output summary
-              const outputText = formatToolOutput(
-                completedTool.name,
-                completedTool.input,
-                resultContent
-              );
-              if (outputText) {
-                onOutput?.(`${outputText}\n`);
-              }
-
-              // Write full result to agent log
-              writer?.appendOutput(`Result: ${JSON.stringify(resultContent)}\n`);
-
-              // Clean up completed tool entry
-              completedToolCalls.delete(toolUseId);
-            }
-          }
-        }
-      }
-    }
-    if (message.type === 'assistant' && message.message?.content) {
-      for (const block of message.message.content) {
-        // Only handle text blocks that weren't already streamed
-        if ('text' in block && !fullOutput.includes(block.text)) {
-          fullOutput += block.text;
-          writer?.appendOutput(block.text);
-          onOutput?.(block.text);
-        }
-        // Capture thinking blocks to show activity during extended thinking
-        if (
-          'type' in block &&
-          block.type === 'thinking' &&
-          'thinking' in block &&
-          typeof block.thinking === 'string'
-        ) {
-          const thinkingText = `[thinking] ${block.thinking}\n`;
-          writer?.appendOutput(thinkingText);
-          onOutput?.(thinkingText);
-        }
-      }
-    }
-    if (isResultMessage(message)) {
-      costUsd = message.total_cost_usd || 0;
-    }
-  }
-
-  const durationMs = Date.now() - startTime;
-  await writer?.complete(costUsd, durationMs);
+  const { output: fullOutput, costUsd } = await runAgent(prompt, config, writer, onOutput);
 
   // Plan groups are now in the database via MCP add_plan_group calls
   const parallelGroups = loadPlanGroupsFromDB(state.runId);
@@ -288,7 +189,7 @@ ${tasksJson}`;
   }
 
   return {
-    taskGraph: buildTaskGraph(state.tasks, parallelGroups),
+    taskGraph: buildTaskGraph(state.tasks, parallelGroups, loadTaskChainsFromDB(state.runId)),
     costUsd,
   };
 }
@@ -74,6 +74,7 @@ describe('Checkpoint Review Prompts', () => {
   const mockLoop: LoopState = {
     loopId: 'test-loop-123',
     taskIds: ['t1'],
+    passedTaskIds: [],
     iteration: 5,
     maxIterations: 20,
     reviewInterval: 5,
@@ -83,6 +84,8 @@ describe('Checkpoint Review Prompts', () => {
       sameErrorCount: 0,
       noProgressCount: 0,
       lastError: null,
+      lastErrorFingerprint: null,
+      errorHistory: [],
       lastFileChangeIteration: 0,
       lastActivityAt: Date.now(),
     },
@@ -93,6 +96,8 @@ describe('Checkpoint Review Prompts', () => {
     lastReviewId: null,
     revisionAttempts: 0,
     lastCheckpointReviewAt: 0,
+    recoveryAttempts: 0,
+    modelTier: null,
   };
 
   const mockTask: Task = {
@@ -0,0 +1,84 @@
+import { getAgentBackend } from '../../agents/backend.js';
+import type { AgentConfig } from '../../agents/spawn.js';
+import { getDatabase } from '../../db/index.js';
+import { recordTokenUsageInDb } from '../../db/usage.js';
+import type { AgentCallWriter } from '../../debug/types.js';
+import { formatToolInput, formatToolOutput } from '../../tui/tool-formatting.js';
+import type { TokenUsage } from '../../types/index.js';
+
+export interface AgentRunResult {
+  output: string;
+  costUsd: number;
+  usage?: TokenUsage;
+}
+
+/**
+ * Persist the token usage of an agent call under its run, phase, loop and
+ * iteration. Calls without a run or whose backend reports no usage are skipped.
+ */
+export function recordAgentUsage(config: AgentConfig, costUsd: number, usage?: TokenUsage): void {
+  if (!usage || !config.runId) return;
+  recordTokenUsageInDb(getDatabase(), {
+    runId: config.runId,
+    phase: config.phase,
+    loopId: config.loopId,
+    iteration: config.iteration,
+    model: config.model,
+    usage,
+    costUsd,
+  });
+}
+
+/**
+ * Run an agent on the active backend, streaming compact output to `onOutput`
+ * and full details to the debug writer. Completes the writer when the agent
+ * finishes. Shared by every phase except build, which renders into loop output.
+ */
+export async function runAgent(
+  prompt: string,
+  config: AgentConfig,
+  writer?: AgentCallWriter,
+  onOutput?: (text: string) => void
+): Promise<AgentRunResult> {
+  let output = '';
+  let costUsd = 0;
+  let usage: TokenUsage | undefined;
+  const startTime = Date.now();
+
+  for await (const event of getAgentBackend().run(prompt, config)) {
+    switch (event.type) {
+      case 'text':
+        output += event.text;
+        writer?.appendOutput(event.text);
+        onOutput?.(event.text);
+        break;
+      case 'thinking':
+        writer?.appendOutput(`\n[thinking] ${JSON.stringify(event.text)}\n`);
+        onOutput?.(`[thinking] ${event.text}`);
+        break;
+      case 'tool_start': {
+        const toolText = formatToolInput(event.name, event.input);
+        onOutput?.(`${toolText}\n`);
+        writer?.appendOutput(`\n${toolText}\n`);
+        writer?.appendOutput(`Input: ${JSON.stringify(event.input, null, 2)}\n`);
+        break;
+      }
+      case 'tool_result': {
+        const outputText = formatToolOutput(event.name, event.input, event.result);
+        if (outputText) {
+          onOutput?.(`${outputText}\n`);
+        }
+        writer?.appendOutput(`Result: ${JSON.stringify(event.result)}\n`);
+        break;
+      }
+      case 'cost':
+        costUsd = event.costUsd;
+        usage = event.usage;
+        break;
+    }
+  }
+
+  await writer?.complete(costUsd, Date.now() - startTime);
+  recordAgentUsage(config, costUsd, usage);
+  return { output, costUsd, usage };
+}
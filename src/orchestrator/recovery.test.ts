@@ -0,0 +1,288 @@
+import assert from 'node:assert';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import {
+  type AgentBackend,
+  type AgentEvent,
+  getAgentBackend,
+  setAgentBackend,
+} from '../agents/backend.js';
+import type { AgentConfig } from '../agents/spawn.js';
+import { closeDatabase, createDatabase, getDatabase } from '../db/index.js';
+import { insertTaskToDb } from '../db/tasks.js';
+import { LoopManager } from '../loops/manager.js';
+import { StuckReason, type StuckResult } from '../loops/stuck-detection.js';
+import type { OrchestratorState, RecoveryStep, Task } from '../types/index.js';
+import { recoverStuckLoop } from './recovery.js';
+
+const STUCK: StuckResult = {
+  reason: StuckReason.REPEATED_ERROR,
+  details: 'Same error 3 times',
+  suggestion: 'Try a different approach',
+};
+
+function createTask(id: string, dependencies: string[] = []): Task {
+  return {
+    id,
+    title: `Task ${id}`,
+    description: `Build ${id}`,
+    status: 'pending',
+    dependencies,
+    estimatedIterations: 5,
+    assignedLoopId: null,
+  };
+}
+
+function createState(recoveryLadder: RecoveryStep[], tasks: Task[]): OrchestratorState {
+  return {
+    runId: 'run-1',
+    specPath: 'spec.md',
+    specHash: null,
+    specSnapshot: null,
+    effort: 'medium',
+    phase: 'build',
+    phaseHistory: [],
+    tasks,
+    taskGraph: null,
+    activeLoops: [],
+    completedTasks: [],
+    pendingReview: false,
+    reviewType: null,
+    revisionCount: 0,
+    context: { discoveries: [], errors: [], decisions: [], reviewIssues: [] },
+    costs: {
+      totalCostUsd: 0,
+      phaseCosts: {
+        analyze: 0,
+        enumerate: 0,
+        plan: 0,
+        build: 0,
+        review: 0,
+        revise: 0,
+        conflict: 0,
+        complete: 0,
+      },
+      loopCosts: {},
+    },
+    costLimits: { perRunMaxUsd: 10, perPhaseMaxUsd: 5, perLoopMaxUsd: 2 },
+    maxLoops: 4,
+    maxIterations: 20,
+    stateDir: '.ralphs',
+    verify: { commands: [], timeoutSeconds: 600 },
+    recoveryLadder,
+    taskRules: [],
+    baseBranch: null,
+    useWorktrees: false,
+    debug: false,
+    pendingConflicts: [],
+    wasEmptyProject: null,
+    codebaseAnalysis: null,
+  };
+}
+
+/** A backend that answers every call with `respond` and records the configs it saw */
+function createFakeBackend(respond: (prompt: string, config: AgentConfig) => string): {
+  backend: AgentBackend;
+  calls: AgentConfig[];
+} {
+  const calls: AgentConfig[] = [];
+  return {
+    calls,
+    backend: {
+      name: 'fake',
+      async *run(prompt, config): AsyncIterable<AgentEvent> {
+        calls.push(config);
+        yield { type: 'text', text: respond(prompt, config) };
+        yield { type: 'cost', costUsd: 0.25 };
+        yield { type: 'done' };
+      },
+    },
+  };
+}
+
+describe('recoverStuckLoop', () => {
+  let tempDir: string;
+  let previousBackend: AgentBackend;
+  let loopManager: LoopManager;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'sq-recovery-test-'));
+    createDatabase(join(tempDir, 'state.db'));
+    getDatabase()
+      .prepare('INSERT INTO runs (id, spec_path, effort) VALUES (?, ?, ?)')
+      .run('run-1', 'spec.md', 'medium');
+    previousBackend = getAgentBackend();
+    loopManager = new LoopManager({ maxLoops: 4, maxIterations: 20, reviewInterval: 5 });
+  });
+
+  afterEach(() => {
+    setAgentBackend(previousBackend);
+    closeDatabase();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('escalates the build model and resets the stuck indicators', async () => {
+    const task = createTask('task-1');
+    const state = createState(['escalate_model', 'fresh_worktree'], [task]);
+    const loop = await loopManager.createLoop([task.id], state.tasks);
+    loop.modelTier = 'sonnet';
+    loop.stuckIndicators.sameErrorCount = 3;
+    loop.stuckIndicators.lastError = 'TypeError';
+
+    const result = await recoverStuckLoop(state, loop, task, STUCK, loopManager);
+
+    assert.deepStrictEqual(result, { recovered: true, costUsd: 0 });
+    assert.strictEqual(loop.modelTier, 'opus');
+    assert.strictEqual(loop.recoveryAttempts, 1);
+    assert.strictEqual(loop.stuckIndicators.sameErrorCount, 0);
+    assert.strictEqual(loop.stuckIndicators.lastError, null);
+  });
+
+  test('skips steps that cannot apply and gives up once the ladder is exhausted', async () => {
+    const task = createTask('task-1');
+    const state = createState(['escalate_model', 'fresh_worktree'], [task]);
+    // The medium preset already builds with opus
+    const loop = await loopManager.createLoop([task.id], state.tasks);
+
+    const result = await recoverStuckLoop(state, loop, task, STUCK, loopManager);
+
+    assert.deepStrictEqual(result, { recovered: false, costUsd: 0 });
+    assert.strictEqual(loop.recoveryAttempts, 2);
+    const output = loopManager.getLoop(loop.loopId)!.output.join('\n');
+    assert.ok(output.includes('Build model is already opus'));
+    assert.ok(output.includes('Loop does not use a worktree'));
+
+    // A later stuck check does not retry the spent steps
+    assert.deepStrictEqual(await recoverStuckLoop(state, loop, task, STUCK, loopManager), {
+      recovered: false,
+      costUsd: 0,
+    });
+    assert.strictEqual(loop.recoveryAttempts, 2);
+  });
+
+  test('does not escalate the build model past the model ceiling', async () => {
+    const task = createTask('task-1');
+    const state = createState(['escalate_model'], [task]);
+    state.costLimits.maxModelTier = 'haiku';
+    const loop = await loopManager.createLoop([task.id], state.tasks);
+
+    const result = await recoverStuckLoop(state, loop, task, STUCK, loopManager);
+
+    assert.deepStrictEqual(result, { recovered: false, costUsd: 0 });
+    assert.strictEqual(loop.modelTier, null);
+    const output = loopManager.getLoop(loop.loopId)!.output.join('\n');
+    assert.ok(output.includes('Build model is capped at haiku'));
+  });
+
+  test('does not recover a loop that ran out of iterations', async () => {
+    const task = createTask('task-1');
+    const state = createState(['escalate_model'], [task]);
+    const loop = await loopManager.createLoop([task.id], state.tasks);
+
+    const result = await recoverStuckLoop(
+      state,
+      loop,
+      task,
+      { ...STUCK, reason: StuckReason.MAX_ITERATIONS },
+      loopManager
+    );
+
+    assert.strictEqual(result.recovered, false);
+    assert.strictEqual(loop.recoveryAttempts, 0);
+    assert.strictEqual(loop.modelTier, null);
+  });
+
+  test('applies diagnose only when the agent finishes its plan', async () => {
+    const task = createTask('task-1');
+    const state = createState(['diagnose', 'diagnose'], [task]);
+    const loop = await loopManager.createLoop([task.id], state.tasks);
+    let answer = 'Ran out of ideas';
+    const { backend, calls } = createFakeBackend(() => answer);
+    setAgentBackend(backend);
+
+    const failed = await recoverStuckLoop(state, loop, task, STUCK, loopManager);
+    assert.deepStrictEqual(failed, { recovered: false, costUsd: 0.5 });
+
+    loop.recoveryAttempts = 0;
+    answer = 'DIAGNOSIS_COMPLETE';
+    const applied = await recoverStuckLoop(state, loop, task, STUCK, loopManager);
+    assert.deepStrictEqual(applied, { recovered: true, costUsd: 0.25 });
+
+    assert.strictEqual(calls[0].phase, 'revise');
+    assert.strictEqual(calls[0].loopId, loop.loopId);
+  });
+
+  test('splits the task into subtasks that take over its dependencies and dependents', async () => {
+    const base = createTask('task-0');
+    const task = createTask('task-1', ['task-0']);
+    const dependent = createTask('task-2', ['task-1']);
+    for (const t of [base, task, dependent]) insertTaskToDb(getDatabase(), 'run-1', t);
+    const state = createState(['split_task'], [base, task, dependent]);
+    const loop = await loopManager.createLoop([task.id], state.tasks);
+    const { backend, calls } = createFakeBackend((prompt) => {
+      assert.ok(prompt.includes('Same error 3 times'));
+      for (const id of ['task-1-part-1', 'task-1-part-2']) {
+        insertTaskToDb(getDatabase(), 'run-1', { ...createTask(id), dependencies: [] });
+      }
+      return 'SPLIT_COMPLETE';
+    });
+    setAgentBackend(backend);
+
+    const result = await recoverStuckLoop(state, loop, task, STUCK, loopManager);
+
+    assert.deepStrictEqual(result, { recovered: true, costUsd: 0.25 });
+    assert.strictEqual(calls[0].phase, 'enumerate');
+    assert.strictEqual(task.status, 'superseded');
+    assert.strictEqual(loop.status, 'failed');
+    assert.deepStrictEqual(
+      state.tasks.map((t) => [t.id, t.dependencies]),
+      [
+        ['task-0', []],
+        ['task-1', ['task-0']],
+        ['task-2', ['task-1-part-1', 'task-1-part-2']],
+        ['task-1-part-1', ['task-0']],
+        ['task-1-part-2', ['task-0']],
+      ]
+    );
+    const rows = getDatabase()
+      .prepare("SELECT dependencies FROM tasks WHERE id = 'task-2'")
+      .get() as { dependencies: string };
+    assert.deepStrictEqual(JSON.parse(rows.dependencies), ['task-1-part-1', 'task-1-part-2']);
+  });
+
+  test('does not split when the subtasks would create a dependency cycle', async () => {
+    const task = createTask('task-1');
+    const dependent = createTask('task-2', ['task-1']);
+    for (const t of [task, dependent]) insertTaskToDb(getDatabase(), 'run-1', t);
+    const state = createState(['split_task'], [task, dependent]);
+    const loop = await loopManager.createLoop([task.id], state.tasks);
+    const { backend } = createFakeBackend(() => {
+      // task-2 would wait on this subtask, which waits on task-2
+      insertTaskToDb(getDatabase(), 'run-1', createTask('task-1-part-1', ['task-2']));
+      return 'SPLIT_COMPLETE';
+    });
+    setAgentBackend(backend);
+
+    const result = await recoverStuckLoop(state, loop, task, STUCK, loopManager);
+
+    assert.deepStrictEqual(result, { recovered: false, costUsd: 0.25 });
+    assert.strictEqual(task.status, 'pending');
+    assert.deepStrictEqual(
+      state.tasks.map((t) => [t.id, t.dependencies]),
+      [
+        ['task-1', []],
+        ['task-2', ['task-1']],
+      ]
+    );
+    assert.ok(
+      loopManager
+        .getLoop(loop.loopId)!
+        .output.join('\n')
+        .includes('dependency cycle: task-2 -> task-1-part-1 -> task-2')
+    );
+    const rows = getDatabase().prepare('SELECT id FROM tasks ORDER BY rowid').all();
+    assert.deepStrictEqual(rows, [{ id: 'task-1' }, { id: 'task-2' }]);
+  });
+});
@@ -0,0 +1,304 @@
+import { DIAGNOSE_PROMPT, SPLIT_TASK_PROMPT } from '../agents/prompts.js';
+import { MODEL_TIER_ORDER, capModelTier, getEffortConfig } from '../config/effort.js';
+import { resolveTaskOverrides } from '../config/task-rules.js';
+import { readContextFromDb, writeContextToDb } from '../db/context.js';
+import { getDatabase } from '../db/index.js';
+import { deleteTasksFromDb } from '../db/tasks.js';
+import type { DebugTracer } from '../debug/index.js';
+import type { LoopManager } from '../loops/manager.js';
+import { StuckReason, type StuckResult } from '../loops/stuck-detection.js';
+import type { LoopState, OrchestratorState, RecoveryStep, Task } from '../types/index.js';
+import { runAgent } from './phases/run-agent.js';
+import { findSplitCycle, loopAgentConfig, runSplitAgent, supersedeTask } from './split.js';
+
+export interface RecoveryResult {
+  /** The loop was put back to work, or its task was handed to new subtasks */
+  recovered: boolean;
+  costUsd: number;
+}
+
+interface StepOutcome {
+  applied: boolean;
+  details: string;
+  costUsd?: number;
+}
+
+interface RecoveryContext {
+  state: OrchestratorState;
+  loop: LoopState;
+  task: Task;
+  stuck: StuckResult;
+  loopManager: LoopManager;
+  onOutput?: (text: string) => void;
+  tracer?: DebugTracer;
+}
+
+/**
+ * Walk a stuck loop up the preset's recovery ladder. Each step the loop has
+ * not used yet is tried in order until one applies; steps that cannot apply
+ * (e.g. escalating a model that is already the top tier) are skipped. Every
+ * attempt is logged as a stuck_recovery decision. Returns recovered: false
+ * once the ladder is exhausted, when the loop needs a human.
+ *
+ * Loops out of iterations are not recovered: their budget is spent either way.
+ */
+export async function recoverStuckLoop(
+  state: OrchestratorState,
+  loop: LoopState,
+  task: Task,
+  stuck: StuckResult,
+  loopManager: LoopManager,
+  onLoopOutput?: (loopId: string, text: string) => void,
+  tracer?: DebugTracer
+): Promise<RecoveryResult> {
+  if (stuck.reason === StuckReason.MAX_ITERATIONS) {
+    return { recovered: false, costUsd: 0 };
+  }
+
+  const output = (text: string) => {
+    onLoopOutput?.(loop.loopId, `[recovery] ${text}\n`);
+    loopManager.appendOutput(loop.loopId, `[recovery] ${text}`);
+  };
+  const ctx: RecoveryContext = {
+    state,
+    loop,
+    task,
+    stuck,
+    loopManager,
+    onOutput: onLoopOutput ? (text) => onLoopOutput(loop.loopId, text) : undefined,
+    tracer,
+  };
+
+  let costUsd = 0;
+  while (loop.recoveryAttempts < state.recoveryLadder.length) {
+    const step = state.recoveryLadder[loop.recoveryAttempts];
+    loop.recoveryAttempts++;
+    output(`Loop stuck (${stuck.reason}); trying ${step}`);
+
+    let outcome: StepOutcome;
+    try {
+      outcome = await RECOVERY_STEPS[step](ctx);
+    } catch (e) {
+      outcome = { applied: false, details: `Failed: ${e instanceof Error ? e.message : e}` };
+    }
+    costUsd += outcome.costUsd ?? 0;
+    output(`${step}: ${outcome.details}`);
+    tracer?.logDecision(
+      'stuck_recovery',
+      {
+        step,
+        attempt: loop.recoveryAttempts,
+        ladder: state.recoveryLadder,
+        reason: stuck.reason,
+        taskId: task.id,
+      },
+      outcome.applied ? 'applied' : 'skipped',
+      outcome.details,
+      loop.loopId
+    );
+
+    if (outcome.applied) {
+      resetStuckIndicators(loop);
+      return { recovered: true, costUsd };
+    }
+  }
+
+  tracer?.logDecision(
+    'stuck_recovery',
+    { ladder: state.recoveryLadder, reason: stuck.reason, taskId: task.id },
+    'exhausted',
+    'No recovery step left; the loop needs intervention',
+    loop.loopId
+  );
+  return { recovered: false, costUsd };
+}
+
+/** Give the loop a fresh stuck-detection window after a recovery step */
+function resetStuckIndicators(loop: LoopState): void {
+  loop.stuckIndicators.sameErrorCount = 0;
+  loop.stuckIndicators.noProgressCount = 0;
+  loop.stuckIndicators.lastError = null;
+  loop.stuckIndicators.lastErrorFingerprint = null;
+  loop.stuckIndicators.errorHistory = [];
+  loop.stuckIndicators.lastFileChangeIteration = loop.iteration;
+}
+
+const RECOVERY_STEPS: Record<RecoveryStep, (ctx: RecoveryContext) => Promise<StepOutcome>> = {
+  escalate_model: escalateModel,
+  diagnose,
+  split_task: splitTask,
+  fresh_worktree: freshWorktree,
+};
+
+async function escalateModel({ state, loop, task }: RecoveryContext): Promise<StepOutcome> {
+  const ceiling = state.costLimits.maxModelTier;
+  const current = capModelTier(
+    loop.modelTier ??
+      resolveTaskOverrides(task, state.taskRules).model ??
+      getEffortConfig(state.effort).models.build,
+    ceiling
+  );
+  const next = MODEL_TIER_ORDER[MODEL_TIER_ORDER.indexOf(current) + 1];
+  if (!next) {
+    return { applied: false, details: `Build model is already ${current}` };
+  }
+  if (capModelTier(next, ceiling) !== next) {
+    return { applied: false, details: `Build model is capped at ${ceiling}` };
+  }
+  loop.modelTier = next;
+  return { applied: true, details: `Build model escalated from ${current} to ${next}` };
+}
+
+/**
+ * Run a read-and-think agent that finds out why the loop is stuck and writes
+ * a fresh plan to the loop's scratchpad, which the next build iteration reads.
+ */
+async function diagnose(ctx: RecoveryContext): Promise<StepOutcome> {
+  const { state, loop, task, stuck, tracer } = ctx;
+  const prompt = DIAGNOSE_PROMPT.replaceAll('{{loopId}}', loop.loopId)
+    .replace('{{taskId}}', task.id)
+    .replace('{{taskTitle}}', task.title)
+    .replace('{{taskDescription}}', task.description)
+    .replace('{{stuckDetails}}', stuck.details)
+    .replace('{{lastError}}', loop.stuckIndicators.lastError ?? 'None')
+    .replace('{{iteration}}', String(loop.iteration));
+  const config = loopAgentConfig(
+    state,
+    loop,
+    'revise',
+    getEffortConfig(state.effort).models.revise
+  );
+  const writer = tracer?.startAgentCall({
+    phase: 'revise',
+    loopId: loop.loopId,
+    iteration: loop.iteration,
+    prompt,
+  });
+
+  const result = await runAgent(prompt, config, writer, ctx.onOutput);
+  if (!result.output.includes('DIAGNOSIS_COMPLETE')) {
+    return {
+      applied: false,
+      details: 'Diagnose agent finished without DIAGNOSIS_COMPLETE',
+      costUsd: result.costUsd,
+    };
+  }
+  return {
+    applied: true,
+    details: 'Wrote a fresh plan to the scratchpad',
+    costUsd: result.costUsd,
+  };
+}
+
+/**
+ * Have an agent break the loop's task into subtasks with write_task. The
+ * subtasks supersede the task, and the loop and its worktree are dropped, so
+ * each subtask gets a loop of its own.
+ */
+async function splitTask(ctx: RecoveryContext): Promise<StepOutcome> {
+  const { state, loop, task, loopManager, tracer } = ctx;
+  if (loop.taskIds.length > 1) {
+    return { applied: false, details: 'Loop builds a task chain, which cannot be split' };
+  }
+
+  const [scratchpad] = readContextFromDb(getDatabase(), {
+    runId: state.runId,
+    types: ['scratchpad'],
+    loopId: loop.loopId,
+    limit: 1,
+  }).entries;
+  const prompt = SPLIT_TASK_PROMPT.replaceAll('{{taskId}}', task.id)
+    .replace('{{taskTitle}}', task.title)
+    .replace('{{taskDescription}}', task.description)
+    .replace(
+      '{{progress}}',
+      `${scratchpad?.content ?? 'No scratchpad entries'}\n\nThe loop got stuck: ${ctx.stuck.details}`
+    );
+  const { subtasks, costUsd } = await runSplitAgent(
+    state,
+    loop,
+    prompt,
+    'enumerate',
+    getEffortConfig(state.effort).models.enumerate,
+    ctx.onOutput,
+    tracer
+  );
+  if (subtasks.length === 0) {
+    return { applied: false, details: 'Split agent created no subtasks', costUsd };
+  }
+
+  for (const subtask of subtasks) {
+    // The subtasks still wait on whatever the original task waited on
+    subtask.dependencies = [...new Set([...task.dependencies, ...subtask.dependencies])];
+  }
+  // A subtask depending on one of the task's dependents would deadlock the schedule
+  const cycle = findSplitCycle(state.tasks, task, subtasks);
+  if (cycle) {
+    deleteTasksFromDb(
+      getDatabase(),
+      state.runId,
+      subtasks.map((t) => t.id)
+    );
+    return {
+      applied: false,
+      details: `Subtasks would create a dependency cycle: ${cycle.join(' -> ')}`,
+      costUsd,
+    };
+  }
+  supersedeTask(state, task, subtasks, false);
+
+  loopManager.updateLoopStatus(loop.loopId, 'failed');
+  const worktreeManager = loopManager.getWorktreeManager();
+  if (loop.worktreePath && worktreeManager) {
+    await worktreeManager.cleanup(loop.loopId);
+  }
+  return {
+    applied: true,
+    details: `Split ${task.id} into ${subtasks.map((t) => t.id).join(', ')}`,
+    costUsd,
+  };
+}
+
+/**
+ * Throw away the loop's worktree and start the task again from the base
+ * branch, keeping the loop's iteration count and scratchpad history.
+ */
+async function freshWorktree({
+  state,
+  loop,
+  task,
+  loopManager,
+}: RecoveryContext): Promise<StepOutcome> {
+  const worktreeManager = loopManager.getWorktreeManager();
+  if (!loop.worktreePath || !worktreeManager) {
+    return { applied: false, details: 'Loop does not use a worktree' };
+  }
+  // A chained loop merges once at the end: its finished tasks only exist in this worktree
+  if (loop.passedTaskIds.length > 0) {
+    return { applied: false, details: 'Worktree holds unmerged work of finished chained tasks' };
+  }
+
+  await worktreeManager.cleanup(loop.loopId);
+  const { worktreePath } = await worktreeManager.create(loop.loopId);
+  loop.worktreePath = worktreePath;
+
+  // Feedback on the discarded changes no longer applies
+  state.context.reviewIssues = (state.context.reviewIssues || []).filter(
+    (i) => i.taskId !== task.id
+  );
+  writeContextToDb(getDatabase(), {
+    runId: state.runId,
+    type: 'scratchpad',
+    loopId: loop.loopId,
+    taskId: task.id,
+    content: JSON.stringify({
+      iteration: loop.iteration,
+      completed:
+        'Restarted in a fresh worktree after getting stuck; all earlier changes were discarded',
+      verification: 'none',
+      remaining: [`Start ${task.id} again with a different approach`],
+      blockers: loop.stuckIndicators.lastError ?? 'none',
+    }),
+  });
+  return { applied: true, details: `Restarted ${task.id} in a fresh worktree` };
+}
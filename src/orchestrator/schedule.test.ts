@@ -0,0 +1,59 @@
+import assert from 'node:assert';
+import { describe, test } from 'node:test';
+import type { Task } from '../types/index.js';
+import { computeCriticalPathLengths, estimateMakespan, getCriticalPath } from './schedule.js';
+
+function task(id: string, estimatedIterations: number, dependencies: string[] = []): Task {
+  return {
+    id,
+    title: id,
+    description: '',
+    status: 'pending',
+    dependencies,
+    estimatedIterations,
+    assignedLoopId: null,
+  };
+}
+
+describe('Critical path scheduling', () => {
+  // a(2) -> b(3) -> d(4); a -> c(1); e(5) stands alone
+  const tasks = [
+    task('a', 2),
+    task('b', 3, ['a']),
+    task('c', 1, ['a']),
+    task('d', 4, ['b']),
+    task('e', 5),
+  ];
+
+  test('computeCriticalPathLengths follows the longest downstream chain', () => {
+    const lengths = computeCriticalPathLengths(tasks);
+
+    assert.strictEqual(lengths.get('a'), 9);
+    assert.strictEqual(lengths.get('b'), 7);
+    assert.strictEqual(lengths.get('c'), 1);
+    assert.strictEqual(lengths.get('d'), 4);
+    assert.strictEqual(lengths.get('e'), 5);
+  });
+
+  test('getCriticalPath returns the longest chain of unfinished tasks', () => {
+    assert.deepStrictEqual(getCriticalPath(tasks), ['a', 'b', 'd']);
+    assert.deepStrictEqual(getCriticalPath(tasks, ['a', 'b']), ['e']);
+    assert.deepStrictEqual(getCriticalPath([]), []);
+  });
+
+  test('estimateMakespan simulates maxLoops parallel loops', () => {
+    // Unlimited parallelism is bounded by the critical path
+    assert.strictEqual(estimateMakespan(tasks, 5), 9);
+    // One loop runs everything back to back
+    assert.strictEqual(estimateMakespan(tasks, 1), 15);
+    // Two loops: a+e start, then b, c, d follow the chain
+    assert.strictEqual(estimateMakespan(tasks, 2), 9);
+  });
+
+  test('estimateMakespan skips finished tasks and tolerates unknown dependencies', () => {
+    const withSkipped = tasks.map((t) => (t.id === 'e' ? { ...t, status: 'skipped' as const } : t));
+
+    assert.strictEqual(estimateMakespan(withSkipped, 2, ['a']), 7);
+    assert.strictEqual(estimateMakespan([task('x', 3, ['missing'])], 1), 3);
+  });
+});
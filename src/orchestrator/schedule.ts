@@ -0,0 +1,114 @@
+import type { Task } from '../types/index.js';
+
+/**
+ * Tasks that no longer take loop time: completed, skipped, cancelled or superseded.
+ */
+function isDone(task: Task, completedTasks: string[]): boolean {
+  return (
+    completedTasks.includes(task.id) ||
+    task.status === 'completed' ||
+    task.status === 'skipped' ||
+    task.status === 'cancelled' ||
+    task.status === 'superseded'
+  );
+}
+
+/**
+ * Length in estimated iterations of the longest chain that starts at each task
+ * and follows its dependents, including the task itself. Tasks at the head of
+ * long chains gate the most downstream work, so they should start first.
+ */
+export function computeCriticalPathLengths(tasks: Task[]): Map<string, number> {
+  const dependents = new Map<string, Task[]>(tasks.map((t) => [t.id, []]));
+  for (const task of tasks) {
+    for (const dep of task.dependencies) {
+      dependents.get(dep)?.push(task);
+    }
+  }
+
+  const lengths = new Map<string, number>();
+  const visiting = new Set<string>();
+  const visit = (task: Task): number => {
+    const known = lengths.get(task.id);
+    if (known !== undefined) return known;
+    // buildTaskGraph rejects cycles; stop here rather than recurse forever
+    if (visiting.has(task.id)) return 0;
+
+    visiting.add(task.id);
+    const downstream = Math.max(0, ...dependents.get(task.id)!.map(visit));
+    visiting.delete(task.id);
+
+    const length = task.estimatedIterations + downstream;
+    lengths.set(task.id, length);
+    return length;
+  };
+
+  for (const task of tasks) visit(task);
+  return lengths;
+}
+
+/**
+ * The longest dependency chain through the unfinished tasks, in execution order.
+ */
+export function getCriticalPath(tasks: Task[], completedTasks: string[] = []): string[] {
+  const remaining = tasks.filter((t) => !isDone(t, completedTasks));
+  const lengths = computeCriticalPathLengths(remaining);
+  const remainingIds = new Set(remaining.map((t) => t.id));
+
+  const longest = (candidates: Task[]) =>
+    candidates.reduce<Task | null>(
+      (best, t) => (best === null || lengths.get(t.id)! > lengths.get(best.id)! ? t : best),
+      null
+    );
+
+  const path: string[] = [];
+  let current = longest(
+    remaining.filter((t) => !t.dependencies.some((dep) => remainingIds.has(dep)))
+  );
+  while (current) {
+    path.push(current.id);
+    const currentId = current.id;
+    current = longest(remaining.filter((t) => t.dependencies.includes(currentId)));
+  }
+  return path;
+}
+
+/**
+ * Estimate how many iterations the unfinished tasks take with `maxLoops`
+ * parallel loops, scheduling ready tasks critical-path first the way the
+ * build phase does. Dependencies on unknown tasks are treated as satisfied.
+ */
+export function estimateMakespan(
+  tasks: Task[],
+  maxLoops: number,
+  completedTasks: string[] = []
+): number {
+  const remaining = tasks.filter((t) => !isDone(t, completedTasks));
+  const lengths = computeCriticalPathLengths(remaining);
+  const pending = new Set(remaining.map((t) => t.id));
+  const running: Array<{ taskId: string; finishesAt: number }> = [];
+  let now = 0;
+
+  while (pending.size > 0 || running.length > 0) {
+    const ready = remaining
+      .filter((t) => pending.has(t.id) && !t.dependencies.some((dep) => pending.has(dep)))
+      .filter((t) => !running.some((r) => r.taskId === t.id))
+      .sort((a, b) => lengths.get(b.id)! - lengths.get(a.id)!);
+
+    for (const task of ready) {
+      if (running.length >= maxLoops) break;
+      running.push({ taskId: task.id, finishesAt: now + task.estimatedIterations });
+    }
+
+    // Nothing can start or finish (unsatisfiable dependencies); stop estimating
+    if (running.length === 0) break;
+
+    now = Math.min(...running.map((r) => r.finishesAt));
+    for (const finished of running.filter((r) => r.finishesAt === now)) {
+      pending.delete(finished.taskId);
+      running.splice(running.indexOf(finished), 1);
+    }
+  }
+
+  return now;
+}
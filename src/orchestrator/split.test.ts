@@ -0,0 +1,228 @@
+import assert from 'node:assert';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { type AgentBackend, getAgentBackend, setAgentBackend } from '../agents/backend.js';
+import { writeContextToDb } from '../db/context.js';
+import { closeDatabase, createDatabase, getDatabase } from '../db/index.js';
+import { insertTaskToDb } from '../db/tasks.js';
+import { LoopManager } from '../loops/manager.js';
+import type { LoopState, OrchestratorState, Task } from '../types/index.js';
+import { getOverrunIteration, readScratchpadRemaining, splitOverrunTask } from './split.js';
+
+function createTask(id: string, dependencies: string[] = [], estimatedIterations = 5): Task {
+  return {
+    id,
+    title: `Task ${id}`,
+    description: `Build ${id}`,
+    status: 'pending',
+    dependencies,
+    estimatedIterations,
+    assignedLoopId: null,
+  };
+}
+
+function createState(tasks: Task[]): OrchestratorState {
+  return {
+    runId: 'run-1',
+    specPath: 'spec.md',
+    specHash: null,
+    specSnapshot: null,
+    effort: 'medium',
+    phase: 'build',
+    phaseHistory: [],
+    tasks,
+    taskGraph: { tasks, parallelGroups: [tasks.map((t) => t.id)], chains: [] },
+    activeLoops: [],
+    completedTasks: [],
+    pendingReview: false,
+    reviewType: null,
+    revisionCount: 0,
+    context: { discoveries: [], errors: [], decisions: [], reviewIssues: [] },
+    costs: {
+      totalCostUsd: 0,
+      phaseCosts: {
+        analyze: 0,
+        enumerate: 0,
+        plan: 0,
+        build: 0,
+        review: 0,
+        revise: 0,
+        conflict: 0,
+        complete: 0,
+      },
+      loopCosts: {},
+    },
+    costLimits: { perRunMaxUsd: 10, perPhaseMaxUsd: 5, perLoopMaxUsd: 2 },
+    maxLoops: 4,
+    maxIterations: 20,
+    stateDir: '.ralphs',
+    verify: { commands: [], timeoutSeconds: 600 },
+    recoveryLadder: [],
+    taskRules: [],
+    baseBranch: null,
+    useWorktrees: false,
+    debug: false,
+    pendingConflicts: [],
+    wasEmptyProject: null,
+    codebaseAnalysis: null,
+  };
+}
+
+function writeScratchpad(loopId: string, content: string): void {
+  writeContextToDb(getDatabase(), { runId: 'run-1', type: 'scratchpad', loopId, content });
+}
+
+describe('getOverrunIteration', () => {
+  test('is twice the estimates of the loop tasks up to the current one', () => {
+    const tasks = [createTask('a', [], 3), createTask('b', ['a'], 4), createTask('c', ['b'], 10)];
+    const loop = { taskIds: ['a', 'b', 'c'] } as LoopState;
+
+    assert.strictEqual(getOverrunIteration(loop, tasks[0], tasks), 6);
+    assert.strictEqual(getOverrunIteration(loop, tasks[1], tasks), 14);
+  });
+});
+
+describe('splitOverrunTask', () => {
+  let tempDir: string;
+  let previousBackend: AgentBackend;
+  let loopManager: LoopManager;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'sq-split-test-'));
+    createDatabase(join(tempDir, 'state.db'));
+    getDatabase()
+      .prepare('INSERT INTO runs (id, spec_path, effort) VALUES (?, ?, ?)')
+      .run('run-1', 'spec.md', 'medium');
+    previousBackend = getAgentBackend();
+    loopManager = new LoopManager({ maxLoops: 4, maxIterations: 20, reviewInterval: 5 });
+  });
+
+  afterEach(() => {
+    setAgentBackend(previousBackend);
+    closeDatabase();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('reads the remaining steps of the latest scratchpad entry', () => {
+    writeScratchpad('loop-1', JSON.stringify({ remaining: ['old step'] }));
+    writeScratchpad('loop-1', JSON.stringify({ remaining: ['write parser', ' ', 'add tests'] }));
+    writeScratchpad('loop-2', 'not json');
+
+    assert.deepStrictEqual(readScratchpadRemaining('run-1', 'loop-1'), [
+      'write parser',
+      'add tests',
+    ]);
+    assert.deepStrictEqual(readScratchpadRemaining('run-1', 'loop-2'), []);
+    assert.deepStrictEqual(readScratchpadRemaining('run-1', 'loop-3'), []);
+  });
+
+  test('does not run the planner when the scratchpad lists no remaining steps', async () => {
+    const task = createTask('task-1');
+    const state = createState([task]);
+    const loop = await loopManager.createLoop([task.id], state.tasks);
+    setAgentBackend({
+      name: 'fake',
+      run() {
+        throw new Error('planner should not run');
+      },
+    });
+
+    const result = await splitOverrunTask(state, loop, task, loopManager);
+
+    assert.deepStrictEqual(result, { split: false, costUsd: 0 });
+    assert.strictEqual(task.status, 'pending');
+  });
+
+  test('supersedes the task with subtasks the loop builds in order', async () => {
+    const base = createTask('task-0');
+    const task = createTask('task-1', ['task-0']);
+    const dependent = createTask('task-2', ['task-1']);
+    for (const t of [base, task, dependent]) insertTaskToDb(getDatabase(), 'run-1', t);
+    const state = createState([base, task, dependent]);
+    const loop = await loopManager.createLoop([task.id], state.tasks);
+    loop.iteration = 10;
+    writeScratchpad(loop.loopId, JSON.stringify({ remaining: ['write parser', 'add tests'] }));
+
+    const prompts: string[] = [];
+    setAgentBackend({
+      name: 'fake',
+      async *run(prompt, config) {
+        prompts.push(prompt);
+        assert.strictEqual(config.phase, 'plan');
+        for (const id of ['task-1-part-1', 'task-1-part-2']) {
+          insertTaskToDb(getDatabase(), 'run-1', createTask(id, [], 2));
+        }
+        yield { type: 'text', text: 'SPLIT_COMPLETE' };
+        yield { type: 'cost', costUsd: 0.1 };
+        yield { type: 'done' };
+      },
+    });
+
+    const result = await splitOverrunTask(state, loop, task, loopManager);
+
+    assert.deepStrictEqual(result, { split: true, costUsd: 0.1 });
+    assert.ok(prompts[0].includes('- write parser\n- add tests'));
+    assert.ok(prompts[0].includes('estimated at 5 iterations; its build loop has run 10'));
+    assert.strictEqual(task.status, 'superseded');
+    assert.deepStrictEqual(loop.taskIds, ['task-1', 'task-1-part-1', 'task-1-part-2']);
+    assert.deepStrictEqual(
+      state.tasks.map((t) => [t.id, t.dependencies]),
+      [
+        ['task-0', []],
+        ['task-1', ['task-0']],
+        ['task-2', ['task-1-part-1', 'task-1-part-2']],
+        ['task-1-part-1', ['task-0']],
+        ['task-1-part-2', ['task-1-part-1']],
+      ]
+    );
+    assert.deepStrictEqual(state.taskGraph?.parallelGroups, [
+      ['task-0', 'task-1-part-1', 'task-1-part-2', 'task-2'],
+    ]);
+    assert.deepStrictEqual(state.taskGraph?.chains, [['task-1-part-1', 'task-1-part-2']]);
+
+    const chains = getDatabase().prepare('SELECT task_ids FROM task_chains').all() as Array<{
+      task_ids: string;
+    }>;
+    assert.deepStrictEqual(
+      chains.map((c) => JSON.parse(c.task_ids)),
+      [['task-1-part-1', 'task-1-part-2']]
+    );
+    // The superseded task's iterations still count toward the next overrun check
+    assert.strictEqual(getOverrunIteration(loop, state.tasks[3], state.tasks), 14);
+  });
+
+  test('drops a split that would leave the dependencies cyclic', async () => {
+    // task-2 waits on task-1 and, through task-0, task-1 waits on task-2
+    const base = createTask('task-0', ['task-2']);
+    const task = createTask('task-1', ['task-0']);
+    const dependent = createTask('task-2', ['task-1']);
+    for (const t of [base, task, dependent]) insertTaskToDb(getDatabase(), 'run-1', t);
+    const state = createState([base, task, dependent]);
+    const loop = await loopManager.createLoop([task.id], state.tasks);
+    writeScratchpad(loop.loopId, JSON.stringify({ remaining: ['write parser'] }));
+    setAgentBackend({
+      name: 'fake',
+      async *run() {
+        insertTaskToDb(getDatabase(), 'run-1', createTask('task-1-part-1', [], 2));
+        yield { type: 'text', text: 'SPLIT_COMPLETE' };
+        yield { type: 'cost', costUsd: 0.1 };
+        yield { type: 'done' };
+      },
+    });
+
+    const result = await splitOverrunTask(state, loop, task, loopManager);
+
+    assert.deepStrictEqual(result, { split: false, costUsd: 0.1 });
+    assert.strictEqual(task.status, 'pending');
+    assert.deepStrictEqual(loop.taskIds, ['task-1']);
+    assert.deepStrictEqual(
+      state.tasks.map((t) => t.id),
+      ['task-0', 'task-1', 'task-2']
+    );
+    assert.deepStrictEqual(dependent.dependencies, ['task-1']);
+    const rows = getDatabase().prepare('SELECT id FROM tasks ORDER BY rowid').all();
+    assert.deepStrictEqual(rows, [{ id: 'task-0' }, { id: 'task-1' }, { id: 'task-2' }]);
+  });
+});
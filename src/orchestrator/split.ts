@@ -0,0 +1,277 @@
+import { join } from 'node:path';
+import { OVERRUN_SPLIT_PROMPT } from '../agents/prompts.js';
+import { type AgentConfig, createAgentConfig } from '../agents/spawn.js';
+import { getEffortConfig, getModelId } from '../config/effort.js';
+import { readContextFromDb } from '../db/context.js';
+import { getDatabase } from '../db/index.js';
+import {
+  deleteTasksFromDb,
+  listTasksFromDb,
+  saveTaskGraphToDb,
+  updateTaskDependenciesInDb,
+} from '../db/tasks.js';
+import type { DebugTracer } from '../debug/index.js';
+import type { LoopManager } from '../loops/manager.js';
+import type { LoopState, ModelTier, OrchestratorState, Phase, Task } from '../types/index.js';
+import { findDependencyCycle } from './phases/plan.js';
+import { runAgent } from './phases/run-agent.js';
+
+/** A task is split once its loop has spent this many times its estimated iterations */
+export const OVERRUN_SPLIT_FACTOR = 2;
+
+/**
+ * Config for an agent that works on a loop's behalf outside its build
+ * iterations, in the loop's worktree.
+ */
+export function loopAgentConfig(
+  state: OrchestratorState,
+  loop: LoopState,
+  phase: Phase,
+  tier: ModelTier
+): AgentConfig {
+  return {
+    ...createAgentConfig(
+      phase,
+      loop.worktreePath || process.cwd(),
+      state.runId,
+      join(state.stateDir, 'state.db'),
+      getModelId(tier, state.costLimits.maxModelTier)
+    ),
+    loopId: loop.loopId,
+    taskIds: loop.taskIds,
+    iteration: loop.iteration,
+  };
+}
+
+export interface SplitAgentResult {
+  /** Tasks the agent added with write_task, in the order it wrote them */
+  subtasks: Task[];
+  costUsd: number;
+}
+
+/**
+ * Run an agent that writes subtasks for a loop's task with write_task and
+ * return the tasks it added to the run.
+ */
+export async function runSplitAgent(
+  state: OrchestratorState,
+  loop: LoopState,
+  prompt: string,
+  phase: Phase,
+  tier: ModelTier,
+  onOutput?: (text: string) => void,
+  tracer?: DebugTracer
+): Promise<SplitAgentResult> {
+  const writer = tracer?.startAgentCall({
+    phase,
+    loopId: loop.loopId,
+    iteration: loop.iteration,
+    prompt,
+  });
+  const result = await runAgent(
+    prompt,
+    loopAgentConfig(state, loop, phase, tier),
+    writer,
+    onOutput
+  );
+
+  const known = new Set(state.tasks.map((t) => t.id));
+  const subtasks = listTasksFromDb(getDatabase(), state.runId).filter((t) => !known.has(t.id));
+  return { subtasks, costUsd: result.costUsd };
+}
+
+/**
+ * The dependency cycle the run's tasks would contain once `task` is replaced
+ * by `subtasks` (see supersedeTask), or null if there would be none.
+ */
+export function findSplitCycle(tasks: Task[], task: Task, subtasks: Task[]): string[] | null {
+  const subtaskIds = subtasks.map((t) => t.id);
+  const remaining = tasks
+    .filter((t) => t.id !== task.id)
+    .map((t) =>
+      t.dependencies.includes(task.id)
+        ? { ...t, dependencies: [...t.dependencies.filter((id) => id !== task.id), ...subtaskIds] }
+        : t
+    );
+  return findDependencyCycle([...remaining, ...subtasks]);
+}
+
+/**
+ * Replace a task with the subtasks it was split into, whose dependencies the
+ * caller has already set. Tasks that depended on it depend on all subtasks
+ * instead, the plan group it sat in lists them in its place, and the task is
+ * marked superseded. With `chain`, the subtasks also take its place in its
+ * task chain (or form a new one), so a loop builds them in order; otherwise
+ * the task just leaves its chain.
+ */
+export function supersedeTask(
+  state: OrchestratorState,
+  task: Task,
+  subtasks: Task[],
+  chain: boolean
+): void {
+  const db = getDatabase();
+  const subtaskIds = subtasks.map((t) => t.id);
+
+  for (const subtask of subtasks) {
+    updateTaskDependenciesInDb(db, state.runId, subtask.id, subtask.dependencies);
+  }
+  for (const dependent of state.tasks.filter((t) => t.dependencies.includes(task.id))) {
+    dependent.dependencies = [
+      ...dependent.dependencies.filter((id) => id !== task.id),
+      ...subtaskIds,
+    ];
+    updateTaskDependenciesInDb(db, state.runId, dependent.id, dependent.dependencies);
+  }
+  // The task graph shares this array, so the scheduler picks the subtasks up
+  state.tasks.push(...subtasks);
+  task.status = 'superseded';
+
+  const graph = state.taskGraph;
+  if (!graph) return;
+  const replace = (ids: string[], replacement: string[]) =>
+    ids.flatMap((id) => (id === task.id ? replacement : [id]));
+  graph.parallelGroups = graph.parallelGroups.map((group) => replace(group, subtaskIds));
+  if (chain) {
+    graph.chains = graph.chains.some((c) => c.includes(task.id))
+      ? graph.chains.map((c) => replace(c, subtaskIds))
+      : [...graph.chains, subtaskIds];
+  } else {
+    graph.chains = graph.chains.map((c) => replace(c, [])).filter((c) => c.length > 0);
+  }
+  saveTaskGraphToDb(db, state.runId, graph.parallelGroups, graph.chains);
+}
+
+/**
+ * Iteration at which a loop's current task counts as overrun: the loop's
+ * iteration count spans every task it has worked on, so the estimates of all
+ * of its tasks up to the current one are added up.
+ */
+export function getOverrunIteration(loop: LoopState, task: Task, allTasks: Task[]): number {
+  const estimate = loop.taskIds
+    .slice(0, loop.taskIds.indexOf(task.id) + 1)
+    .reduce((sum, id) => sum + (allTasks.find((t) => t.id === id)?.estimatedIterations ?? 0), 0);
+  return OVERRUN_SPLIT_FACTOR * estimate;
+}
+
+/** The `remaining` steps of the loop's latest scratchpad entry, if it has any */
+export function readScratchpadRemaining(runId: string, loopId: string): string[] {
+  const [entry] = readContextFromDb(getDatabase(), {
+    runId,
+    types: ['scratchpad'],
+    loopId,
+    limit: 1,
+  }).entries;
+  if (!entry) return [];
+  try {
+    const { remaining } = JSON.parse(entry.content) as { remaining?: unknown };
+    return Array.isArray(remaining) ? remaining.map(String).filter((s) => s.trim()) : [];
+  } catch {
+    return [];
+  }
+}
+
+export interface OverrunSplitResult {
+  split: boolean;
+  costUsd: number;
+}
+
+/**
+ * Split the remaining work of a task that has run well past its estimate.
+ * A planner agent turns the scratchpad's `remaining` steps into subtasks; the
+ * loop keeps its worktree and works through them in order, like a task chain,
+ * and the original task is superseded. A split that would leave the
+ * dependencies cyclic is dropped. Every attempt is logged as a task_overrun
+ * decision.
+ */
+export async function splitOverrunTask(
+  state: OrchestratorState,
+  loop: LoopState,
+  task: Task,
+  loopManager: LoopManager,
+  onLoopOutput?: (loopId: string, text: string) => void,
+  tracer?: DebugTracer
+): Promise<OverrunSplitResult> {
+  const output = (text: string) => {
+    onLoopOutput?.(loop.loopId, `[split] ${text}\n`);
+    loopManager.appendOutput(loop.loopId, `[split] ${text}`);
+  };
+  const input = {
+    taskId: task.id,
+    estimatedIterations: task.estimatedIterations,
+    iteration: loop.iteration,
+  };
+  const remaining = readScratchpadRemaining(state.runId, loop.loopId);
+  if (remaining.length === 0) {
+    tracer?.logDecision(
+      'task_overrun',
+      input,
+      'skipped',
+      'The scratchpad lists no remaining steps to split',
+      loop.loopId
+    );
+    return { split: false, costUsd: 0 };
+  }
+
+  output(`${task.id} is past ${OVERRUN_SPLIT_FACTOR}x its estimate; splitting the remaining work`);
+  const prompt = OVERRUN_SPLIT_PROMPT.replaceAll('{{taskId}}', task.id)
+    .replace('{{taskTitle}}', task.title)
+    .replace('{{taskDescription}}', task.description)
+    .replace('{{estimatedIterations}}', String(task.estimatedIterations))
+    .replace('{{iteration}}', String(loop.iteration))
+    .replace('{{remaining}}', remaining.map((step) => `- ${step}`).join('\n'));
+  const { subtasks, costUsd } = await runSplitAgent(
+    state,
+    loop,
+    prompt,
+    'plan',
+    getEffortConfig(state.effort).models.plan,
+    onLoopOutput ? (text) => onLoopOutput(loop.loopId, text) : undefined,
+    tracer
+  );
+  if (subtasks.length === 0) {
+    tracer?.logDecision(
+      'task_overrun',
+      input,
+      'skipped',
+      'Split agent created no subtasks',
+      loop.loopId
+    );
+    return { split: false, costUsd };
+  }
+
+  // Each subtask builds on the previous one's work in the same worktree
+  subtasks.forEach((subtask, i) => {
+    subtask.dependencies = i === 0 ? [...task.dependencies] : [subtasks[i - 1].id];
+  });
+  const cycle = findSplitCycle(state.tasks, task, subtasks);
+  if (cycle) {
+    deleteTasksFromDb(
+      getDatabase(),
+      state.runId,
+      subtasks.map((t) => t.id)
+    );
+    tracer?.logDecision(
+      'task_overrun',
+      { ...input, subtaskIds: subtasks.map((t) => t.id) },
+      'skipped',
+      `Subtasks would create a dependency cycle: ${cycle.join(' -> ')}`,
+      loop.loopId
+    );
+    return { split: false, costUsd };
+  }
+  supersedeTask(state, task, subtasks, true);
+  // The superseded task stays in the loop, so its iterations still count toward the estimates
+  loop.taskIds.splice(loop.taskIds.indexOf(task.id) + 1, 0, ...subtasks.map((t) => t.id));
+
+  const details = `Split the remaining work of ${task.id} into ${subtasks.map((t) => t.id).join(', ')}`;
+  output(details);
+  tracer?.logDecision(
+    'task_overrun',
+    { ...input, subtaskIds: subtasks.map((t) => t.id) },
+    'split',
+    details,
+    loop.loopId
+  );
+  return { split: true, costUsd };
+}
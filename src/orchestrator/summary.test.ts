@@ -8,6 +8,8 @@ describe('Dry Run Summary', () => {
     const mockState: OrchestratorState = {
       runId: 'test-123',
       specPath: '/test/spec.md',
+      specHash: null,
+      specSnapshot: null,
       effort: 'medium',
       phase: 'build',
       phaseHistory: [],
@@ -34,6 +36,7 @@ describe('Dry Run Summary', () => {
       taskGraph: {
         tasks: [],
         parallelGroups: [['1'], ['2']],
+        chains: [],
       },
       activeLoops: [],
       completedTasks: [],
@@ -68,6 +71,9 @@ describe('Dry Run Summary', () => {
       maxLoops: 5,
       maxIterations: 10,
       stateDir: '/test/.sq',
+      verify: { commands: [], timeoutSeconds: 600 },
+      recoveryLadder: [],
+      taskRules: [],
       baseBranch: 'main',
       useWorktrees: true,
       debug: false,
@@ -76,14 +82,37 @@ describe('Dry Run Summary', () => {
       codebaseAnalysis: null,
     };
 
-    // Should not throw
-    assert.doesNotThrow(() => printDryRunSummary(mockState));
+    const lines: string[] = [];
+    const originalLog = console.log;
+    console.log = (line: string) => lines.push(line);
+    try {
+      // Should not throw
+      assert.doesNotThrow(() =>
+        printDryRunSummary(mockState, {
+          iterations: 4,
+          buildCostUsd: 5,
+          reviewCostUsd: 0.12,
+          projectedRunCostUsd: 5.12,
+          makespanIterations: 4,
+          wallClockSeconds: 450,
+          historyRuns: 0,
+        })
+      );
+    } finally {
+      console.log = originalLog;
+    }
+
+    assert.ok(lines.includes('Critical path: 1 -> 2 (4 iterations)'));
+    assert.ok(lines.includes('Estimated makespan with 5 loops: 4 iterations'));
+    assert.ok(lines.includes('  Projected run total: ~$5.12 (limit $100.00)'));
   });
 
   it('handles state without taskGraph', () => {
     const mockState: OrchestratorState = {
       runId: 'test-123',
       specPath: '/test/spec.md',
+      specHash: null,
+      specSnapshot: null,
       effort: 'medium',
       phase: 'enumerate',
       phaseHistory: [],
@@ -122,6 +151,9 @@ describe('Dry Run Summary', () => {
       maxLoops: 5,
       maxIterations: 10,
       stateDir: '/test/.sq',
+      verify: { commands: [], timeoutSeconds: 600 },
+      recoveryLadder: [],
+      taskRules: [],
       baseBranch: 'main',
       useWorktrees: true,
       debug: false,
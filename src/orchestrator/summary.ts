@@ -1,9 +1,12 @@
 import type { OrchestratorState } from '../types/index.js';
+import { type CostForecast, formatForecast } from './forecast.js';
+import { estimateMakespan, getCriticalPath } from './schedule.js';
 
 /**
- * Prints a dry-run summary showing tasks, dependencies, and execution plan.
+ * Prints a dry-run summary showing tasks, dependencies, execution plan and,
+ * when given, the cost forecast.
  */
-export function printDryRunSummary(state: OrchestratorState): void {
+export function printDryRunSummary(state: OrchestratorState, forecast?: CostForecast): void {
   console.log('\n=== DRY RUN SUMMARY ===\n');
 
   console.log(`Tasks (${state.tasks.length}):`);
@@ -28,6 +31,22 @@ export function printDryRunSummary(state: OrchestratorState): void {
 
     console.log(`\nEstimated agent spawns: ${totalTasks}`);
     console.log(`Estimated iterations: ${totalGroups} groups`);
+
+    const criticalPath = getCriticalPath(state.tasks, state.completedTasks);
+    if (criticalPath.length > 0) {
+      const pathIterations = criticalPath
+        .map((id) => state.tasks.find((t) => t.id === id)!.estimatedIterations)
+        .reduce((sum, n) => sum + n, 0);
+      console.log(`Critical path: ${criticalPath.join(' -> ')} (${pathIterations} iterations)`);
+      console.log(
+        `Estimated makespan with ${state.maxLoops} loops: ${estimateMakespan(state.tasks, state.maxLoops, state.completedTasks)} iterations`
+      );
+    }
+
+    if (forecast) {
+      console.log('');
+      for (const line of formatForecast(forecast, state.costLimits)) console.log(line);
+    }
   } else {
     console.log('\nNo execution plan generated.');
   }
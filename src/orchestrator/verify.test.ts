@@ -0,0 +1,60 @@
+import assert from 'node:assert';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { describeVerifyFailure, runVerifyCommands, verifyFailureToIssue } from './verify.js';
+
+describe('runVerifyCommands', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'sq-verify-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('returns null when every command passes in the given cwd', async () => {
+    const failure = await runVerifyCommands(
+      { commands: ['true', `test "$(pwd)" = "${tempDir}"`], timeoutSeconds: 10 },
+      tempDir
+    );
+    assert.strictEqual(failure, null);
+  });
+
+  test('stops at the first failing command and keeps its output', async () => {
+    const failure = await runVerifyCommands(
+      { commands: ['echo ok', 'echo 1 failing test >&2; exit 3', 'touch ran'], timeoutSeconds: 10 },
+      tempDir
+    );
+
+    assert.deepStrictEqual(failure, {
+      command: 'echo 1 failing test >&2; exit 3',
+      exitCode: 3,
+      output: '1 failing test\n',
+    });
+    assert.strictEqual(
+      describeVerifyFailure(failure, { timeoutSeconds: 10 }),
+      'Verify command `echo 1 failing test >&2; exit 3` exited with code 3'
+    );
+    const issue = verifyFailureToIssue('task-1', failure, { timeoutSeconds: 10 });
+    assert.strictEqual(issue.type, 'verification-failure');
+    assert.ok(issue.description.includes('1 failing test'));
+  });
+
+  test('reports a timed out command without an exit code', async () => {
+    const failure = await runVerifyCommands(
+      { commands: ['sleep 5'], timeoutSeconds: 0.2 },
+      tempDir
+    );
+
+    assert.ok(failure);
+    assert.strictEqual(failure.exitCode, null);
+    assert.strictEqual(
+      describeVerifyFailure(failure, { timeoutSeconds: 0.2 }),
+      'Verify command `sleep 5` timed out after 0.2s'
+    );
+  });
+});
@@ -0,0 +1,98 @@
+import { exec } from 'node:child_process';
+import { promisify } from 'node:util';
+import type { ReviewIssue, Task, VerifyConfig } from '../types/index.js';
+
+const execAsync = promisify(exec);
+
+// Keep the end of the output, where test runners and compilers print the failures
+const MAX_OUTPUT_CHARS = 4000;
+
+/** ID prefix of the tasks opened when a merge breaks the after-merge commands */
+export const INTEGRATION_FIX_TASK_PREFIX = 'integration-fix-';
+
+export interface VerifyFailure {
+  command: string;
+  /** null when the command was killed by the timeout */
+  exitCode: number | null;
+  output: string;
+}
+
+/**
+ * Run the verify commands in order in `cwd`, stopping at the first one that
+ * fails or times out. Returns null when every command passed.
+ */
+export async function runVerifyCommands(
+  config: VerifyConfig,
+  cwd: string
+): Promise<VerifyFailure | null> {
+  for (const command of config.commands) {
+    try {
+      await execAsync(command, {
+        cwd,
+        timeout: config.timeoutSeconds * 1000,
+        maxBuffer: 64 * 1024 * 1024,
+      });
+    } catch (e) {
+      const error = e as { code?: number; killed?: boolean; stdout?: string; stderr?: string };
+      const output = `${error.stdout ?? ''}${error.stderr ?? ''}`;
+      return {
+        command,
+        exitCode: error.killed || typeof error.code !== 'number' ? null : error.code,
+        output: output.length > MAX_OUTPUT_CHARS ? output.slice(-MAX_OUTPUT_CHARS) : output,
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * One-line summary of a failure. Stable across iterations for the same
+ * command and exit code, so repeated failures count toward sameErrorCount.
+ */
+export function describeVerifyFailure(
+  failure: VerifyFailure,
+  config: Pick<VerifyConfig, 'timeoutSeconds'>
+): string {
+  return failure.exitCode === null
+    ? `Verify command \`${failure.command}\` timed out after ${config.timeoutSeconds}s`
+    : `Verify command \`${failure.command}\` exited with code ${failure.exitCode}`;
+}
+
+/**
+ * Turn a failure into review feedback for the task's next build iteration.
+ */
+export function verifyFailureToIssue(
+  taskId: string,
+  failure: VerifyFailure,
+  config: Pick<VerifyConfig, 'timeoutSeconds'>
+): ReviewIssue {
+  return {
+    taskId,
+    file: failure.command,
+    type: 'verification-failure',
+    description: `${describeVerifyFailure(failure, config)}:\n\`\`\`\n${failure.output.trim()}\n\`\`\``,
+    suggestion: `Make \`${failure.command}\` pass before printing TASK_COMPLETE`,
+  };
+}
+
+/**
+ * Task that repairs the base branch after merging `mergedTaskId` made an
+ * after-merge command fail. It has no dependencies, so the next build
+ * iteration gives it a loop of its own.
+ */
+export function createIntegrationFixTask(
+  id: string,
+  mergedTaskId: string,
+  failure: VerifyFailure,
+  config: Pick<VerifyConfig, 'timeoutSeconds'>
+): Task {
+  return {
+    id,
+    title: `Fix integration failure after merging ${mergedTaskId}`,
+    description: `${describeVerifyFailure(failure, config)} on the base branch after task ${mergedTaskId} was merged. The work merged so far passed on its own but breaks when combined. Fix the code so \`${failure.command}\` passes again without undoing the merged tasks.\n\nOutput:\n\`\`\`\n${failure.output.trim()}\n\`\`\``,
+    status: 'pending',
+    dependencies: [],
+    estimatedIterations: 3,
+    assignedLoopId: null,
+  };
+}
@@ -3,10 +3,19 @@ import { randomUUID } from 'node:crypto';
 import { existsSync } from 'node:fs';
 import { join } from 'node:path';
 import { type EffortConfig, getEffortConfig, presetToEffortConfig } from '../config/effort.js';
-import { getPreset, loadConfig } from '../config/loader.js';
+import {
+  DEFAULT_VERIFY_CONFIG,
+  getPreset,
+  getTaskRules,
+  getVerifyConfig,
+  loadConfig,
+} from '../config/loader.js';
+import { loadSpecTaskRules } from '../config/task-rules.js';
+import { recordRunSpend } from '../costs/ledger.js';
 import { pruneContext, readContextFromDb } from '../db/context.js';
 import { closeDatabase, createDatabase, getDatabase } from '../db/index.js';
 import { SetCodebaseAnalysisSchema } from '../mcp/tools.js';
+import { readSpecHash } from './spec.js';
 
 /**
  * Maximum number of context entries to keep per type (discovery, error, decision).
@@ -25,12 +34,15 @@ import type {
   EffortLevel,
   LoopReviewStatus,
   LoopState,
+  ModelTier,
   OrchestratorState,
   Phase,
   ReviewIssue,
   ReviewIssueType,
   ReviewType,
   Task,
+  TaskRule,
+  VerifyConfig,
 } from '../types/index.js';
 
 /**
@@ -54,6 +66,8 @@ export interface InitStateOptions {
   maxIterations: number;
   useWorktrees?: boolean;
   debug?: boolean;
+  verify?: VerifyConfig;
+  taskRules?: TaskRule[]; // ralphs.yaml rules, then spec front-matter rules
 }
 
 function getBaseBranch(): string | null {
@@ -85,6 +99,8 @@ export function initializeState(options: InitStateOptions): OrchestratorState {
   return {
     runId: randomUUID(),
     specPath: options.specPath,
+    specHash: readSpecHash(options.specPath),
+    specSnapshot: null, // Will be set during ENUMERATE phase
     effort: options.effort,
     phase: 'analyze',
     phaseHistory: [],
@@ -119,6 +135,9 @@ export function initializeState(options: InitStateOptions): OrchestratorState {
     maxLoops: options.maxLoops,
     maxIterations: options.maxIterations,
     stateDir: options.stateDir,
+    verify: options.verify ?? DEFAULT_VERIFY_CONFIG,
+    recoveryLadder: effortConfig.recoveryLadder,
+    taskRules: options.taskRules ?? [],
     baseBranch,
     useWorktrees,
     debug: options.debug ?? false,
@@ -148,6 +167,8 @@ export function saveRun(state: OrchestratorState): void {
           total_cost_usd = ?,
           was_empty_project = ?,
           codebase_analysis = ?,
+          spec_hash = ?,
+          spec_snapshot = ?,
           updated_at = datetime('now')
         WHERE id = ?
       `).run(
@@ -158,14 +179,17 @@ export function saveRun(state: OrchestratorState): void {
         state.costs.totalCostUsd,
         state.wasEmptyProject === null ? null : state.wasEmptyProject ? 1 : 0,
         state.codebaseAnalysis ? JSON.stringify(state.codebaseAnalysis) : null,
+        state.specHash,
+        state.specSnapshot,
         state.runId
       );
     } else {
       // Insert new run
       db.prepare(`
         INSERT INTO runs (id, spec_path, effort, phase, pending_review, review_type, revision_count,
-          max_loops, max_iterations, total_cost_usd, base_branch, use_worktrees, was_empty_project, codebase_analysis)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          max_loops, max_iterations, total_cost_usd, base_branch, use_worktrees, was_empty_project, codebase_analysis,
+          spec_hash, spec_snapshot)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `).run(
         state.runId,
         state.specPath,
@@ -180,7 +204,9 @@ export function saveRun(state: OrchestratorState): void {
         state.baseBranch,
         state.useWorktrees ? 1 : 0,
         state.wasEmptyProject === null ? null : state.wasEmptyProject ? 1 : 0,
-        state.codebaseAnalysis ? JSON.stringify(state.codebaseAnalysis) : null
+        state.codebaseAnalysis ? JSON.stringify(state.codebaseAnalysis) : null,
+        state.specHash,
+        state.specSnapshot
       );
     }
 
@@ -201,6 +227,9 @@ export function saveRun(state: OrchestratorState): void {
   });
 
   saveTransaction();
+
+  // Carry new spend over to the cross-run ledger, when this process opened one
+  recordRunSpend(state.runId, state.costs.totalCostUsd);
 }
 
 /**
@@ -269,8 +298,10 @@ export function persistLoop(runId: string, loop: LoopState, loopCostUsd = 0): vo
     INSERT OR REPLACE INTO loops (
       id, run_id, task_ids, iteration, max_iterations, review_interval,
       last_review_at, status, same_error_count, no_progress_count,
-      last_error, last_file_change_iteration, last_activity_at, cost_usd, worktree_path, phase
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      last_error, last_error_fingerprint, error_history, last_file_change_iteration,
+      last_activity_at, cost_usd, worktree_path, phase, recovery_attempts, model_tier,
+      passed_task_ids
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `).run(
     loop.loopId,
     runId,
@@ -283,11 +314,16 @@ export function persistLoop(runId: string, loop: LoopState, loopCostUsd = 0): vo
     loop.stuckIndicators.sameErrorCount,
     loop.stuckIndicators.noProgressCount,
     loop.stuckIndicators.lastError,
+    loop.stuckIndicators.lastErrorFingerprint,
+    JSON.stringify(loop.stuckIndicators.errorHistory),
     loop.stuckIndicators.lastFileChangeIteration,
     loop.stuckIndicators.lastActivityAt,
     loopCostUsd,
     loop.worktreePath,
-    loop.phase
+    loop.phase,
+    loop.recoveryAttempts,
+    loop.modelTier,
+    JSON.stringify(loop.passedTaskIds)
   );
 }
 
@@ -300,8 +336,10 @@ function saveLoops(state: OrchestratorState): void {
     `INSERT OR REPLACE INTO loops (
       id, run_id, task_ids, iteration, max_iterations, review_interval,
       last_review_at, status, same_error_count, no_progress_count,
-      last_error, last_file_change_iteration, last_activity_at, cost_usd, worktree_path, phase
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      last_error, last_error_fingerprint, error_history, last_file_change_iteration,
+      last_activity_at, cost_usd, worktree_path, phase, recovery_attempts, model_tier,
+      passed_task_ids
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     state.activeLoops,
     (loop) => [
       loop.loopId,
@@ -315,11 +353,16 @@ function saveLoops(state: OrchestratorState): void {
       loop.stuckIndicators.sameErrorCount,
       loop.stuckIndicators.noProgressCount,
       loop.stuckIndicators.lastError,
+      loop.stuckIndicators.lastErrorFingerprint,
+      JSON.stringify(loop.stuckIndicators.errorHistory),
       loop.stuckIndicators.lastFileChangeIteration,
       loop.stuckIndicators.lastActivityAt,
       state.costs.loopCosts[loop.loopId] ?? 0,
       loop.worktreePath,
       loop.phase,
+      loop.recoveryAttempts,
+      loop.modelTier,
+      JSON.stringify(loop.passedTaskIds),
     ]
   );
 }
@@ -348,22 +391,42 @@ function savePendingConflicts(state: OrchestratorState): void {
   }
 }
 
-export function loadState(stateDir: string): OrchestratorState | null {
+export interface LoadStateOptions {
+  /**
+   * Open state.db read-only and skip pruning old context entries, for
+   * inspecting a run that may still be executing
+   */
+  readonly?: boolean;
+}
+
+/**
+ * Load a run from the state directory.
+ * When runId is omitted, the most recently updated run is loaded.
+ */
+export function loadState(
+  stateDir: string,
+  runId?: string,
+  options: LoadStateOptions = {}
+): OrchestratorState | null {
   const dbPath = join(stateDir, 'state.db');
   if (!existsSync(dbPath)) {
     return null;
   }
 
   // Initialize database connection
-  createDatabase(dbPath);
+  createDatabase(dbPath, { readonly: options.readonly });
   const db = getDatabase();
 
-  // Get most recent run
-  const run = db
-    .prepare(`
+  // Get the requested run, or the most recent one
+  const run = (
+    runId
+      ? db.prepare('SELECT * FROM runs WHERE id = ?').get(runId)
+      : db
+          .prepare(`
     SELECT * FROM runs ORDER BY updated_at DESC LIMIT 1
   `)
-    .get() as
+          .get()
+  ) as
     | {
         id: string;
         spec_path: string;
@@ -379,6 +442,8 @@ export function loadState(stateDir: string): OrchestratorState | null {
         use_worktrees: number;
         was_empty_project: number | null;
         codebase_analysis: string | null;
+        spec_hash: string | null;
+        spec_snapshot: string | null;
       }
     | undefined;
 
@@ -396,10 +461,18 @@ export function loadState(stateDir: string): OrchestratorState | null {
     id: string;
     title: string;
     description: string;
-    status: 'pending' | 'in_progress' | 'completed' | 'failed';
+    status:
+      | 'pending'
+      | 'in_progress'
+      | 'completed'
+      | 'failed'
+      | 'cancelled'
+      | 'skipped'
+      | 'superseded';
     dependencies: string;
     estimated_iterations: number;
     assigned_loop_id: string | null;
+    model: ModelTier | null;
   }>;
 
   const tasks: Task[] = taskRows.map((row) => ({
@@ -410,6 +483,7 @@ export function loadState(stateDir: string): OrchestratorState | null {
     dependencies: JSON.parse(row.dependencies),
     estimatedIterations: row.estimated_iterations,
     assignedLoopId: row.assigned_loop_id,
+    ...(row.model ? { model: row.model } : {}),
   }));
 
   // Load plan groups
@@ -421,6 +495,15 @@ export function loadState(stateDir: string): OrchestratorState | null {
 
   const parallelGroups = planGroupRows.map((row) => JSON.parse(row.task_ids) as string[]);
 
+  // Load task chains
+  const chainRows = db
+    .prepare(`
+    SELECT task_ids FROM task_chains WHERE run_id = ? ORDER BY chain_index
+  `)
+    .all(run.id) as Array<{ task_ids: string }>;
+
+  const chains = chainRows.map((row) => JSON.parse(row.task_ids) as string[]);
+
   // Load loops
   const loopRows = db
     .prepare(`
@@ -433,15 +516,20 @@ export function loadState(stateDir: string): OrchestratorState | null {
     max_iterations: number;
     review_interval: number;
     last_review_at: number;
-    status: 'pending' | 'running' | 'stuck' | 'completed' | 'failed' | 'interrupted';
+    status: 'pending' | 'running' | 'stuck' | 'completed' | 'failed' | 'interrupted' | 'paused';
     same_error_count: number;
     no_progress_count: number;
     last_error: string | null;
+    last_error_fingerprint: string | null;
+    error_history: string;
     last_file_change_iteration: number;
     last_activity_at: number | null;
     worktree_path: string | null;
     cost_usd: number;
     phase: string;
+    recovery_attempts: number;
+    model_tier: ModelTier | null;
+    passed_task_ids: string;
   }>;
 
   // Load loop reviews to restore per-loop review state
@@ -491,6 +579,7 @@ export function loadState(stateDir: string): OrchestratorState | null {
       return {
         loopId: row.id,
         taskIds: JSON.parse(row.task_ids),
+        passedTaskIds: JSON.parse(row.passed_task_ids),
         iteration: row.iteration,
         maxIterations: row.max_iterations,
         reviewInterval: row.review_interval,
@@ -500,6 +589,8 @@ export function loadState(stateDir: string): OrchestratorState | null {
           sameErrorCount: row.same_error_count,
           noProgressCount: row.no_progress_count,
           lastError: row.last_error,
+          lastErrorFingerprint: row.last_error_fingerprint,
+          errorHistory: JSON.parse(row.error_history),
           lastFileChangeIteration: row.last_file_change_iteration,
           lastActivityAt: row.last_activity_at ?? Date.now(),
         },
@@ -511,6 +602,8 @@ export function loadState(stateDir: string): OrchestratorState | null {
         lastReviewId,
         revisionAttempts,
         lastCheckpointReviewAt: 0, // Reset on resume - will trigger checkpoint sooner if needed
+        recoveryAttempts: row.recovery_attempts,
+        modelTier: row.model_tier,
       };
     });
 
@@ -608,17 +701,23 @@ export function loadState(stateDir: string): OrchestratorState | null {
   const reviewIssues = allReviewIssues.reverse();
 
   // Prune old context entries from database to prevent unbounded storage growth
-  pruneContext(db, run.id);
+  if (!options.readonly) {
+    pruneContext(db, run.id);
+  }
 
   // Get completed task IDs
   const completedTasks = tasks.filter((t) => t.status === 'completed').map((t) => t.id);
 
   // Get effort config for cost limits - try loading from config file first
   let effortConfig;
+  let verify = DEFAULT_VERIFY_CONFIG;
+  let configTaskRules: TaskRule[] = [];
   try {
     const config = loadConfig();
     const preset = getPreset(config, run.effort);
     effortConfig = presetToEffortConfig(preset);
+    verify = getVerifyConfig(config);
+    configTaskRules = getTaskRules(config);
   } catch (err) {
     // Fall back to built-in defaults if config file has issues
     console.warn(
@@ -627,6 +726,16 @@ export function loadState(stateDir: string): OrchestratorState | null {
     effortConfig = getEffortConfig(run.effort);
   }
 
+  // The spec may have been edited since the run started; its current rules apply
+  let specTaskRules: TaskRule[] = [];
+  try {
+    specTaskRules = loadSpecTaskRules(run.spec_path);
+  } catch (err) {
+    console.warn(
+      `Warning: Could not read task rules from the spec front-matter: ${(err as Error).message}`
+    );
+  }
+
   // Load phase costs from database
   const phaseCostRows = db
     .prepare(`
@@ -669,11 +778,13 @@ export function loadState(stateDir: string): OrchestratorState | null {
   return {
     runId: run.id,
     specPath: run.spec_path,
+    specHash: run.spec_hash,
+    specSnapshot: run.spec_snapshot,
     effort: run.effort,
     phase: run.phase,
     phaseHistory,
     tasks,
-    taskGraph: parallelGroups.length > 0 ? { tasks, parallelGroups } : null,
+    taskGraph: parallelGroups.length > 0 ? { tasks, parallelGroups, chains } : null,
     activeLoops,
     completedTasks,
     pendingReview: run.pending_review === 1,
@@ -694,6 +805,9 @@ export function loadState(stateDir: string): OrchestratorState | null {
     maxLoops: run.max_loops,
     maxIterations: run.max_iterations,
     stateDir,
+    verify,
+    recoveryLadder: effortConfig.recoveryLadder,
+    taskRules: [...configTaskRules, ...specTaskRules],
     baseBranch: run.base_branch,
     useWorktrees: run.use_worktrees === 1,
     debug: false, // Runtime option, not persisted
@@ -708,4 +822,39 @@ export function loadState(stateDir: string): OrchestratorState | null {
   };
 }
 
+export interface ResumeCheck {
+  /** The run was started from a different spec file than the one given now */
+  specPathMismatch: boolean;
+  /** The spec file content no longer matches the hash recorded for the run */
+  specChanged: boolean;
+}
+
+/**
+ * Compare a loaded run against the spec the user is resuming with.
+ * Paths are expected to be absolute (index.ts resolves --spec before use).
+ * The content check always reads the run's own spec, since that is the file it keeps using.
+ */
+export function checkResume(state: OrchestratorState, specPath: string): ResumeCheck {
+  const currentHash = readSpecHash(state.specPath);
+  return {
+    specPathMismatch: state.specPath !== specPath,
+    specChanged: state.specHash !== null && currentHash !== null && state.specHash !== currentHash,
+  };
+}
+
+/**
+ * Send a resumed run whose spec changed back through ENUMERATE, which diffs the
+ * stored snapshot against the new spec. Runs that have not enumerated yet read
+ * the new spec anyway. Returns true if the run will re-enumerate.
+ */
+export function reenumerateOnSpecChange(state: OrchestratorState): boolean {
+  if (state.specSnapshot === null) {
+    return false;
+  }
+  state.phase = 'enumerate';
+  state.pendingReview = false;
+  state.reviewType = null;
+  return true;
+}
+
 export { OrchestratorStateSchema } from './schema.js';
@@ -4,7 +4,15 @@ export const TaskSchema = z.object({
   id: z.string(),
   title: z.string(),
   description: z.string(),
-  status: z.enum(['pending', 'in_progress', 'completed', 'failed']),
+  status: z.enum([
+    'pending',
+    'in_progress',
+    'completed',
+    'failed',
+    'cancelled',
+    'skipped',
+    'superseded',
+  ]),
   dependencies: z.array(z.string()),
   estimatedIterations: z.number(),
   assignedLoopId: z.string().nullable(),
@@ -13,12 +21,15 @@ export const TaskSchema = z.object({
 export const TaskGraphSchema = z.object({
   tasks: z.array(TaskSchema),
   parallelGroups: z.array(z.array(z.string())),
+  chains: z.array(z.array(z.string())).default([]),
 });
 
 export const StuckIndicatorsSchema = z.object({
   sameErrorCount: z.number(),
   noProgressCount: z.number(),
   lastError: z.string().nullable(),
+  lastErrorFingerprint: z.string().nullable(),
+  errorHistory: z.array(z.string().nullable()),
   lastFileChangeIteration: z.number(),
 });
 
@@ -29,7 +40,7 @@ export const LoopStateSchema = z.object({
   maxIterations: z.number(),
   reviewInterval: z.number(),
   lastReviewAt: z.number(),
-  status: z.enum(['pending', 'running', 'stuck', 'completed', 'failed', 'interrupted']),
+  status: z.enum(['pending', 'running', 'stuck', 'completed', 'failed', 'interrupted', 'paused']),
   stuckIndicators: StuckIndicatorsSchema,
   output: z.array(z.string()),
   worktreePath: z.string().nullable(),
@@ -56,11 +67,16 @@ export const CostLimitsSchema = z.object({
   perLoopMaxUsd: z.number(),
   perPhaseMaxUsd: z.number(),
   perRunMaxUsd: z.number(),
+  softLimitRatio: z.number().optional(),
+  downgradeAtSoftLimit: z.boolean().optional(),
+  maxModelTier: z.enum(['haiku', 'sonnet', 'opus']).optional(),
 });
 
 export const OrchestratorStateSchema = z.object({
   runId: z.string(),
   specPath: z.string(),
+  specHash: z.string().nullable(),
+  specSnapshot: z.string().nullable(),
   effort: z.enum(['low', 'medium', 'high', 'max']),
   phase: PhaseEnum,
   phaseHistory: z.array(
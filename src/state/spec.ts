@@ -0,0 +1,20 @@
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+
+/**
+ * Hash spec content so a resumed run can tell whether the spec was edited.
+ */
+export function hashSpecContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Read and hash a spec file. Returns null if the file cannot be read.
+ */
+export function readSpecHash(specPath: string): string | null {
+  try {
+    return hashSpecContent(readFileSync(specPath, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
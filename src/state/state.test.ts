@@ -1,5 +1,5 @@
 import assert from 'node:assert';
-import { mkdtempSync, rmSync } from 'node:fs';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 import { afterEach, beforeEach, describe, test } from 'node:test';
@@ -7,8 +7,10 @@ import { closeDatabase, createDatabase, getDatabase } from '../db/index.js';
 import {
   MAX_CONTEXT_ENTRIES_PER_TYPE,
   MAX_REVIEW_ISSUES,
+  checkResume,
   initializeState,
   loadState,
+  reenumerateOnSpecChange,
   saveRun,
 } from './index.js';
 
@@ -525,6 +527,7 @@ describe('State Persistence', () => {
       {
         loopId: 'loop-test',
         taskIds: ['task-a', 'task-b'],
+        passedTaskIds: ['task-a'],
         iteration: 3,
         maxIterations: 20,
         reviewInterval: 5,
@@ -534,6 +537,8 @@ describe('State Persistence', () => {
           sameErrorCount: 1,
           noProgressCount: 0,
           lastError: 'Test error',
+          lastErrorFingerprint: 'abc123',
+          errorHistory: [null, 'abc123'],
           lastFileChangeIteration: 2,
           lastActivityAt: Date.now(),
         },
@@ -544,6 +549,8 @@ describe('State Persistence', () => {
         lastReviewId: null,
         revisionAttempts: 0,
         lastCheckpointReviewAt: 0,
+        recoveryAttempts: 0,
+        modelTier: null,
       },
     ];
     state.costs.loopCosts['loop-test'] = 0.33;
@@ -559,9 +566,12 @@ describe('State Persistence', () => {
     const loop = loaded.activeLoops[0];
     assert.strictEqual(loop.loopId, 'loop-test');
     assert.deepStrictEqual(loop.taskIds, ['task-a', 'task-b']);
+    assert.deepStrictEqual(loop.passedTaskIds, ['task-a']);
     assert.strictEqual(loop.iteration, 3);
     assert.strictEqual(loop.stuckIndicators.sameErrorCount, 1);
     assert.strictEqual(loop.stuckIndicators.lastError, 'Test error');
+    assert.strictEqual(loop.stuckIndicators.lastErrorFingerprint, 'abc123');
+    assert.deepStrictEqual(loop.stuckIndicators.errorHistory, [null, 'abc123']);
     assert.strictEqual(loop.worktreePath, '/path/to/worktree');
     assert.strictEqual(loaded.costs.loopCosts['loop-test'], 0.33);
   });
@@ -1086,4 +1096,101 @@ describe('State Persistence', () => {
     assert.strictEqual(loaded2.wasEmptyProject, true);
     assert.strictEqual(loaded2.phase, 'build');
   });
+
+  test('specHash survives save/load and selects the requested run', () => {
+    const specPath = join(tempDir, 'spec.md');
+    writeFileSync(specPath, '# Spec v1');
+    createDatabase(join(tempDir, 'state.db'));
+
+    const first = initializeState({
+      specPath,
+      effort: 'medium',
+      stateDir: tempDir,
+      maxLoops: 4,
+      maxIterations: 20,
+      useWorktrees: false,
+    });
+    saveRun(first);
+    const second = initializeState({
+      specPath: '/path/to/other.md',
+      effort: 'medium',
+      stateDir: tempDir,
+      maxLoops: 4,
+      maxIterations: 20,
+      useWorktrees: false,
+    });
+    saveRun(second);
+    closeDatabase();
+
+    assert.ok(first.specHash);
+    assert.strictEqual(second.specHash, null);
+
+    const loaded = loadState(tempDir, first.runId);
+    assert.ok(loaded);
+    assert.strictEqual(loaded.runId, first.runId);
+    assert.strictEqual(loaded.specHash, first.specHash);
+  });
+
+  test('checkResume flags a different spec path and edited spec content', () => {
+    const specPath = join(tempDir, 'spec.md');
+    writeFileSync(specPath, '# Spec v1');
+    const state = initializeState({
+      specPath,
+      effort: 'medium',
+      stateDir: tempDir,
+      maxLoops: 4,
+      maxIterations: 20,
+      useWorktrees: false,
+    });
+
+    assert.deepStrictEqual(checkResume(state, specPath), {
+      specPathMismatch: false,
+      specChanged: false,
+    });
+    assert.strictEqual(checkResume(state, join(tempDir, 'other.md')).specPathMismatch, true);
+
+    writeFileSync(specPath, '# Spec v2');
+    assert.strictEqual(checkResume(state, specPath).specChanged, true);
+  });
+
+  test('specSnapshot survives save/load', () => {
+    createDatabase(join(tempDir, 'state.db'));
+    const state = initializeState({
+      specPath: '/path/to/spec.md',
+      effort: 'medium',
+      stateDir: tempDir,
+      maxLoops: 4,
+      maxIterations: 20,
+      useWorktrees: false,
+    });
+    state.specSnapshot = '# Spec v1';
+    saveRun(state);
+    closeDatabase();
+
+    const loaded = loadState(tempDir);
+    assert.strictEqual(loaded?.specSnapshot, '# Spec v1');
+  });
+
+  test('reenumerateOnSpecChange only reroutes runs that already enumerated', () => {
+    const state = initializeState({
+      specPath: '/path/to/spec.md',
+      effort: 'medium',
+      stateDir: tempDir,
+      maxLoops: 4,
+      maxIterations: 20,
+      useWorktrees: false,
+    });
+    state.phase = 'analyze';
+    assert.strictEqual(reenumerateOnSpecChange(state), false);
+    assert.strictEqual(state.phase, 'analyze');
+
+    state.specSnapshot = '# Spec v1';
+    state.phase = 'review';
+    state.pendingReview = true;
+    state.reviewType = 'build';
+    assert.strictEqual(reenumerateOnSpecChange(state), true);
+    assert.strictEqual(state.phase, 'enumerate');
+    assert.strictEqual(state.pendingReview, false);
+    assert.strictEqual(state.reviewType, null);
+  });
 });
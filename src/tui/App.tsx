@@ -1,11 +1,15 @@
 import { useApp, useInput, useStdout } from 'ink';
 import { useCallback, useEffect, useRef, useState } from 'react';
-import { closeDatabase } from '../db/index.js';
+import { writeContextToDb } from '../db/context.js';
+import { closeDatabase, getDatabase } from '../db/index.js';
+import { pauseLoopInDb, resumeLoopInDb } from '../db/loops.js';
+import { isDrainRequestedInDb, requestDrainInDb } from '../db/runs.js';
 import type { DebugTracer } from '../debug/index.js';
-import { runOrchestrator } from '../orchestrator/index.js';
+import { DRAINED_EXIT_CODE, runOrchestrator } from '../orchestrator/index.js';
+import { getCurrentTaskId } from '../orchestrator/phases/build.js';
 import { saveRun } from '../state/index.js';
 import type { LoopState, OrchestratorState, Phase } from '../types/index.js';
-import { Layout } from './Layout.js';
+import { Layout, sortLoopsForDisplay } from './Layout.js';
 
 function getPhaseStatusMessage(phase: Phase): string {
   switch (phase) {
@@ -66,6 +70,9 @@ export function App({ initialState, tracer }: AppProps) {
   // UI state for column pagination on narrow terminals
   const [currentPage, setCurrentPage] = useState(0);
 
+  // Text being typed as a hint for the focused loop (null = not typing)
+  const [hintInput, setHintInput] = useState<string | null>(null);
+
   // Calculate visible columns based on terminal width (must match Layout.tsx calculation)
   const { stdout } = useStdout();
   const terminalWidth = stdout?.columns || 120;
@@ -82,6 +89,7 @@ export function App({ initialState, tracer }: AppProps) {
 
   // Handle graceful shutdown on SIGINT (Ctrl+C)
   useEffect(() => {
+    let draining = false;
     const handleShutdown = () => {
       // Mark running loops as interrupted and save state before exiting
       try {
@@ -115,16 +123,80 @@ export function App({ initialState, tracer }: AppProps) {
       exit();
     };
 
-    process.on('SIGINT', handleShutdown);
+    // First SIGINT drains (see runPhase); a second one stops immediately
+    const handleInterrupt = () => {
+      if (draining) {
+        handleShutdown();
+        return;
+      }
+      draining = true;
+      try {
+        requestDrainInDb(getDatabase(), stateRef.current.runId);
+        setStatusMessage('Draining - finishing in-flight iterations (interrupt again to stop now)');
+      } catch {
+        handleShutdown();
+      }
+    };
+
+    process.on('SIGINT', handleInterrupt);
     process.on('SIGTERM', handleShutdown);
 
     return () => {
-      process.off('SIGINT', handleShutdown);
+      process.off('SIGINT', handleInterrupt);
       process.off('SIGTERM', handleShutdown);
     };
   }, [exit, tracer]);
 
-  useInput((input) => {
+  useInput((input, key) => {
+    // While typing a hint, keys edit the hint instead of acting as shortcuts
+    if (hintInput !== null) {
+      if (key.escape) {
+        setHintInput(null);
+      } else if (key.return) {
+        const loop =
+          focusedLoopIndex !== null ? sortLoopsForDisplay(loops)[focusedLoopIndex] : undefined;
+        if (loop && hintInput.trim()) {
+          // Picked up from the context table at the loop's next iteration
+          writeContextToDb(getDatabase(), {
+            runId: state.runId,
+            type: 'hint',
+            content: hintInput.trim(),
+            loopId: loop.loopId,
+            taskId: getCurrentTaskId(loop, state.completedTasks, state.tasks),
+          });
+          setStatusMessage(`Hint queued for loop ${loop.loopId.slice(0, 8)}`);
+        }
+        setHintInput(null);
+      } else if (key.backspace || key.delete) {
+        setHintInput((prev) => (prev ?? '').slice(0, -1));
+      } else if (input && !key.ctrl && !key.meta) {
+        setHintInput((prev) => (prev ?? '') + input);
+      }
+      return;
+    }
+    if (input === 'h' && focusedLoopIndex !== null) {
+      setHintInput('');
+      return;
+    }
+    if (input === 's' && focusedLoopIndex !== null) {
+      const loop = sortLoopsForDisplay(loops)[focusedLoopIndex];
+      if (loop) {
+        // Applied by the build phase at its next iteration, like `ralphs loop pause|resume`
+        const db = getDatabase();
+        if (
+          loop.status === 'paused'
+            ? resumeLoopInDb(db, loop.loopId)
+            : pauseLoopInDb(db, loop.loopId)
+        ) {
+          const status = loop.status === 'paused' ? 'running' : 'paused';
+          setLoops((prev) => prev.map((l) => (l.loopId === loop.loopId ? { ...l, status } : l)));
+          setStatusMessage(
+            `Loop ${loop.loopId.slice(0, 8)} ${status === 'paused' ? 'paused' : 'resumed'}`
+          );
+        }
+      }
+      return;
+    }
     if (input === 'q') {
       // Save state on graceful quit
       try {
@@ -272,6 +344,16 @@ export function App({ initialState, tracer }: AppProps) {
       // Save state after each phase for resume support (matches non-TUI behavior)
       saveRun(newState);
 
+      // Stop once in-flight work is saved if a drain was requested
+      if (isDrainRequestedInDb(getDatabase(), newState.runId)) {
+        process.exitCode = DRAINED_EXIT_CODE;
+        tracer?.finalize().catch(() => {});
+        closeDatabase();
+        setRunning(false);
+        exit();
+        return;
+      }
+
       // Trigger next iteration - this ensures the effect re-runs even when
       // state.phase stays the same (e.g., during build iterations)
       setRunTrigger((prev) => prev + 1);
@@ -282,7 +364,7 @@ export function App({ initialState, tracer }: AppProps) {
       // Still trigger to allow retry/continuation
       setRunTrigger((prev) => prev + 1);
     }
-  }, [state, running, tracer]);
+  }, [state, running, tracer, exit]);
 
   // biome-ignore lint/correctness/useExhaustiveDependencies: runTrigger is intentionally used instead of runPhase to reliably trigger re-runs. Depending on runPhase (a function) caused unreliable behavior where build iterations that stayed in the same phase would not trigger the next run.
   useEffect(() => {
@@ -302,6 +384,7 @@ export function App({ initialState, tracer }: AppProps) {
       lastActivityTime={lastActivityTime}
       showTaskPanel={showTaskPanel}
       currentPage={currentPage}
+      hintInput={hintInput}
     />
   );
 }
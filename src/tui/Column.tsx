@@ -35,6 +35,8 @@ function getStatusIndicator(status: LoopState['status']): { symbol: string; colo
       return { symbol: '✗', color: 'red' };
     case 'stuck':
       return { symbol: '!', color: 'red' };
+    case 'paused':
+      return { symbol: '‖', color: 'blue' };
     default:
       return { symbol: '○', color: 'gray' };
   }
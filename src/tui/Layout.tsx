@@ -1,4 +1,5 @@
 import { Box, Text, useStdout } from 'ink';
+import { getCurrentTaskId } from '../orchestrator/phases/build.js';
 import type { LoopState, OrchestratorState } from '../types/index.js';
 import { Column } from './Column.js';
 import { Header } from './Header.js';
@@ -15,10 +16,38 @@ interface LayoutProps {
   lastActivityTime: number;
   showTaskPanel: boolean;
   currentPage: number;
+  hintInput: string | null;
 }
 
 const MIN_COLUMN_WIDTH = 60;
 
+/**
+ * Title of the task a loop is on, with its position when the loop owns a task chain.
+ */
+function getLoopTaskTitle(loop: LoopState, state: OrchestratorState): string {
+  const taskId = getCurrentTaskId(loop, state.completedTasks, state.tasks);
+  const title = state.tasks.find((t) => t.id === taskId)?.title || 'Unknown';
+  if (loop.taskIds.length <= 1) return title;
+  return `${title} (${loop.taskIds.indexOf(taskId) + 1}/${loop.taskIds.length})`;
+}
+
+/**
+ * Sort loops to prioritize active/pending loops over completed/failed ones.
+ * This ensures running loops are always visible when maxLoops is limited.
+ * Focus indexes refer to this order.
+ */
+export function sortLoopsForDisplay(loops: LoopState[]): LoopState[] {
+  const priority = (status: string) => {
+    // Paused loops keep their place so toggling pause does not move the focused column
+    if (status === 'running' || status === 'paused') return 0;
+    if (status === 'pending') return 1;
+    if (status === 'stuck') return 2;
+    if (status === 'failed') return 3;
+    return 4; // completed
+  };
+  return [...loops].sort((a, b) => priority(a.status) - priority(b.status));
+}
+
 export function Layout({
   state,
   loops,
@@ -29,6 +58,7 @@ export function Layout({
   lastActivityTime,
   showTaskPanel,
   currentPage,
+  hintInput,
 }: LayoutProps) {
   const { stdout } = useStdout();
   const terminalHeight = stdout?.rows || 24;
@@ -42,18 +72,7 @@ export function Layout({
   // Minimize status area during build phase when loops are active
   const minimizeStatus = state.phase === 'build' && activeLoops.length > 0;
 
-  // Sort loops to prioritize active/pending loops over completed/failed ones
-  // This ensures running loops are always visible when maxLoops is limited
-  const sortedLoops = [...loops].sort((a, b) => {
-    const priority = (status: string) => {
-      if (status === 'running') return 0;
-      if (status === 'pending') return 1;
-      if (status === 'stuck') return 2;
-      if (status === 'failed') return 3;
-      return 4; // completed
-    };
-    return priority(a.status) - priority(b.status);
-  });
+  const sortedLoops = sortLoopsForDisplay(loops);
 
   // Pagination calculations
   const totalLoops = Math.min(sortedLoops.length, state.maxLoops);
@@ -88,12 +107,11 @@ export function Layout({
             // Focused mode: show only the focused loop at full width
             (() => {
               const focusedLoop = sortedLoops[focusedLoopIndex];
-              const task = state.tasks.find((t) => t.id === focusedLoop.taskIds[0]);
               return (
                 <Column
                   key={focusedLoop.loopId}
                   loop={focusedLoop}
-                  taskTitle={task?.title || 'Unknown'}
+                  taskTitle={getLoopTaskTitle(focusedLoop, state)}
                   isFocused={true}
                   totalColumns={1}
                 />
@@ -102,18 +120,15 @@ export function Layout({
           ) : (
             // Normal mode: show paginated columns
             <>
-              {visibleLoops.map((loop) => {
-                const task = state.tasks.find((t) => t.id === loop.taskIds[0]);
-                return (
-                  <Column
-                    key={loop.loopId}
-                    loop={loop}
-                    taskTitle={task?.title || 'Unknown'}
-                    isFocused={false}
-                    totalColumns={visibleColumns}
-                  />
-                );
-              })}
+              {visibleLoops.map((loop) => (
+                <Column
+                  key={loop.loopId}
+                  loop={loop}
+                  taskTitle={getLoopTaskTitle(loop, state)}
+                  isFocused={false}
+                  totalColumns={visibleColumns}
+                />
+              ))}
 
               {/* Empty columns if fewer visible loops than visible columns */}
               {Array.from({ length: Math.max(0, visibleColumns - visibleLoops.length) }).map(
@@ -150,11 +165,21 @@ export function Layout({
 
       {/* Footer */}
       <Box borderStyle="single" paddingX={1} justifyContent="space-between">
-        <Text dimColor>
-          [q]uit [p]ause [r]eview [t]asks [1-{visibleColumns}] focus
-          {isPaginated && focusedLoopIndex === null && ' [/] page'}
-        </Text>
-        {focusedLoopIndex !== null ? (
+        {hintInput !== null ? (
+          <Text>
+            Hint: {hintInput}
+            {'\u2588'}
+          </Text>
+        ) : (
+          <Text dimColor>
+            [q]uit [p]ause [r]eview [t]asks [1-{visibleColumns}] focus
+            {focusedLoopIndex !== null && ' [h]int [s]uspend/resume'}
+            {isPaginated && focusedLoopIndex === null && ' [/] page'}
+          </Text>
+        )}
+        {hintInput !== null ? (
+          <Text dimColor>[enter] send [esc] cancel</Text>
+        ) : focusedLoopIndex !== null ? (
           <Text dimColor>Focused #{focusedLoopIndex + 1} (press again to unfocus)</Text>
         ) : (
           isPaginated && (
@@ -60,6 +60,18 @@ function TaskRow({ task, tasks, completedIds, loops }: TaskRowProps) {
       icon = '\u2717';
       color = 'red';
       break;
+    case 'skipped':
+      icon = '\u00BB';
+      color = 'gray';
+      break;
+    case 'cancelled':
+      icon = '\u2013';
+      color = 'gray';
+      break;
+    case 'superseded':
+      icon = '\u2192';
+      color = 'gray';
+      break;
     default:
       // pending
       icon = '\u25CB';
@@ -97,7 +109,11 @@ function TaskRow({ task, tasks, completedIds, loops }: TaskRowProps) {
 export function TaskPanel({ tasks, completedTasks, activeLoops }: TaskPanelProps) {
   const completedIds = new Set(completedTasks);
   const completedCount = completedTasks.length;
-  const totalCount = tasks.length;
+  // Cancelled tasks were dropped from the spec and superseded ones were split into
+  // subtasks; neither counts toward progress
+  const totalCount = tasks.filter(
+    (t) => t.status !== 'cancelled' && t.status !== 'superseded'
+  ).length;
 
   // Sort tasks by status priority
   const sortedTasks = [...tasks].sort(
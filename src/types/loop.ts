@@ -1,7 +1,11 @@
+import type { ModelTier } from './state.js';
+
 export interface StuckIndicators {
   sameErrorCount: number;
   noProgressCount: number;
   lastError: string | null;
+  lastErrorFingerprint: string | null; // fingerprintError() of lastError
+  errorHistory: Array<string | null>; // Error fingerprint of each recent iteration (null = no error), newest last
   lastFileChangeIteration: number;
   lastActivityAt: number; // Unix timestamp (ms) of last output received
 }
@@ -11,11 +15,12 @@ export type LoopReviewStatus = 'pending' | 'in_progress' | 'passed' | 'failed';
 export interface LoopState {
   loopId: string;
   taskIds: string[];
+  passedTaskIds: string[]; // Chain tasks that passed review; completed once the loop merges
   iteration: number;
   maxIterations: number;
   reviewInterval: number;
   lastReviewAt: number;
-  status: 'pending' | 'running' | 'stuck' | 'completed' | 'failed' | 'interrupted';
+  status: 'pending' | 'running' | 'stuck' | 'completed' | 'failed' | 'interrupted' | 'paused';
   stuckIndicators: StuckIndicators;
   output: string[]; // Recent output lines for TUI
   worktreePath: string | null; // Path to git worktree (null if not using worktrees)
@@ -26,4 +31,8 @@ export interface LoopState {
   lastReviewId: string | null; // References loop_reviews.id
   revisionAttempts: number; // Count of revision attempts for current task
   lastCheckpointReviewAt: number; // Iteration when last checkpoint review occurred
+
+  // Stuck recovery
+  recoveryAttempts: number; // Recovery ladder steps used so far
+  modelTier: ModelTier | null; // Build model escalated by recovery (null = preset's build model)
 }
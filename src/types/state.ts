@@ -1,5 +1,5 @@
 import type { LoopState } from './loop.js';
-import type { Task, TaskGraph } from './task.js';
+import type { Task, TaskGraph, TaskRule } from './task.js';
 
 export type EffortLevel = 'low' | 'medium' | 'high' | 'max';
 export type Phase =
@@ -12,6 +12,9 @@ export type Phase =
   | 'conflict'
   | 'complete';
 export type ModelTier = 'haiku' | 'sonnet' | 'opus';
+export type ReviewDepth = 'shallow' | 'standard' | 'deep' | 'comprehensive';
+/** Ways to get a stuck loop moving again, tried in the preset's order */
+export type RecoveryStep = 'escalate_model' | 'diagnose' | 'split_task' | 'fresh_worktree';
 export type ReviewType = 'analyze' | 'enumerate' | 'plan' | 'build' | null;
 
 export type ReviewIssueType =
@@ -20,7 +23,8 @@ export type ReviewIssueType =
   | 'pattern-violation'
   | 'dead-code'
   | 'spec-intent-mismatch'
-  | 'architecture-concern';
+  | 'architecture-concern'
+  | 'verification-failure';
 
 export interface ReviewIssue {
   taskId?: string; // Optional: cross-task issues (architecture, patterns) have no taskId
@@ -62,16 +66,40 @@ export interface CostTracking {
   loopCosts: Record<string, number>; // loopId -> cost
 }
 
+/** Tokens billed for one agent call, as reported by the model API */
+export interface TokenUsage {
+  inputTokens: number; // Uncached input tokens
+  outputTokens: number;
+  cacheReadTokens: number; // Input tokens served from the prompt cache
+  cacheWriteTokens: number; // Input tokens written to the prompt cache
+}
+
 export interface CostLimits {
   perLoopMaxUsd: number;
   perPhaseMaxUsd: number;
   perRunMaxUsd: number;
+  softLimitRatio?: number; // Fraction of each limit that starts a graceful wind-down
+  downgradeAtSoftLimit?: boolean; // Build the remaining iterations one model tier down
+  maxModelTier?: ModelTier; // Model ceiling for every agent of the run; task rules and recovery cannot raise it
+}
+
+export interface AfterMergeVerifyConfig {
+  commands: string[]; // Run in order on the base branch after each successful merge
+  onFailure: 'revert' | 'fix'; // Revert the merge commit, or open an integration fix task
+}
+
+export interface VerifyConfig {
+  commands: string[]; // Run in order in the loop's worktree before a TASK_COMPLETE is reviewed
+  timeoutSeconds: number; // Per command
+  afterMerge?: AfterMergeVerifyConfig;
 }
 
 export interface OrchestratorState {
   // Identity
   runId: string;
   specPath: string;
+  specHash: string | null; // sha256 of spec content (null if unreadable)
+  specSnapshot: string | null; // Spec content tasks were enumerated from (null before ENUMERATE)
   effort: EffortLevel;
 
   // Phase tracking
@@ -102,6 +130,9 @@ export interface OrchestratorState {
   maxLoops: number;
   maxIterations: number;
   stateDir: string;
+  verify: VerifyConfig;
+  recoveryLadder: RecoveryStep[]; // Tried in order when a loop gets stuck, before giving up
+  taskRules: TaskRule[]; // ralphs.yaml rules, then spec front-matter rules (later rules win)
 
   // Git worktree isolation
   baseBranch: string | null; // null if not a git repo
@@ -1,14 +1,40 @@
+import type { ModelTier, ReviewDepth } from './state.js';
+
 export interface Task {
   id: string;
   title: string;
   description: string;
-  status: 'pending' | 'in_progress' | 'completed' | 'failed';
+  status:
+    | 'pending'
+    | 'in_progress'
+    | 'completed'
+    | 'failed'
+    | 'cancelled'
+    | 'skipped'
+    | 'superseded';
   dependencies: string[]; // Task IDs this depends on
   estimatedIterations: number;
   assignedLoopId: string | null;
+  model?: ModelTier; // Build model hint from write_task (absent = preset's build model)
+}
+
+/** Per-task settings that take precedence over the effort preset */
+export interface TaskOverrides {
+  model?: ModelTier;
+  maxIterations?: number;
+  reviewDepth?: ReviewDepth;
+}
+
+/**
+ * Overrides for the tasks whose ID or title matches `match`, a case-insensitive
+ * regex. Rules come from ralphs.yaml and the spec's front-matter.
+ */
+export interface TaskRule extends TaskOverrides {
+  match: string;
 }
 
 export interface TaskGraph {
   tasks: Task[];
   parallelGroups: string[][]; // Groups of task IDs that can run in parallel
+  chains: string[][]; // Linear task chains, each built in order by a single loop
 }
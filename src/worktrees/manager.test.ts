@@ -63,6 +63,57 @@ describe('WorktreeManager', () => {
       assert.ok(fileExists.toString().includes('test content'));
     });
 
+    it('runs concurrent merges one at a time', async () => {
+      const loopIds = ['loop-p1', 'loop-p2', 'loop-p3'];
+      for (const loopId of loopIds) {
+        const { worktreePath } = await worktreeManager.create(loopId);
+        execSync(`echo "${loopId}" > ${loopId}.txt && git add -A && git commit -m "${loopId}"`, {
+          cwd: worktreePath,
+          stdio: 'pipe',
+        });
+      }
+
+      const results = await Promise.all(loopIds.map((id) => worktreeManager.merge(id)));
+
+      assert.deepStrictEqual(
+        results.map((r) => r.status),
+        ['success', 'success', 'success']
+      );
+      const files = execSync('git ls-tree --name-only main', { cwd: repoDir }).toString();
+      for (const loopId of loopIds) {
+        assert.ok(files.includes(`${loopId}.txt`));
+      }
+    });
+
+    it('runs afterMerge with the merge commit before the next merge and can revert it', async () => {
+      for (const loopId of ['loop-bad', 'loop-next']) {
+        const { worktreePath } = await worktreeManager.create(loopId);
+        execSync(`echo "${loopId}" > ${loopId}.txt && git add -A && git commit -m "${loopId}"`, {
+          cwd: worktreePath,
+          stdio: 'pipe',
+        });
+      }
+
+      const seen: string[] = [];
+      const [bad] = await Promise.all([
+        worktreeManager.merge('loop-bad', async (mergeCommit) => {
+          // The next queued merge has not landed yet
+          const files = execSync('git ls-tree --name-only HEAD', { cwd: repoDir }).toString();
+          seen.push(files.includes('loop-next.txt') ? 'next merged' : 'next pending');
+          const subject = execSync(`git log -1 --format=%s ${mergeCommit}`, { cwd: repoDir });
+          seen.push(subject.toString().trim());
+          await worktreeManager.revertMerge(mergeCommit);
+        }),
+        worktreeManager.merge('loop-next'),
+      ]);
+
+      assert.strictEqual(bad.status, 'success');
+      assert.deepStrictEqual(seen, ['next pending', 'Merge loop-bad']);
+      const files = execSync('git ls-tree --name-only main', { cwd: repoDir }).toString();
+      assert.ok(!files.includes('loop-bad.txt'));
+      assert.ok(files.includes('loop-next.txt'));
+    });
+
     it('detects merge conflicts', async () => {
       // Create worktree
       const { worktreePath } = await worktreeManager.create('loop-conflict');
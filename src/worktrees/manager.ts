@@ -25,6 +25,8 @@ export type MergeResult =
 
 export class WorktreeManager {
   private config: WorktreeManagerConfig;
+  // Merges into the main repo run one at a time; concurrent git merges race on its index lock
+  private mergeQueue: Promise<unknown> = Promise.resolve();
 
   constructor(config: WorktreeManagerConfig) {
     this.config = config;
@@ -48,7 +50,38 @@ export class WorktreeManager {
     return { worktreePath, branchName };
   }
 
-  async merge(loopId: string): Promise<MergeResult> {
+  /**
+   * Merge the loop's branch into the base branch. `afterMerge` runs on the
+   * base branch with the merge commit before the next queued merge starts, so
+   * it sees exactly this merge and can revert it with revertMerge().
+   */
+  merge(loopId: string, afterMerge?: (mergeCommit: string) => Promise<void>): Promise<MergeResult> {
+    const result = this.mergeQueue.then(async () => {
+      const mergeResult = await this.mergeNow(loopId);
+      if (mergeResult.status === 'success' && afterMerge) {
+        await afterMerge(await this.baseHead());
+      }
+      return mergeResult;
+    });
+    this.mergeQueue = result.catch(() => {});
+    return result;
+  }
+
+  /** The commit the main repo's checkout points at, e.g. a merge just made */
+  async baseHead(): Promise<string> {
+    const { stdout } = await execAsync('git rev-parse HEAD', { cwd: this.config.repoDir });
+    return stdout.trim();
+  }
+
+  /**
+   * Undo a merge commit on the base branch with a new revert commit. Not
+   * queued: call it from merge()'s afterMerge callback.
+   */
+  async revertMerge(mergeCommit: string): Promise<void> {
+    await execAsync(`git revert -m 1 --no-edit ${mergeCommit}`, { cwd: this.config.repoDir });
+  }
+
+  private async mergeNow(loopId: string): Promise<MergeResult> {
     const branchName = `ralphs/${this.config.runId}/${loopId}`;
     const worktreePath = join(this.config.worktreeBaseDir, loopId);
 